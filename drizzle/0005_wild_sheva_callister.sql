@@ -0,0 +1 @@
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "pms_practitioner_id" varchar(255);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "pms_appointment_types" ADD COLUMN "is_telehealth_suggested" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "pms_appointment_types" ADD COLUMN "telehealth_confirmed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "pms_appointment_types" ADD COLUMN "last_seen_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TYPE "public"."telehealth_invite_status" ADD VALUE 'stale';--> statement-breakpoint
+ALTER TABLE "pms_sync_log" ADD COLUMN "appointments_removed" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "pms_removed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "stale_reason" text;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "pms_rate_limits" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"minute_window_start" timestamp with time zone NOT NULL,
+	"minute_count" integer DEFAULT 0 NOT NULL,
+	"hour_window_start" timestamp with time zone NOT NULL,
+	"hour_count" integer DEFAULT 0 NOT NULL,
+	"blocked_until" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
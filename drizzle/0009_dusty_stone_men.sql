@@ -0,0 +1,10 @@
+CREATE TYPE "public"."pms_circuit_state" AS ENUM('closed', 'open', 'half_open');--> statement-breakpoint
+CREATE TABLE "pms_circuit_breakers" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"state" "pms_circuit_state" DEFAULT 'closed' NOT NULL,
+	"failure_count" integer DEFAULT 0 NOT NULL,
+	"state_changed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_failure_at" timestamp with time zone,
+	"last_error" text,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
@@ -0,0 +1,19 @@
+CREATE TABLE "pms_request_journal" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pms_connection_id" uuid NOT NULL,
+	"sync_log_id" uuid,
+	"method" varchar(10) NOT NULL,
+	"url" text NOT NULL,
+	"attempt" integer DEFAULT 1 NOT NULL,
+	"status" integer,
+	"latency_ms" integer NOT NULL,
+	"request_body" jsonb,
+	"response_body" jsonb,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pms_connections" ADD COLUMN "journal_requests" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "pms_request_journal" ADD CONSTRAINT "pms_request_journal_pms_connection_id_pms_connections_id_fk" FOREIGN KEY ("pms_connection_id") REFERENCES "public"."pms_connections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pms_request_journal" ADD CONSTRAINT "pms_request_journal_sync_log_id_pms_sync_log_id_fk" FOREIGN KEY ("sync_log_id") REFERENCES "public"."pms_sync_log"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "pms_request_journal_sync_log_idx" ON "pms_request_journal" USING btree ("sync_log_id","created_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."pms_sync_mode" AS ENUM('full', 'incremental');--> statement-breakpoint
+ALTER TABLE "pms_connections" ADD COLUMN "sync_cursor" jsonb;--> statement-breakpoint
+ALTER TABLE "pms_sync_log" ADD COLUMN "sync_mode" "pms_sync_mode";--> statement-breakpoint
+ALTER TABLE "pms_sync_log" ADD COLUMN "sync_cursor" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "pms_sync_log" ADD COLUMN "sync_mode_reason" text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."pms_webhook_event_status" AS ENUM('processing', 'processed', 'failed');--> statement-breakpoint
+CREATE TABLE "pms_webhook_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pms_connection_id" uuid NOT NULL,
+	"event_id" varchar(255) NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"pms_appointment_id" varchar(255) NOT NULL,
+	"status" "pms_webhook_event_status" DEFAULT 'processing' NOT NULL,
+	"result" varchar(20),
+	"error" text,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"processed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "pms_connections" ADD COLUMN "webhook_secret" text;--> statement-breakpoint
+ALTER TABLE "pms_webhook_events" ADD CONSTRAINT "pms_webhook_events_pms_connection_id_pms_connections_id_fk" FOREIGN KEY ("pms_connection_id") REFERENCES "public"."pms_connections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "pms_webhook_events_connection_event_idx" ON "pms_webhook_events" USING btree ("pms_connection_id","event_id");
\ No newline at end of file
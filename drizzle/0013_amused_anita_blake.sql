@@ -0,0 +1,4 @@
+CREATE TYPE "public"."pms_write_back_status" AS ENUM('success', 'failed');--> statement-breakpoint
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "pms_write_back_status" "pms_write_back_status";--> statement-breakpoint
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "pms_write_back_error" text;--> statement-breakpoint
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "pms_write_back_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "pms_connections" ADD COLUMN "timezone" varchar(64) DEFAULT 'Australia/Melbourne' NOT NULL;--> statement-breakpoint
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "appointment_start_at" timestamp with time zone;
\ No newline at end of file
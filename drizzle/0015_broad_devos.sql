@@ -0,0 +1,3 @@
+ALTER TABLE "telehealth_invites" ADD COLUMN "claimed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "sms_provider" varchar(50);--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "provider_message_id" varchar(255);
\ No newline at end of file
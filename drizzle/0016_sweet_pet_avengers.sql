@@ -0,0 +1,6 @@
+ALTER TABLE "telehealth_invites" ADD COLUMN "link_token" varchar(64);--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "link_valid_from" timestamp;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "link_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "link_opened_at" timestamp;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "link_last_opened_at" timestamp;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD CONSTRAINT "telehealth_invites_link_token_unique" UNIQUE("link_token");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "message_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clinician_id" uuid,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "message_templates_clinician_id_unique" UNIQUE("clinician_id")
+);
+--> statement-breakpoint
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_clinician_id_run_sheet_clinicians_id_fk" FOREIGN KEY ("clinician_id") REFERENCES "public"."run_sheet_clinicians"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
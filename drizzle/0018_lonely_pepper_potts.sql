@@ -0,0 +1,5 @@
+ALTER TYPE "public"."telehealth_invite_status" ADD VALUE 'delivered';--> statement-breakpoint
+ALTER TYPE "public"."telehealth_invite_status" ADD VALUE 'undeliverable';--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "attempt_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "next_attempt_at" timestamp;--> statement-breakpoint
+ALTER TABLE "telehealth_invites" ADD COLUMN "delivered_at" timestamp;
\ No newline at end of file
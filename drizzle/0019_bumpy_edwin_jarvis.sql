@@ -0,0 +1,20 @@
+CREATE TYPE "public"."sms_direction" AS ENUM('outbound', 'inbound');--> statement-breakpoint
+CREATE TABLE "sms_messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"direction" "sms_direction" NOT NULL,
+	"telehealth_invite_id" uuid,
+	"run_sheet_appointment_id" uuid,
+	"phone_number" varchar(50) NOT NULL,
+	"body" text NOT NULL,
+	"sms_provider" varchar(50),
+	"provider_message_id" varchar(255),
+	"reply_action" varchar(20),
+	"reply_action_result" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "running_late_at" timestamp;--> statement-breakpoint
+ALTER TABLE "sms_messages" ADD CONSTRAINT "sms_messages_telehealth_invite_id_telehealth_invites_id_fk" FOREIGN KEY ("telehealth_invite_id") REFERENCES "public"."telehealth_invites"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sms_messages" ADD CONSTRAINT "sms_messages_run_sheet_appointment_id_run_sheet_appointments_id_fk" FOREIGN KEY ("run_sheet_appointment_id") REFERENCES "public"."run_sheet_appointments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "sms_messages_provider_message_idx" ON "sms_messages" USING btree ("sms_provider","provider_message_id");--> statement-breakpoint
+CREATE INDEX "sms_messages_appointment_idx" ON "sms_messages" USING btree ("run_sheet_appointment_id");
\ No newline at end of file
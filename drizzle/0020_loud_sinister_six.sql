@@ -0,0 +1 @@
+ALTER TABLE "run_sheet_appointments" ADD COLUMN "pms_changed_at" timestamp with time zone;
\ No newline at end of file
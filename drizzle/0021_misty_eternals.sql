@@ -0,0 +1 @@
+ALTER TABLE "telehealth_invites" ADD COLUMN "room_url" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "run_sheet_appointments" ALTER COLUMN "running_late_at" SET DATA TYPE timestamp with time zone USING "running_late_at" AT TIME ZONE 'UTC';
\ No newline at end of file
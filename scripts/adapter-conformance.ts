@@ -0,0 +1,348 @@
+/**
+ * Conformance checks for the PMSAdapter contract
+ *
+ * Any adapter can be run through these against its fixtures (mock data or a
+ * local stub). See scripts/test-adapter-conformance.ts for the registered
+ * adapters; a new adapter only needs a target added there.
+ */
+
+import assert from 'node:assert/strict';
+import { RetryableError } from '../src/lib/pms/core/retry-handler';
+import { isValidTimezone } from '../src/lib/pms/core/timezone';
+import type {
+  AppointmentStatus,
+  FetchOptions,
+  PMSAdapter,
+  PMSConnection,
+  UnifiedAppointment,
+} from '../src/lib/pms/types';
+
+const APPOINTMENT_STATUSES: ReadonlySet<AppointmentStatus> = new Set([
+  'booked',
+  'confirmed',
+  'arrived',
+  'in_progress',
+  'completed',
+  'cancelled',
+  'no_show',
+]);
+
+// A generator that never finishes shouldn't hang the run
+const MAX_BATCHES = 1000;
+
+export interface AdapterConformanceTarget {
+  name: string;
+  adapter: PMSAdapter;
+  connection: PMSConnection;
+  // Range whose fixtures hold both telehealth and in-person appointments,
+  // and more than pageSize of them
+  dateFrom: Date;
+  dateTo: Date;
+  pageSize?: number;               // Defaults to 5, the smallest page any PMS accepts
+  unhealthyConnection?: PMSConnection; // Connection the adapter should report as unhealthy
+  // The same adapter making real HTTP calls, for error mapping. fetch is
+  // intercepted while these run, so nothing leaves the process.
+  http?: {
+    adapter: PMSAdapter;
+    connection: PMSConnection;
+  };
+}
+
+/**
+ * Run every check against a target, logging each as it passes.
+ * Throws an AssertionError on the first violation.
+ */
+export async function runAdapterConformance(target: AdapterConformanceTarget): Promise<void> {
+  console.log(`\n🧪 ${target.name}\n`);
+
+  const all = await checkPagination(target);
+  checkInvariants(target, all);
+  await checkDateBounds(target, all);
+  await checkTelehealthFilter(target, all);
+  await checkHealthCheck(target);
+
+  if (target.http) {
+    await checkErrorMapping(target, target.http.adapter, target.http.connection);
+  }
+
+  console.log(`\n✅ ${target.name} conforms\n`);
+}
+
+/**
+ * Drain an appointment generator, checking each batch it yields
+ */
+async function collectBatches(
+  target: AdapterConformanceTarget,
+  options: FetchOptions
+): Promise<UnifiedAppointment[][]> {
+  const batches: UnifiedAppointment[][] = [];
+
+  for await (const batch of target.adapter.fetchAppointments(target.connection, options)) {
+    assert.ok(Array.isArray(batch), `${target.name}: batches must be arrays`);
+    assert.ok(batch.length > 0, `${target.name}: empty batches should not be yielded`);
+    if (options.limit !== undefined) {
+      assert.ok(
+        batch.length <= options.limit,
+        `${target.name}: batch of ${batch.length} exceeds limit ${options.limit}`
+      );
+    }
+
+    batches.push(batch);
+    assert.ok(batches.length <= MAX_BATCHES, `${target.name}: generator yielded over ${MAX_BATCHES} batches`);
+  }
+
+  return batches;
+}
+
+function ids(appointments: UnifiedAppointment[]): string[] {
+  return appointments.map(a => a.pmsAppointmentId).sort();
+}
+
+/**
+ * Small pages split the range into several batches without losing or repeating appointments
+ */
+async function checkPagination(target: AdapterConformanceTarget): Promise<UnifiedAppointment[]> {
+  const { dateFrom, dateTo } = target;
+  const pageSize = target.pageSize ?? 5;
+
+  const paged = await collectBatches(target, { dateFrom, dateTo, limit: pageSize });
+  const appointments = paged.flat();
+
+  assert.ok(
+    appointments.length > pageSize,
+    `${target.name}: fixtures need more than ${pageSize} appointments in range to exercise pagination`
+  );
+  assert.ok(paged.length > 1, `${target.name}: ${appointments.length} appointments came back in one batch`);
+  assert.equal(
+    new Set(ids(appointments)).size,
+    appointments.length,
+    `${target.name}: appointments repeated across pages`
+  );
+
+  const unpaged = (await collectBatches(target, { dateFrom, dateTo })).flat();
+  assert.deepEqual(ids(unpaged), ids(appointments), `${target.name}: page size changed the result set`);
+
+  console.log(`✓ Pagination: ${appointments.length} appointments in ${paged.length} batches of ≤${pageSize}`);
+  return appointments;
+}
+
+/**
+ * Every UnifiedAppointment is complete and internally consistent
+ */
+function checkInvariants(target: AdapterConformanceTarget, appointments: UnifiedAppointment[]): void {
+  const { adapter, connection } = target;
+
+  for (const appointment of appointments) {
+    const label = `${target.name}: appointment ${appointment.pmsAppointmentId}`;
+
+    assert.equal(appointment.pmsType, adapter.pmsType, `${label} has the wrong pmsType`);
+    assert.equal(appointment.pmsConnectionId, connection.id, `${label} has the wrong connection`);
+    assert.ok(appointment.pmsAppointmentId, `${target.name}: appointment without an ID`);
+
+    assert.ok(
+      appointment.startTime instanceof Date && !isNaN(appointment.startTime.getTime()),
+      `${label} has an invalid startTime`
+    );
+    if (appointment.endTime !== null) {
+      assert.ok(
+        appointment.endTime instanceof Date && !isNaN(appointment.endTime.getTime()),
+        `${label} has an invalid endTime`
+      );
+      assert.ok(appointment.endTime >= appointment.startTime, `${label} ends before it starts`);
+    }
+    if (appointment.durationMinutes !== null) {
+      assert.ok(
+        Number.isInteger(appointment.durationMinutes) && appointment.durationMinutes > 0,
+        `${label} has duration ${appointment.durationMinutes}`
+      );
+    }
+    assert.ok(isValidTimezone(appointment.timezone), `${label} has unknown timezone ${appointment.timezone}`);
+
+    assert.equal(typeof appointment.isTelehealth, 'boolean', `${label} isTelehealth is not a boolean`);
+    assert.equal(typeof appointment.appointmentTypeName, 'string', `${label} has no appointment type name`);
+    assert.ok(
+      appointment.status === null || APPOINTMENT_STATUSES.has(appointment.status),
+      `${label} has unmapped status ${appointment.status}`
+    );
+
+    assert.ok(appointment.patient.pmsPatientId, `${label} has no patient ID`);
+    assert.ok(appointment.patient.fullName, `${label} has no patient name`);
+    assert.ok(appointment.practitioner.pmsPractitionerId, `${label} has no practitioner ID`);
+    assert.ok(appointment.practitioner.fullName, `${label} has no practitioner name`);
+
+    assert.ok(appointment.fetchedAt instanceof Date, `${label} has no fetchedAt`);
+    assert.ok(
+      appointment.rawData !== null && typeof appointment.rawData === 'object',
+      `${label} has no rawData`
+    );
+  }
+
+  console.log(`✓ Invariants hold for ${appointments.length} appointments`);
+}
+
+/**
+ * Results start within the requested range, bounds inclusive and exact to the millisecond
+ */
+async function checkDateBounds(
+  target: AdapterConformanceTarget,
+  all: UnifiedAppointment[]
+): Promise<void> {
+  const outside = all.filter(a => a.startTime < target.dateFrom || a.startTime > target.dateTo);
+  assert.deepEqual(ids(outside), [], `${target.name}: appointments outside the requested range`);
+
+  // A window that starts and ends on appointments, so both bounds are tested
+  const starts = [...new Set(all.map(a => a.startTime.getTime()))].sort((a, b) => a - b);
+  assert.ok(starts.length >= 3, `${target.name}: fixtures need at least three distinct start times`);
+  const dateFrom = new Date(starts[Math.floor(starts.length / 3)]);
+  const dateTo = new Date(starts[Math.floor((2 * starts.length) / 3)]);
+
+  const expected = all.filter(a => a.startTime >= dateFrom && a.startTime <= dateTo);
+  const windowed = (await collectBatches(target, { dateFrom, dateTo })).flat();
+  assert.deepEqual(ids(windowed), ids(expected), `${target.name}: narrower range returned the wrong appointments`);
+
+  // Nudging the bounds inwards by 1ms must drop the appointments sitting on them
+  const inner = (await collectBatches(target, {
+    dateFrom: new Date(dateFrom.getTime() + 1),
+    dateTo: new Date(dateTo.getTime() - 1),
+  })).flat();
+  assert.deepEqual(
+    ids(inner),
+    ids(expected.filter(a => a.startTime > dateFrom && a.startTime < dateTo)),
+    `${target.name}: bounds are not exact`
+  );
+
+  console.log(`✓ Date bounds: ${windowed.length} of ${all.length} appointments in a narrower window`);
+}
+
+/**
+ * telehealthOnly returns exactly the telehealth subset of the unfiltered fetch
+ */
+async function checkTelehealthFilter(
+  target: AdapterConformanceTarget,
+  all: UnifiedAppointment[]
+): Promise<void> {
+  const { dateFrom, dateTo } = target;
+  const expected = all.filter(a => a.isTelehealth);
+
+  assert.ok(
+    expected.length > 0 && expected.length < all.length,
+    `${target.name}: fixtures need both telehealth and in-person appointments`
+  );
+
+  const telehealth = (await collectBatches(target, { dateFrom, dateTo, telehealthOnly: true })).flat();
+  assert.deepEqual(ids(telehealth), ids(expected), `${target.name}: telehealthOnly returned the wrong appointments`);
+
+  console.log(`✓ telehealthOnly: ${telehealth.length} of ${all.length} appointments`);
+}
+
+/**
+ * healthCheck reports rather than throws, and validateConnection agrees with it
+ */
+async function checkHealthCheck(target: AdapterConformanceTarget): Promise<void> {
+  const { adapter, connection, unhealthyConnection } = target;
+
+  const health = await adapter.healthCheck(connection);
+  assert.equal(health.healthy, true, `${target.name}: ${health.message}`);
+  assert.equal(typeof health.message, 'string');
+  if (health.latencyMs !== undefined) {
+    assert.ok(health.latencyMs >= 0, `${target.name}: negative latency`);
+  }
+  assert.equal(await adapter.validateConnection(connection), true, `${target.name}: validateConnection disagrees`);
+
+  if (unhealthyConnection) {
+    const unhealthy = await adapter.healthCheck(unhealthyConnection);
+    assert.equal(unhealthy.healthy, false, `${target.name}: broken connection reported healthy`);
+    assert.ok(unhealthy.message, `${target.name}: unhealthy result has no message`);
+    assert.equal(
+      await adapter.validateConnection(unhealthyConnection),
+      false,
+      `${target.name}: validateConnection accepted a broken connection`
+    );
+  }
+
+  console.log(`✓ healthCheck: ${health.message}${unhealthyConnection ? '; broken connection reported unhealthy' : ''}`);
+}
+
+/**
+ * Run with every fetch answered by the responder instead of the network
+ */
+async function withFetch<T>(
+  responder: () => Promise<Response>,
+  operation: () => Promise<T>
+): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = responder;
+
+  try {
+    return await operation();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/**
+ * Copy of a connection on its own circuit breaker and rate limit keys, so
+ * one check's failures can't open the circuit for the next
+ */
+function isolate(connection: PMSConnection, check: string): PMSConnection {
+  const scoped = (value?: string) => value && `${value}-${check}`;
+
+  return {
+    ...connection,
+    id: `${connection.id}-${check}`,
+    tenantId: scoped(connection.tenantId),
+    practiceId: scoped(connection.practiceId),
+    organizationId: scoped(connection.organizationId),
+  };
+}
+
+async function fetchAll(adapter: PMSAdapter, connection: PMSConnection, options: FetchOptions): Promise<void> {
+  for await (const batch of adapter.fetchAppointments(connection, options)) {
+    void batch;
+  }
+}
+
+/**
+ * Server and network failures surface as RetryableError; client errors don't
+ */
+async function checkErrorMapping(
+  target: AdapterConformanceTarget,
+  adapter: PMSAdapter,
+  connection: PMSConnection
+): Promise<void> {
+  const options: FetchOptions = { dateFrom: target.dateFrom, dateTo: target.dateTo };
+  const respondWith = (status: number) => async () =>
+    new Response(JSON.stringify({ message: 'Simulated failure' }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const serverError = await withFetch(respondWith(503), () =>
+    fetchAll(adapter, isolate(connection, '503'), options).then(() => null, (error: unknown) => error)
+  );
+  assert.ok(
+    serverError instanceof RetryableError,
+    `${target.name}: 503 surfaced as ${String(serverError)}, not a RetryableError`
+  );
+  assert.equal(serverError.statusCode, 503);
+
+  const health = await withFetch(respondWith(503), () => adapter.healthCheck(isolate(connection, '503-health')));
+  assert.equal(health.healthy, false, `${target.name}: healthy while the PMS returns 503`);
+
+  const clientError = await withFetch(respondWith(400), () =>
+    fetchAll(adapter, isolate(connection, '400'), options).then(() => null, (error: unknown) => error)
+  );
+  assert.ok(clientError instanceof Error, `${target.name}: 400 did not fail the fetch`);
+  assert.ok(!(clientError instanceof RetryableError), `${target.name}: 400 should not be retryable`);
+
+  const networkError = await withFetch(
+    async () => { throw new TypeError('fetch failed'); },
+    () => fetchAll(adapter, isolate(connection, 'network'), options).then(() => null, (error: unknown) => error)
+  );
+  assert.ok(
+    networkError instanceof RetryableError,
+    `${target.name}: network failure surfaced as ${String(networkError)}, not a RetryableError`
+  );
+
+  console.log('✓ Error mapping: 503 and network failures are RetryableError, 400 is not; healthCheck reports 503');
+}
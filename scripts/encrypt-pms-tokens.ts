@@ -0,0 +1,108 @@
+/**
+ * Data migration: encrypt PMS OAuth tokens and webhook secrets at rest
+ * Run with: npx tsx scripts/encrypt-pms-tokens.ts [--dry-run]
+ *
+ * Encrypts plain-text tokens left from before encryption was added, and
+ * re-encrypts tokens written under an older PMS_TOKEN_KEYS version with
+ * the current one. Safe to re-run; rows already on the current key are skipped.
+ * Once no rows use an old key version, it can be dropped from PMS_TOKEN_KEYS.
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables from .env.local before the db module reads them
+config({ path: '.env.local' });
+
+async function main() {
+  const { and, eq, isNull } = await import('drizzle-orm');
+  const { db } = await import('../src/db');
+  const { pmsConnections } = await import('../src/db/schema');
+  const {
+    decryptToken,
+    encryptToken,
+    getCurrentTokenKeyVersion,
+    getTokenKeyVersion,
+  } = await import('../src/lib/pms/core/token-crypto');
+
+  const dryRun = process.argv.includes('--dry-run');
+  const currentVersion = getCurrentTokenKeyVersion();
+  if (currentVersion === 0) {
+    throw new Error('PMS_TOKEN_KEYS is not configured');
+  }
+
+  const needsUpdate = (value: string | null) =>
+    value !== null && getTokenKeyVersion(value) !== currentVersion;
+  const reencrypt = (value: string | null) =>
+    value === null ? null : encryptToken(decryptToken(value));
+
+  const connections = await db
+    .select({
+      id: pmsConnections.id,
+      displayName: pmsConnections.displayName,
+      accessToken: pmsConnections.accessToken,
+      refreshToken: pmsConnections.refreshToken,
+      webhookSecret: pmsConnections.webhookSecret,
+    })
+    .from(pmsConnections);
+
+  console.log(`🔐 Checking ${connections.length} PMS connections (current key version ${currentVersion})`);
+
+  let updated = 0;
+  let skipped = 0;
+
+  for (const connection of connections) {
+    const secrets = [connection.accessToken, connection.refreshToken, connection.webhookSecret];
+    if (!secrets.some(needsUpdate)) {
+      skipped++;
+      continue;
+    }
+
+    const versions = secrets
+      .filter((value): value is string => value !== null)
+      .map(value => getTokenKeyVersion(value) ?? 'plain text');
+    console.log(`  ${connection.displayName}: ${versions.join(', ')} -> v${currentVersion}`);
+
+    if (dryRun) {
+      updated++;
+      continue;
+    }
+
+    // Only write if a sync or secret rotation hasn't changed them since we read them
+    const result = await db
+      .update(pmsConnections)
+      .set({
+        accessToken: reencrypt(connection.accessToken),
+        refreshToken: reencrypt(connection.refreshToken),
+        webhookSecret: reencrypt(connection.webhookSecret),
+      })
+      .where(
+        and(
+          eq(pmsConnections.id, connection.id),
+          connection.accessToken === null
+            ? isNull(pmsConnections.accessToken)
+            : eq(pmsConnections.accessToken, connection.accessToken),
+          connection.refreshToken === null
+            ? isNull(pmsConnections.refreshToken)
+            : eq(pmsConnections.refreshToken, connection.refreshToken),
+          connection.webhookSecret === null
+            ? isNull(pmsConnections.webhookSecret)
+            : eq(pmsConnections.webhookSecret, connection.webhookSecret)
+        )
+      )
+      .returning({ id: pmsConnections.id });
+
+    if (result.length > 0) {
+      updated++;
+    } else {
+      console.log(`  ${connection.displayName}: tokens changed during migration, re-run to pick it up`);
+    }
+  }
+
+  console.log(`${dryRun ? 'Would update' : 'Updated'} ${updated}, already current ${skipped}`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Token encryption migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+/**
+ * Run the local Gentu API stub
+ * Run with: npx tsx scripts/gentu-stub-server.ts [port]
+ *
+ * Point the app at it with:
+ *   GENTU_MOCK_MODE=false
+ *   GENTU_API_BASE_URL=http://127.0.0.1:4010/v1
+ *   GENTU_CLIENT_ID=stub-client-id
+ *   GENTU_CLIENT_SECRET=stub-client-secret
+ */
+
+import { startGentuStubServer } from '../src/lib/pms/adapters/gentu/stub-server';
+
+async function main() {
+  const port = process.argv[2] ? Number(process.argv[2]) : undefined;
+  const stub = await startGentuStubServer({ port });
+
+  console.log(`\n🩺 Gentu stub listening on ${stub.baseUrl}\n`);
+  console.log(`  App ID:        ${stub.options.appId}`);
+  console.log(`  Client ID:     ${stub.options.clientId}`);
+  console.log(`  Client secret: ${stub.options.clientSecret}`);
+  console.log(`  Tenant ID:     ${stub.options.tenant.tenantId}`);
+  console.log(`  Pairing codes: ${stub.options.pairingCodes.join(', ')}\n`);
+
+  const shutdown = async () => {
+    await stub.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start Gentu stub:', error);
+  process.exit(1);
+});
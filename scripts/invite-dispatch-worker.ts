@@ -0,0 +1,70 @@
+/**
+ * Long-running worker that sends queued telehealth invites
+ * Run with: npx tsx scripts/invite-dispatch-worker.ts [--once]
+ *
+ * Polls every INVITE_DISPATCH_POLL_SECONDS (default 30) and sends invites
+ * whose scheduledFor has passed through SMS_PROVIDER (console or http).
+ * Safe to run alongside the /api/cron/telehealth-invites route - invites
+ * are claimed before sending.
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables from .env.local before the db module reads them
+config({ path: '.env.local' });
+
+async function main() {
+  const { InviteDispatcher } = await import('../src/lib/sms/invite-dispatcher');
+
+  const runOnce = process.argv.includes('--once');
+  const pollMs = Number(process.env.INVITE_DISPATCH_POLL_SECONDS || 30) * 1000;
+  const dispatcher = new InviteDispatcher();
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+
+  const stop = () => {
+    console.log('\nStopping after current run...');
+    stopping = true;
+    wake?.();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`📨 Invite dispatch worker started (${runOnce ? 'single run' : `polling every ${pollMs / 1000}s`})`);
+
+  while (!stopping) {
+    try {
+      const summary = await dispatcher.dispatchDueInvites();
+      const time = summary.completedAt.toISOString();
+
+      if (summary.outcomes.length === 0) {
+        console.log(`[${time}] No invites due`);
+      }
+      for (const outcome of summary.outcomes) {
+        const reason = outcome.reason ? ` - ${outcome.reason}` : '';
+        console.log(`[${time}] Invite ${outcome.inviteId}: ${outcome.status}${reason}`);
+      }
+    } catch (error) {
+      console.error('Invite dispatch run failed:', error);
+    }
+
+    if (runOnce || stopping) break;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, pollMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    wake = null;
+  }
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Invite dispatch worker crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * Long-running worker for scheduled PMS syncs
+ * Run with: npx tsx scripts/pms-sync-worker.ts [--once]
+ *
+ * Polls every PMS_SYNC_POLL_SECONDS (default 60) and syncs connections
+ * whose syncFrequencyMinutes has elapsed. Safe to run alongside the
+ * /api/cron/pms-sync route - connections are claimed before syncing.
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables from .env.local before the db module reads them
+config({ path: '.env.local' });
+
+async function main() {
+  const { SyncScheduler } = await import('../src/lib/pms/core/sync-scheduler');
+
+  const runOnce = process.argv.includes('--once');
+  const pollMs = Number(process.env.PMS_SYNC_POLL_SECONDS || 60) * 1000;
+  const scheduler = new SyncScheduler();
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+
+  const stop = () => {
+    console.log('\nStopping after current run...');
+    stopping = true;
+    wake?.();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`🔄 PMS sync worker started (${runOnce ? 'single run' : `polling every ${pollMs / 1000}s`})`);
+
+  while (!stopping) {
+    try {
+      const summary = await scheduler.runDueSyncs();
+      const time = summary.completedAt.toISOString();
+
+      if (summary.outcomes.length === 0) {
+        console.log(`[${time}] ${summary.connectionsChecked} connections checked, none due`);
+      }
+      for (const outcome of summary.outcomes) {
+        const counts = outcome.result
+          ? ` (${outcome.result.appointmentsFetched} fetched, ${outcome.result.appointmentsCreated} created, ${outcome.result.appointmentsUpdated} updated)`
+          : '';
+        const reason = outcome.reason ? ` - ${outcome.reason}` : '';
+        console.log(`[${time}] ${outcome.displayName} [${outcome.pmsType}]: ${outcome.status}${counts}${reason}`);
+      }
+    } catch (error) {
+      console.error('Scheduled sync run failed:', error);
+    }
+
+    if (runOnce || stopping) break;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, pollMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    wake = null;
+  }
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('PMS sync worker crashed:', error);
+  process.exit(1);
+});
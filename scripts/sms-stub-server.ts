@@ -0,0 +1,47 @@
+/**
+ * Run the local SMS gateway stub
+ * Run with: npx tsx scripts/sms-stub-server.ts [port]
+ *
+ * Point the dispatcher at it with:
+ *   SMS_PROVIDER=http
+ *   SMS_HTTP_BASE_URL=http://127.0.0.1:4020/v1
+ *   SMS_HTTP_API_KEY=stub-sms-api-key
+ *
+ * Delivery receipts go to SMS_STUB_RECEIPT_URL when it's set (e.g.
+ * http://localhost:3000/api/sms/http/delivery-receipts), signed with
+ * SMS_WEBHOOK_SECRET or the stub's default secret.
+ *
+ * To simulate a patient reply, set SMS_STUB_INBOUND_URL (e.g.
+ * http://localhost:3000/api/sms/http/inbound) and POST {"from", "body"}
+ * to /v1/inbound with the API key.
+ */
+
+import { startSmsStubServer } from '../src/lib/sms/stub-server';
+
+async function main() {
+  const port = process.argv[2] ? Number(process.argv[2]) : undefined;
+  const stub = await startSmsStubServer({
+    ...(port !== undefined && { port }),
+    ...(process.env.SMS_STUB_RECEIPT_URL && { receiptUrl: process.env.SMS_STUB_RECEIPT_URL }),
+    ...(process.env.SMS_STUB_INBOUND_URL && { inboundUrl: process.env.SMS_STUB_INBOUND_URL }),
+    ...(process.env.SMS_WEBHOOK_SECRET && { webhookSecret: process.env.SMS_WEBHOOK_SECRET }),
+  });
+
+  console.log(`\n📱 SMS stub listening on ${stub.baseUrl}\n`);
+  console.log(`  API key: ${stub.options.apiKey}`);
+  console.log(`  Accepted messages: GET ${stub.baseUrl}/messages`);
+  console.log(`  Delivery receipts: ${stub.options.receiptUrl ?? 'off'}`);
+  console.log(`  Patient replies: ${stub.options.inboundUrl ? `POST ${stub.baseUrl}/inbound` : 'off'}\n`);
+
+  const shutdown = async () => {
+    await stub.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start SMS stub:', error);
+  process.exit(1);
+});
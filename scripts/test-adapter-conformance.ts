@@ -0,0 +1,110 @@
+/**
+ * Runs every PMS adapter through the conformance checks
+ * Run with: npx tsx scripts/test-adapter-conformance.ts
+ *
+ * Gentu runs against the local stub server and its mock data; Medirecords
+ * and Halaxy against their mock data, with HTTP-mode instances for error
+ * mapping. To cover a new adapter, add a target here.
+ */
+
+import { startGentuStubServer } from '../src/lib/pms/adapters/gentu/stub-server';
+import { GentuAdapter } from '../src/lib/pms/adapters/gentu';
+import { MedirecordsAdapter } from '../src/lib/pms/adapters/medirecords';
+import { HalaxyAdapter } from '../src/lib/pms/adapters/halaxy';
+import type { PMSConnection, PMSType } from '../src/lib/pms/types';
+import { runAdapterConformance } from './adapter-conformance';
+
+function testConnection(pmsType: PMSType, overrides: Partial<PMSConnection> = {}): PMSConnection {
+  return {
+    id: `conformance-${pmsType}`,
+    pmsType,
+    displayName: `${pmsType} conformance`,
+    syncEnabled: true,
+    syncFrequencyMinutes: 15,
+    syncTelehealthOnly: false,
+    journalRequests: false,
+    timezone: 'Australia/Melbourne',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Stored token the HTTP-mode adapters use instead of authenticating
+const liveToken: Partial<PMSConnection> = {
+  accessToken: 'conformance-token',
+  tokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+};
+
+async function main() {
+  // Three days covers several pages of every adapter's fixtures
+  const dateFrom = new Date();
+  dateFrom.setUTCHours(0, 0, 0, 0);
+  const dateTo = new Date(dateFrom.getTime() + 3 * 24 * 60 * 60 * 1000 - 1);
+
+  const stub = await startGentuStubServer({ port: 0 });
+
+  try {
+    const gentu = new GentuAdapter({
+      baseUrl: stub.baseUrl,
+      clientId: stub.options.clientId,
+      clientSecret: stub.options.clientSecret,
+      useMockData: false,
+    });
+    const gentuConnection = testConnection('gentu', { tenantId: stub.options.tenant.tenantId });
+
+    await runAdapterConformance({
+      name: `Gentu (stub at ${stub.baseUrl})`,
+      adapter: gentu,
+      connection: gentuConnection,
+      dateFrom,
+      dateTo,
+      unhealthyConnection: { ...gentuConnection, tenantId: 'unknown-tenant' },
+      http: { adapter: gentu, connection: gentuConnection },
+    });
+
+    await runAdapterConformance({
+      name: 'Gentu (mock data)',
+      adapter: new GentuAdapter({ useMockData: true }),
+      connection: testConnection('gentu', { tenantId: stub.options.tenant.tenantId }),
+      dateFrom,
+      dateTo,
+    });
+  } finally {
+    await stub.close();
+  }
+
+  const medirecordsHttp = new MedirecordsAdapter();
+  medirecordsHttp.setMockMode(false);
+  const medirecordsConnection = testConnection('medirecords', { practiceId: 'conformance-practice' });
+
+  await runAdapterConformance({
+    name: 'Medirecords (mock data)',
+    adapter: new MedirecordsAdapter(),
+    connection: medirecordsConnection,
+    dateFrom,
+    dateTo,
+    http: { adapter: medirecordsHttp, connection: { ...medirecordsConnection, ...liveToken } },
+  });
+
+  const halaxyHttp = new HalaxyAdapter();
+  halaxyHttp.setMockMode(false);
+  const halaxyConnection = testConnection('halaxy', { organizationId: 'ORG-1001' });
+
+  await runAdapterConformance({
+    name: 'Halaxy (mock data)',
+    adapter: new HalaxyAdapter(),
+    connection: halaxyConnection,
+    dateFrom,
+    dateTo,
+    unhealthyConnection: { ...halaxyConnection, organizationId: undefined },
+    http: { adapter: halaxyHttp, connection: { ...halaxyConnection, ...liveToken } },
+  });
+
+  console.log('✅ All adapters conform to the PMSAdapter contract\n');
+}
+
+main().catch(error => {
+  console.error('\n❌ Adapter conformance check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * Check of the data mapper's change detection for synced appointments
+ * Run with: npx tsx scripts/test-data-mapper.ts
+ *
+ * Maps an appointment to its run sheet row, then checks which later
+ * PMS changes count as an update worth persisting.
+ */
+
+import assert from 'node:assert/strict';
+import { DataMapper } from '../src/lib/pms/core/data-mapper';
+import type { UnifiedAppointment } from '../src/lib/pms/types';
+
+const TIMEZONE = 'Australia/Melbourne';
+
+function main() {
+  const mapper = new DataMapper();
+
+  const appointment: UnifiedAppointment = {
+    pmsType: 'gentu',
+    pmsAppointmentId: 'appt-1',
+    pmsConnectionId: 'connection-1',
+    startTime: new Date('2026-03-02T22:30:00Z'),
+    endTime: new Date('2026-03-02T22:45:00Z'),
+    durationMinutes: 15,
+    timezone: TIMEZONE,
+    isTelehealth: true,
+    appointmentTypeName: 'Telehealth Consult',
+    status: 'booked',
+    patient: {
+      pmsPatientId: 'pat-1',
+      fullName: 'Jane Citizen',
+      firstName: 'Jane',
+      lastName: 'Citizen',
+      phone: '0412 345 678',
+    },
+    practitioner: { pmsPractitionerId: 'prac-1', fullName: 'Dr Sam Lee' },
+    fetchedAt: new Date(),
+    rawData: {},
+  };
+
+  const existing = mapper.mapToRunSheetAppointment(appointment, 'sheet-1', null, TIMEZONE);
+  assert.equal(existing.appointmentTime, '09:30');
+  assert.equal(existing.patientPhone, '+61412345678');
+  assert.equal(mapper.appointmentHasChanged(existing, appointment, TIMEZONE), false);
+  assert.deepEqual(mapper.getAppointmentChanges(existing, appointment, TIMEZONE), {});
+  console.log('\n✓ Unchanged appointment is not an update');
+
+  // Patient enrichment filling in an email on an existing appointment
+  const enriched = { ...appointment, patient: { ...appointment.patient, email: 'jane@example.com' } };
+  assert.equal(mapper.appointmentHasChanged(existing, enriched, TIMEZONE), true);
+  assert.deepEqual(mapper.getAppointmentChanges(existing, enriched, TIMEZONE), {
+    patientEmail: { old: null, new: 'jane@example.com' },
+  });
+  console.log('✓ A newly filled-in patient email is an update');
+
+  const moved = { ...appointment, startTime: new Date('2026-03-02T23:00:00Z'), status: 'confirmed' as const };
+  assert.equal(mapper.appointmentHasChanged(existing, moved, TIMEZONE), true);
+  assert.deepEqual(Object.keys(mapper.getAppointmentChanges(existing, moved, TIMEZONE)).sort(), [
+    'appointmentStatus',
+    'appointmentTime',
+  ]);
+  console.log('✓ Time and status changes are updates');
+
+  console.log('\n✅ Data mapper check passed\n');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('\n❌ Data mapper check failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,169 @@
+/**
+ * Integration check for the Gentu adapter's HTTP path
+ * Run with: npx tsx scripts/test-gentu-adapter.ts
+ *
+ * Starts the local Gentu stub on a free port and runs the adapter
+ * (with mock mode off) through pairing, reference data and paginated
+ * appointment fetches, plus webhook event mapping and status write-back.
+ * Also checks mock-mode write-backs persist across adapter instances.
+ */
+
+import assert from 'node:assert/strict';
+import { startGentuStubServer } from '../src/lib/pms/adapters/gentu/stub-server';
+import { GentuAdapter } from '../src/lib/pms/adapters/gentu';
+import { getAdapter } from '../src/lib/pms/adapters';
+import type { GentuAppointment } from '../src/lib/pms/adapters/gentu/types';
+import type { PMSConnection, UnifiedAppointment } from '../src/lib/pms/types';
+
+async function main() {
+  const stub = await startGentuStubServer({ port: 0 });
+  console.log(`\n🧪 Gentu stub running at ${stub.baseUrl}\n`);
+
+  try {
+    const adapter = new GentuAdapter({
+      baseUrl: stub.baseUrl,
+      clientId: stub.options.clientId,
+      clientSecret: stub.options.clientSecret,
+      useMockData: false,
+    });
+
+    const connection: PMSConnection = {
+      id: 'stub-connection',
+      pmsType: 'gentu',
+      displayName: 'Gentu stub',
+      syncEnabled: true,
+      syncFrequencyMinutes: 15,
+      syncTelehealthOnly: false,
+      journalRequests: false,
+      timezone: 'Australia/Melbourne',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const auth = await adapter.authenticate(connection);
+    assert.equal(auth.success, true, auth.error);
+    console.log('✓ Authenticated with client credentials');
+
+    const { tenantId } = await adapter.consumePairingCode(stub.options.appId, stub.options.pairingCodes[0]);
+    assert.equal(tenantId, stub.options.tenant.tenantId);
+    await assert.rejects(
+      adapter.consumePairingCode(stub.options.appId, stub.options.pairingCodes[0]),
+      /Request failed: 404/
+    );
+    connection.tenantId = tenantId;
+    console.log(`✓ Paired tenant ${tenantId} (code is single-use)`);
+
+    const tenant = await adapter.fetchTenantDetails(tenantId);
+    assert.equal(tenant.tenantName, stub.options.tenant.tenantName);
+    console.log(`✓ Tenant details: ${tenant.tenantName} (${tenant.timezone})`);
+
+    const practitioners = await adapter.fetchPractitioners(connection);
+    assert.equal(practitioners.length, stub.options.practitioners.length);
+    console.log(`✓ ${practitioners.length} practitioners`);
+
+    const types = await adapter.fetchAppointmentTypes(connection);
+    assert.equal(types.length, stub.options.appointmentTypes.length);
+    console.log(`✓ ${types.length} appointment types (${types.filter(t => t.isTelehealthAutoDetected).length} telehealth)`);
+
+    // Three days at the minimum page size forces cursor pagination
+    const dateFrom = new Date();
+    dateFrom.setUTCHours(0, 0, 0, 0);
+    const dateTo = new Date(dateFrom.getTime() + 3 * 24 * 60 * 60 * 1000 - 1);
+
+    const batches: UnifiedAppointment[][] = [];
+    for await (const batch of adapter.fetchAppointments(connection, { dateFrom, dateTo, limit: 5 })) {
+      batches.push(batch);
+    }
+    const appointments = batches.flat();
+
+    assert.ok(batches.length > practitioners.length, 'expected more than one page per practitioner');
+    assert.ok(batches.every(batch => batch.length <= 5));
+    assert.equal(new Set(appointments.map(a => a.pmsAppointmentId)).size, appointments.length);
+    assert.ok(appointments.every(a => a.startTime >= dateFrom && a.startTime <= dateTo));
+    assert.ok(appointments.every(a => a.patient.fullName !== 'Unknown Patient'));
+    console.log(`✓ ${appointments.length} appointments across ${batches.length} pages`);
+
+    const telehealth: UnifiedAppointment[] = [];
+    for await (const batch of adapter.fetchAppointments(connection, { dateFrom, dateTo, telehealthOnly: true })) {
+      telehealth.push(...batch);
+    }
+    assert.ok(telehealth.length > 0 && telehealth.every(a => a.isTelehealth));
+    console.log(`✓ ${telehealth.length} telehealth appointments`);
+
+    const patientId = stub.options.patients[0].id;
+    const patient = await adapter.fetchPatient(connection, patientId);
+    assert.equal(patient?.pmsPatientId, patientId);
+    assert.match(patient?.phone ?? '', /^\+614\d{8}$/);
+    assert.equal(await adapter.fetchPatient(connection, 'does-not-exist'), null);
+    console.log(`✓ Patient lookup returns demographics (${patient?.phone}); missing patient returns null`);
+
+    // Webhook events map through the same lookups as a fetch
+    const rawAppointment = appointments[0].rawData as unknown as GentuAppointment;
+    const event = adapter.parseWebhookEvent({
+      id: 'evt-1',
+      type: 'appointment.updated',
+      tenantId,
+      occurredAt: new Date().toISOString(),
+      data: { appointmentId: rawAppointment.id, appointment: rawAppointment },
+    });
+    assert.ok(event && !event.deleted);
+    const pushed = await adapter.mapWebhookAppointment(connection, event, {});
+    assert.equal(pushed?.pmsAppointmentId, appointments[0].pmsAppointmentId);
+    assert.equal(pushed?.patient.fullName, appointments[0].patient.fullName);
+    assert.equal(adapter.parseWebhookEvent({ id: 'evt-2', type: 'patient.updated', tenantId, data: {} }), null);
+    const deleted = adapter.parseWebhookEvent({
+      id: 'evt-3',
+      type: 'appointment.deleted',
+      tenantId,
+      data: { appointmentId: rawAppointment.id },
+    });
+    assert.equal(await adapter.mapWebhookAppointment(connection, deleted!, {}), null);
+    console.log('✓ Webhook events parse and map to unified appointments');
+
+    // Status write-back shows up on the next fetch
+    const target = appointments.find(a => a.status !== 'arrived')!;
+    await adapter.updateAppointmentStatus(connection, target.pmsAppointmentId, 'arrived');
+    const refetched: UnifiedAppointment[] = [];
+    for await (const batch of adapter.fetchAppointments(connection, { dateFrom, dateTo })) {
+      refetched.push(...batch);
+    }
+    assert.equal(refetched.find(a => a.pmsAppointmentId === target.pmsAppointmentId)?.status, 'arrived');
+    await assert.rejects(
+      adapter.updateAppointmentStatus(connection, 'does-not-exist', 'completed'),
+      /Request failed: 404/
+    );
+    console.log(`✓ Status write-back updated ${target.pmsAppointmentId}`);
+
+    const health = await adapter.healthCheck(connection);
+    assert.equal(health.healthy, true, health.message);
+    console.log(`✓ Health check OK (${health.latencyMs}ms)`);
+
+    const unhealthy = await adapter.healthCheck({ ...connection, tenantId: 'unknown-tenant' });
+    assert.equal(unhealthy.healthy, false);
+    console.log('✓ Unknown tenant reports unhealthy');
+
+    // Mock mode: each getAdapter() call is a new instance, so write-backs must outlive it
+    const mockConnection = { ...connection, tenantId: undefined };
+    const mockFetch = async () => {
+      const fetched: UnifiedAppointment[] = [];
+      for await (const batch of getAdapter('gentu').fetchAppointments(mockConnection, { dateFrom, dateTo })) {
+        fetched.push(...batch);
+      }
+      return fetched;
+    };
+    const mockTarget = (await mockFetch()).find(a => a.status !== 'arrived')!;
+    await getAdapter('gentu').updateAppointmentStatus!(mockConnection, mockTarget.pmsAppointmentId, 'arrived');
+    const mockRefetched = await mockFetch();
+    assert.equal(mockRefetched.find(a => a.pmsAppointmentId === mockTarget.pmsAppointmentId)?.status, 'arrived');
+    console.log(`✓ Mock write-back to ${mockTarget.pmsAppointmentId} survives a new adapter instance`);
+
+    console.log('\n✅ Gentu adapter integration check passed\n');
+  } finally {
+    await stub.close();
+  }
+}
+
+main().catch(error => {
+  console.error('\n❌ Gentu adapter integration check failed:', error);
+  process.exit(1);
+});
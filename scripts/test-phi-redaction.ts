@@ -0,0 +1,77 @@
+/**
+ * Integration check for PHI redaction of journaled PMS payloads
+ * Run with: npx tsx scripts/test-phi-redaction.ts
+ */
+
+import assert from 'node:assert/strict';
+import { REDACTED, redactPHI, redactText, redactUrl } from '../src/lib/pms/core/phi-redaction';
+
+function main() {
+  const probe = {
+    id: 'appt-123',
+    startTime: '2026-03-02T09:30:00+11:00',
+    status: 'booked',
+    notes: 'Jane Citizen prefers phone, DOB 02/01/1980, Medicare 2123 45670 1',
+    comment: 'Call back re results',
+    appointmentType: { id: 'type-1', name: 'Telehealth Consult', description: 'Video consult for Jane' },
+    patient: {
+      id: 'pat-9',
+      name: { given: ['Jane'], family: 'Citizen' },
+      birthDate: '1980-01-02',
+      telecom: [{ system: 'phone', value: '0412 345 678' }],
+      identifier: [
+        { type: 'medicare', system: 'http://ns.electronichealth.net.au/id/medicare-number', value: '2123456701' },
+        { type: 'dva', system: 'http://ns.electronichealth.net.au/id/dva', value: 'NX123456' },
+      ],
+      medicareNumber: '2123456701',
+      dvaNumber: 'NX123456',
+      ihi: '8003608166690503',
+    },
+  };
+
+  const redacted = redactPHI(probe) as typeof probe;
+  const serialised = JSON.stringify(redacted);
+
+  for (const leaked of ['Jane', 'Citizen', '1980', '2123', '0412', 'NX123456', '8003608166690503']) {
+    assert.ok(!serialised.includes(leaked), `"${leaked}" leaked into ${serialised}`);
+  }
+  assert.equal(redacted.notes, REDACTED);
+  assert.equal(redacted.comment, REDACTED);
+  assert.equal(redacted.appointmentType.description, REDACTED);
+
+  // Matching fields survive
+  assert.equal(redacted.id, 'appt-123');
+  assert.equal(redacted.startTime, '2026-03-02T09:30:00+11:00');
+  assert.equal(redacted.status, 'booked');
+  assert.equal(redacted.appointmentType.name, 'Telehealth Consult');
+  assert.equal(redacted.patient.id, 'pat-9');
+  assert.deepEqual(redacted.patient.identifier.map(i => [i.type, i.value]), [['medicare', REDACTED], ['dva', REDACTED]]);
+  assert.equal(redacted.patient.identifier[0].system, probe.patient.identifier[0].system);
+  assert.equal(redacted.patient.medicareNumber, REDACTED);
+  assert.equal(redacted.patient.dvaNumber, REDACTED);
+  assert.equal(redacted.patient.ihi, REDACTED);
+  console.log('\n✓ Free-text fields, identifiers and patient details are redacted, IDs and times kept');
+
+  assert.equal(redactText('seen 2/1/1980 and 02-01-1980'), `seen ${REDACTED} and ${REDACTED}`);
+  assert.equal(redactText('Medicare 2123 45670 1'), `Medicare ${REDACTED}`);
+  assert.equal(redactText('Medicare no: 21234567011'), `Medicare no: ${REDACTED}`);
+  assert.equal(redactText('IHI 8003 6012 3456 7890'), `IHI ${REDACTED}`);
+  assert.equal(redactText('8003601234567890'), REDACTED);
+  assert.equal(redactText('Request failed: 503 at 2026-03-02T09:30:00Z'), 'Request failed: 503 at 2026-03-02T09:30:00Z');
+  console.log('✓ DOBs, Medicare and IHI numbers are masked in free text');
+
+  assert.equal(
+    redactUrl('/appointments?from=2026-03-02&notes=DOB%2002%2F01%2F1980'),
+    `/appointments?from=2026-03-02&notes=${encodeURIComponent(REDACTED)}`
+  );
+  console.log('✓ Query parameters are redacted');
+
+  console.log('\n✅ PHI redaction check passed\n');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('\n❌ PHI redaction check failed:', error);
+  process.exit(1);
+}
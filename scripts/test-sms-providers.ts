@@ -0,0 +1,236 @@
+/**
+ * Integration check for the SMS providers and invite rendering
+ * Run with: npx tsx scripts/test-sms-providers.ts
+ *
+ * Sends through the HTTP provider against the local SMS stub and through
+ * the console provider into a temporary outbox file, and has the stub post
+ * signed delivery receipts and patient replies to a local endpoint.
+ */
+
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { startSmsStubServer } from '../src/lib/sms/stub-server';
+import { ConsoleSmsProvider, HttpSmsProvider } from '../src/lib/sms/providers';
+import {
+  INVITE_MESSAGE_TEMPLATE,
+  findUnknownPlaceholders,
+  renderInviteMessage,
+} from '../src/lib/sms/invite-message';
+import { getSmsSegmentInfo } from '../src/lib/sms/segments';
+import { getInviteRetryPolicy, getNextAttemptAt } from '../src/lib/sms/retry-policy';
+import { parseReplyKeyword } from '../src/lib/sms/reply-keywords';
+import type { SmsDeliveryReceipt, SmsInboundMessage } from '../src/lib/sms/types';
+import { RetryableError } from '../src/lib/pms/core/retry-handler';
+
+async function main() {
+  const body = renderInviteMessage(INVITE_MESSAGE_TEMPLATE, {
+    patientName: 'Jane Citizen',
+    clinicianName: 'Dr Smith',
+    appointmentTime: '14:30',
+    link: 'https://example.coviu.com/room',
+  });
+  assert.equal(
+    body,
+    'Hi Jane Citizen, for your appointment with Dr Smith at 2:30pm, please click on this link: https://example.coviu.com/room'
+  );
+  assert.match(
+    renderInviteMessage(INVITE_MESSAGE_TEMPLATE, { patientName: null, clinicianName: null, appointmentTime: '09:05', link: 'x' }),
+    /^Hi there, for your appointment with your clinician at 9:05am/
+  );
+  console.log('\n✓ Invite template renders');
+
+  assert.deepEqual(findUnknownPlaceholders(INVITE_MESSAGE_TEMPLATE), []);
+  assert.deepEqual(findUnknownPlaceholders('Hi [patient name] on [date] at [Time] [date]: [link]'), ['[date]', '[Time]']);
+  console.log('✓ Unknown placeholders are found');
+
+  assert.deepEqual(getSmsSegmentInfo('a'.repeat(160)), { encoding: 'GSM-7', length: 160, segments: 1, nonGsmCharacters: [] });
+  assert.equal(getSmsSegmentInfo('a'.repeat(161)).segments, 2);
+  assert.equal(getSmsSegmentInfo('a'.repeat(306)).segments, 2);
+  assert.equal(getSmsSegmentInfo('a'.repeat(307)).segments, 3);
+  assert.equal(getSmsSegmentInfo('{}'.repeat(80)).length, 320);
+  const curly = getSmsSegmentInfo(`Dr O’Brien${' '.repeat(60)}`);
+  assert.equal(curly.encoding, 'UCS-2');
+  assert.deepEqual(curly.nonGsmCharacters, ['’']);
+  assert.equal(curly.segments, 1);
+  assert.equal(getSmsSegmentInfo('’'.repeat(71)).segments, 2);
+  assert.equal(getSmsSegmentInfo(body).segments, 1);
+  console.log('✓ SMS segments counted for GSM-7 and UCS-2');
+
+  const keywords: [string, ReturnType<typeof parseReplyKeyword>][] = [
+    ['YES', 'yes'],
+    ['yes see you then!', 'yes'],
+    ['Ok', 'yes'],
+    ['CANCEL', 'cancel'],
+    ['please cancel, sick today', 'cancel'],
+    ['Running late, 10 min', 'late'],
+    ["I'll be LATE sorry", 'late'],
+    ['can we do phone instead?', null],
+    ['Yesterday was fine', null],
+    ['', null],
+  ];
+  for (const [reply, expected] of keywords) {
+    assert.equal(parseReplyKeyword(reply), expected, reply);
+  }
+  console.log('✓ Reply keywords parsed');
+
+  const policy = getInviteRetryPolicy({ INVITE_RETRY_MAX_ATTEMPTS: '3', INVITE_RETRY_BASE_DELAY_SECONDS: '60', INVITE_RETRY_MAX_DELAY_SECONDS: 'soon' });
+  assert.deepEqual(policy, { maxAttempts: 3, baseDelaySeconds: 60, maxDelaySeconds: 1800 });
+  const now = new Date('2026-03-02T09:00:00Z');
+  const delaySeconds = (attempt: number, error: unknown) => {
+    const next = getNextAttemptAt(policy, attempt, error, now);
+    return next && (next.getTime() - now.getTime()) / 1000;
+  };
+  const first = delaySeconds(1, new RetryableError('503'))!;
+  const second = delaySeconds(2, new RetryableError('503'))!;
+  assert.ok(first >= 45 && first <= 75, `first retry after ${first}s`);
+  assert.ok(second >= 90 && second <= 150, `second retry after ${second}s`);
+  assert.equal(delaySeconds(3, new RetryableError('503')), null);
+  assert.equal(delaySeconds(1, new Error('rejected message: 400')), null);
+  assert.ok(delaySeconds(1, new RetryableError('429', 429, 600))! >= 600);
+  console.log('✓ Retry policy backs off transient failures and gives up on permanent ones');
+
+  const stub = await startSmsStubServer({ port: 0, rejectedNumbers: ['+61400000000'] });
+
+  try {
+    const provider = new HttpSmsProvider({ baseUrl: stub.baseUrl, apiKey: stub.options.apiKey, senderId: 'Clinic' });
+
+    const { providerMessageId } = await provider.send({ to: '+61412345678', body, reference: 'invite-1' });
+    assert.equal(stub.messages.length, 1);
+    assert.equal(stub.messages[0].id, providerMessageId);
+    assert.equal(stub.messages[0].reference, 'invite-1');
+    assert.equal(stub.messages[0].from, 'Clinic');
+    console.log(`✓ HTTP provider accepted message ${providerMessageId}`);
+
+    await assert.rejects(provider.send({ to: '+61400000000', body }), /rejected message: 400/);
+    await assert.rejects(
+      new HttpSmsProvider({ baseUrl: stub.baseUrl, apiKey: 'wrong' }).send({ to: '+61412345678', body }),
+      /rejected message: 401/
+    );
+    console.log('✓ Rejected destinations and bad API keys fail the send');
+
+    const rejected = await provider.send({ to: '+61400000000', body }).catch(error => error);
+    assert.ok(!(rejected instanceof RetryableError));
+  } finally {
+    await stub.close();
+  }
+
+  // Transient failures surface as RetryableError
+  const flaky = await startSmsStubServer({ port: 0, unavailableSends: 1 });
+  try {
+    const provider = new HttpSmsProvider({ baseUrl: flaky.baseUrl, apiKey: flaky.options.apiKey });
+    const unavailable = await provider.send({ to: '+61412345678', body }).catch(error => error);
+    assert.ok(unavailable instanceof RetryableError);
+    assert.equal(unavailable.statusCode, 503);
+    await provider.send({ to: '+61412345678', body });
+    assert.equal(flaky.messages.length, 1);
+  } finally {
+    await flaky.close();
+  }
+  const unreachable = await new HttpSmsProvider({ baseUrl: flaky.baseUrl, apiKey: 'key' })
+    .send({ to: '+61412345678', body })
+    .catch(error => error);
+  assert.ok(unreachable instanceof RetryableError, String(unreachable));
+  console.log('✓ Gateway 503s and outages are retryable');
+
+  // Receipt endpoint standing in for /api/sms/http/delivery-receipts
+  const receiver = new HttpSmsProvider({ webhookSecret: 'receipt-secret' });
+  const received: (SmsDeliveryReceipt | null)[] = [];
+  const replies: (SmsInboundMessage | null)[] = [];
+  const receiptServer = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const headers = new Headers(req.headers as Record<string, string>);
+      if (!receiver.verifyWebhook(raw, headers)) {
+        res.writeHead(401).end();
+        return;
+      }
+      if (req.url === '/inbound') {
+        replies.push(receiver.parseInboundMessage(JSON.parse(raw)));
+      } else {
+        received.push(receiver.parseDeliveryReceipt(JSON.parse(raw)));
+      }
+      res.writeHead(200).end();
+    });
+  });
+  await new Promise<void>(resolve => receiptServer.listen(0, '127.0.0.1', resolve));
+  const receiverUrl = `http://127.0.0.1:${(receiptServer.address() as AddressInfo).port}`;
+  const receiptUrl = `${receiverUrl}/receipts`;
+
+  try {
+    const signed = await startSmsStubServer({
+      port: 0,
+      receiptUrl,
+      webhookSecret: 'receipt-secret',
+      receiptDelayMs: 10,
+      undeliverableNumbers: ['+61499999999'],
+    });
+    const provider = new HttpSmsProvider({ baseUrl: signed.baseUrl, apiKey: signed.options.apiKey });
+    const delivered = await provider.send({ to: '+61412345678', body });
+    const undeliverable = await provider.send({ to: '+61499999999', body });
+    await signed.close();
+
+    const byId = new Map(received.map(receipt => [receipt?.providerMessageId, receipt]));
+    assert.equal(byId.get(delivered.providerMessageId)?.status, 'delivered');
+    assert.equal(byId.get(undeliverable.providerMessageId)?.status, 'undeliverable');
+    assert.equal(byId.get(undeliverable.providerMessageId)?.reason, 'Handset unreachable');
+
+    // Wrong secret is refused
+    const forged = await startSmsStubServer({ port: 0, receiptUrl, webhookSecret: 'wrong', receiptDelayMs: 10 });
+    await new HttpSmsProvider({ baseUrl: forged.baseUrl, apiKey: forged.options.apiKey }).send({ to: '+61412345678', body });
+    await forged.close();
+    assert.equal(forged.receipts[0].responseStatus, 401);
+    assert.equal(received.length, 2);
+
+    // Replies forwarded through the stub's /v1/inbound
+    const inbound = await startSmsStubServer({ port: 0, inboundUrl: `${receiverUrl}/inbound`, webhookSecret: 'receipt-secret' });
+    const response = await fetch(`${inbound.baseUrl}/inbound`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${inbound.options.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from: '+61412345678', body: 'Running late' }),
+    });
+    const forwarded = await response.json();
+    await inbound.close();
+    assert.equal(response.status, 202);
+    assert.equal(forwarded.responseStatus, 200);
+    assert.equal(replies.length, 1);
+    assert.equal(replies[0]?.providerMessageId, forwarded.id);
+    assert.equal(replies[0]?.from, '+61412345678');
+    assert.equal(replies[0]?.body, 'Running late');
+  } finally {
+    await new Promise(resolve => receiptServer.close(resolve));
+  }
+
+  assert.equal(receiver.parseDeliveryReceipt({ id: 'm1', status: 'enroute' }), null);
+  assert.equal(receiver.parseDeliveryReceipt({ id: 'm1', status: 'expired' })?.status, 'undeliverable');
+  assert.equal(receiver.verifyWebhook('{}', new Headers()), false);
+  assert.equal(receiver.parseInboundMessage({ id: 'm1' }), null);
+  console.log('✓ Stub posts signed delivery receipts and replies the provider verifies and parses');
+
+  const dir = await mkdtemp(join(tmpdir(), 'sms-outbox-'));
+  try {
+    const outbox = join(dir, 'outbox.jsonl');
+    const provider = new ConsoleSmsProvider(outbox);
+    const { providerMessageId } = await provider.send({ to: '+61412345678', body, reference: 'invite-2' });
+
+    const [line] = (await readFile(outbox, 'utf8')).trim().split('\n');
+    assert.deepEqual(
+      { ...JSON.parse(line), sentAt: undefined },
+      { id: providerMessageId, to: '+61412345678', body, reference: 'invite-2', sentAt: undefined }
+    );
+    console.log('✓ Console provider wrote to the outbox file');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  console.log('\n✅ SMS provider check passed\n');
+}
+
+main().catch(error => {
+  console.error('\n❌ SMS provider check failed:', error);
+  process.exit(1);
+});
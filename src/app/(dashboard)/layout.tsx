@@ -41,12 +41,24 @@ export default function DashboardLayout({
                 >
                   Telehealth Invites
                 </Link>
+                <Link
+                  href="/message-templates"
+                  className={isActive('/message-templates') ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                >
+                  Messages
+                </Link>
                 <Link
                   href="/run-sheet"
                   className={isActive('/run-sheet') ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
                 >
                   Run Sheet
                 </Link>
+                <Link
+                  href="/pms-connections"
+                  className={isActive('/pms-connections') ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}
+                >
+                  PMS
+                </Link>
               </nav>
             </div>
             <div className="text-sm text-gray-500">
@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  TemplateEditor,
+  type MessageTemplateSummary,
+  type PreviewAppointment,
+} from '@/components/message-templates';
+import { INVITE_MESSAGE_TEMPLATE } from '@/lib/sms/invite-message';
+
+interface Clinician {
+  id: string;
+  name: string;
+}
+
+export default function MessageTemplatesPage() {
+  const [templates, setTemplates] = useState<MessageTemplateSummary[]>([]);
+  const [clinicians, setClinicians] = useState<Clinician[]>([]);
+  const [appointments, setAppointments] = useState<PreviewAppointment[]>([]);
+  const [newOverrideIds, setNewOverrideIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTemplates();
+    fetchClinicians();
+    fetchAppointments();
+  }, []);
+
+  async function fetchTemplates() {
+    try {
+      const response = await fetch('/api/message-templates');
+      const data = await response.json();
+      setTemplates(data.data || []);
+    } catch (error) {
+      console.error('Error fetching message templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchClinicians() {
+    try {
+      const response = await fetch('/api/run-sheet/clinicians?all=true');
+      const data = await response.json();
+      setClinicians(data.clinicians || []);
+    } catch (error) {
+      console.error('Error fetching clinicians:', error);
+    }
+  }
+
+  async function fetchAppointments() {
+    try {
+      const response = await fetch('/api/run-sheet/appointments');
+      const data = await response.json();
+      setAppointments(data.appointments || []);
+    } catch (error) {
+      console.error('Error fetching appointments:', error);
+    }
+  }
+
+  async function handleOverrideSaved(clinicianId: string) {
+    await fetchTemplates();
+    setNewOverrideIds((prev) => prev.filter((id) => id !== clinicianId));
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading templates...</div>
+      </div>
+    );
+  }
+
+  const clinicDefault = templates.find((t) => t.clinicianId === null);
+  const overrides = templates.filter((t) => t.clinicianId !== null);
+  const availableClinicians = clinicians.filter(
+    (c) => !overrides.some((t) => t.clinicianId === c.id) && !newOverrideIds.includes(c.id)
+  );
+  const fallbackBody = clinicDefault?.body ?? INVITE_MESSAGE_TEMPLATE;
+
+  // Previews for an override use that clinician's appointments when there are any
+  const appointmentsFor = (clinicianName: string | null) => {
+    const own = appointments.filter((a) => a.clinicianName === clinicianName);
+    return own.length > 0 ? own : appointments;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Message Templates</h1>
+        <p className="text-muted-foreground">
+          The SMS patients receive with their telehealth link. Clinicians without their own
+          template use the clinic default.
+        </p>
+      </div>
+
+      <TemplateEditor
+        key={clinicDefault?.id ?? 'default'}
+        title="Clinic default"
+        description={clinicDefault ? 'Used for every clinician without an override' : 'Not customised yet - showing the built-in message'}
+        clinicianId={null}
+        template={clinicDefault}
+        appointments={appointments}
+        onSaved={fetchTemplates}
+      />
+
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Clinician overrides</h2>
+        {availableClinicians.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(id) => setNewOverrideIds((prev) => [...prev, id])}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Add override for..." />
+            </SelectTrigger>
+            <SelectContent>
+              {availableClinicians.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {overrides.length === 0 && newOverrideIds.length === 0 && (
+        <p className="text-sm text-muted-foreground">No clinician overrides</p>
+      )}
+
+      {overrides.map((template) => (
+        <TemplateEditor
+          key={template.id}
+          title={template.clinicianName ?? 'Unknown clinician'}
+          description="Sent instead of the clinic default for this clinician's invites"
+          clinicianId={template.clinicianId}
+          template={template}
+          appointments={appointmentsFor(template.clinicianName)}
+          onSaved={fetchTemplates}
+          onDeleted={fetchTemplates}
+        />
+      ))}
+
+      {newOverrideIds.map((clinicianId) => {
+        const clinicianName = clinicians.find((c) => c.id === clinicianId)?.name ?? null;
+        return (
+          <TemplateEditor
+            key={clinicianId}
+            title={clinicianName ?? 'Unknown clinician'}
+            description="New override - not saved yet"
+            clinicianId={clinicianId}
+            initialBody={fallbackBody}
+            appointments={appointmentsFor(clinicianName)}
+            onSaved={() => handleOverrideSaved(clinicianId)}
+            onDeleted={() => setNewOverrideIds((prev) => prev.filter((id) => id !== clinicianId))}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { use, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AppointmentTypeTable,
+  type AppointmentTypeEntry,
+  type PmsConnectionSummary,
+} from '@/components/pms';
+import { ArrowLeft, CheckCheck, RefreshCw } from 'lucide-react';
+
+export default function AppointmentTypesPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [connection, setConnection] = useState<PmsConnectionSummary | null>(null);
+  const [types, setTypes] = useState<AppointmentTypeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [connectionResponse, typesResponse] = await Promise.all([
+        fetch(`/api/pms/connections/${id}`),
+        fetch(`/api/pms/connections/${id}/appointment-types`),
+      ]);
+      const connectionData = await connectionResponse.json();
+      const typesData = await typesResponse.json();
+
+      if (!connectionResponse.ok || !typesResponse.ok) {
+        setError(connectionData.error || typesData.error || 'Failed to load appointment types');
+        return;
+      }
+
+      setConnection(connectionData.data);
+      setTypes(typesData.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching appointment types:', err);
+      setError('Failed to load appointment types');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const response = await fetch(`/api/pms/connections/${id}/appointment-types`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to refresh appointment types');
+      }
+
+      await fetchData();
+    } catch (err) {
+      console.error('Error refreshing appointment types:', err);
+      alert(err instanceof Error ? err.message : 'Failed to refresh appointment types');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleConfirmAll = async () => {
+    if (!confirm('Accept the current telehealth classification for every type that needs review?')) return;
+
+    setConfirming(true);
+    try {
+      const response = await fetch(`/api/pms/connections/${id}/appointment-types/confirm`, { method: 'POST' });
+
+      if (!response.ok) {
+        throw new Error('Failed to confirm appointment types');
+      }
+
+      await fetchData();
+    } catch (err) {
+      console.error('Error confirming appointment types:', err);
+      alert('Failed to confirm appointment types');
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading appointment types...</div>
+      </div>
+    );
+  }
+
+  const needsReview = types.filter(t => !t.telehealthConfirmedAt).length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/pms-connections">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            PMS Connections
+          </Button>
+        </Link>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Appointment Types</h1>
+          <p className="text-muted-foreground">
+            Choose which {connection?.displayName || 'PMS'} appointment types are telehealth
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh from PMS
+          </Button>
+          <Button onClick={handleConfirmAll} disabled={confirming || needsReview === 0}>
+            <CheckCheck className="w-4 h-4 mr-2" />
+            Confirm all ({needsReview})
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-12 text-center text-red-600">{error}</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Catalogue</CardTitle>
+            <CardDescription>
+              Types are suggested as telehealth from the PMS flag and their name. Once confirmed,
+              a classification is kept across syncs. Untick Sync to leave a type off the run sheet.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AppointmentTypeTable connectionId={id} types={types} onChanged={fetchData} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { use, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  ClinicianMappingTable,
+  MergeCliniciansDialog,
+  type PmsConnectionSummary,
+  type PractitionerMapping,
+} from '@/components/pms';
+import { ArrowLeft } from 'lucide-react';
+
+interface Clinician {
+  id: string;
+  name: string;
+}
+
+export default function ClinicianMappingPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [connection, setConnection] = useState<PmsConnectionSummary | null>(null);
+  const [practitioners, setPractitioners] = useState<PractitionerMapping[]>([]);
+  const [clinicians, setClinicians] = useState<Clinician[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [connectionResponse, mappingsResponse] = await Promise.all([
+        fetch(`/api/pms/connections/${id}`),
+        fetch(`/api/pms/connections/${id}/clinicians`),
+      ]);
+      const connectionData = await connectionResponse.json();
+      const mappingsData = await mappingsResponse.json();
+
+      if (!connectionResponse.ok || !mappingsResponse.ok) {
+        setError(connectionData.error || mappingsData.error || 'Failed to load clinician mappings');
+        return;
+      }
+
+      setConnection(connectionData.data);
+      setPractitioners(mappingsData.data.practitioners);
+      setClinicians(mappingsData.data.clinicians);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching clinician mappings:', err);
+      setError('Failed to load clinician mappings');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading clinician mappings...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/pms-connections">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            PMS Connections
+          </Button>
+        </Link>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Clinician Mapping</h1>
+          <p className="text-muted-foreground">
+            Link {connection?.displayName || 'PMS'} practitioners to run sheet clinicians
+          </p>
+        </div>
+        <MergeCliniciansDialog clinicians={clinicians} onMerged={fetchData} />
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-12 text-center text-red-600">{error}</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Practitioners</CardTitle>
+            <CardDescription>
+              New practitioners are mapped automatically on sync. Review auto-created mappings,
+              and untick Sync to leave a practitioner&apos;s appointments off the run sheet.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ClinicianMappingTable
+              connectionId={id}
+              practitioners={practitioners}
+              clinicians={clinicians}
+              onChanged={fetchData}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
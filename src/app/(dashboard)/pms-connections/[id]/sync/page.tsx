@@ -0,0 +1,78 @@
+'use client';
+
+import { use, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { SyncHistoryPanel, type PmsConnectionSummary } from '@/components/pms';
+import { ArrowLeft } from 'lucide-react';
+
+export default function SyncHistoryPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [connection, setConnection] = useState<PmsConnectionSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConnection = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/pms/connections/${id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load PMS connection');
+        return;
+      }
+
+      setConnection(data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching PMS connection:', err);
+      setError('Failed to load PMS connection');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchConnection();
+  }, [fetchConnection]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading sync history...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/pms-connections">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            PMS Connections
+          </Button>
+        </Link>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold">Sync History</h1>
+        <p className="text-muted-foreground">
+          {connection?.displayName || 'PMS'}
+          {connection?.lastSyncAt &&
+            ` - last synced ${formatDistanceToNow(new Date(connection.lastSyncAt), { addSuffix: true })}`}
+        </p>
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-12 text-center text-red-600">{error}</CardContent>
+        </Card>
+      ) : (
+        <SyncHistoryPanel connectionId={id} onSynced={fetchConnection} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ConnectionCard, ConnectionFormDialog, type PmsConnectionSummary } from '@/components/pms';
+import { Plus } from 'lucide-react';
+
+export default function PmsConnectionsPage() {
+  const [connections, setConnections] = useState<PmsConnectionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchConnections();
+  }, []);
+
+  async function fetchConnections() {
+    try {
+      const response = await fetch('/api/pms/connections');
+      const data = await response.json();
+      setConnections(data.data || []);
+    } catch (error) {
+      console.error('Error fetching PMS connections:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading connections...</div>
+      </div>
+    );
+  }
+
+  const addButton = (label: string) => (
+    <ConnectionFormDialog
+      onSaved={fetchConnections}
+      trigger={
+        <Button>
+          <Plus className="w-4 h-4 mr-2" />
+          {label}
+        </Button>
+      }
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">PMS Connections</h1>
+          <p className="text-muted-foreground">
+            Connect practice management systems to sync appointments into the run sheet
+          </p>
+        </div>
+        {addButton('New Connection')}
+      </div>
+
+      {connections.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-muted-foreground mb-4">No PMS connections yet</p>
+            {addButton('Add Your First Connection')}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {connections.map((connection) => (
+            <ConnectionCard
+              key={connection.id}
+              connection={connection}
+              onChanged={fetchConnections}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState, use } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, Clock, Video } from 'lucide-react';
+
+interface InviteLinkData {
+  clinicianName: string | null;
+  appointmentDate: string;
+  appointmentTime: string;
+  opensAt: string | null;
+  expiresAt: string | null;
+  roomUrl: string | null;
+}
+
+export default function JoinPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const [linkData, setLinkData] = useState<InviteLinkData | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'expired' | 'error'>('loading');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    async function fetchLink() {
+      try {
+        const response = await fetch(`/api/join/${token}`);
+        const data = await response.json();
+
+        if (response.status === 404) {
+          setStatus('error');
+          setErrorMessage('This appointment link is invalid.');
+          return;
+        }
+
+        if (response.status === 410) {
+          setStatus('expired');
+          setErrorMessage(data.error);
+          return;
+        }
+
+        if (data.data) {
+          setLinkData(data.data);
+          setStatus('ready');
+        }
+      } catch (error) {
+        console.error('Error fetching appointment link:', error);
+        setStatus('error');
+        setErrorMessage('Failed to load your appointment. Please try again later.');
+      }
+    }
+    fetchLink();
+  }, [token]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-muted-foreground">Loading appointment...</div>
+      </div>
+    );
+  }
+
+  if (status === 'expired' || status === 'error') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6">
+            <div className="flex flex-col items-center text-center">
+              {status === 'expired' ? (
+                <Clock className="w-12 h-12 text-yellow-500 mb-4" />
+              ) : (
+                <AlertCircle className="w-12 h-12 text-red-500 mb-4" />
+              )}
+              <h2 className="text-xl font-semibold mb-2">
+                {status === 'expired' ? 'Link Expired' : 'Error'}
+              </h2>
+              <p className="text-muted-foreground">{errorMessage}</p>
+              <p className="text-muted-foreground mt-2">
+                Please contact the clinic if you still need to see your clinician.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!linkData) {
+    return null;
+  }
+
+  const opensAt = linkData.opensAt ? new Date(linkData.opensAt) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 h-16 w-16 rounded-full bg-blue-100 flex items-center justify-center">
+            <Video className="h-8 w-8 text-blue-600" />
+          </div>
+          <CardTitle className="text-2xl">Your Telehealth Appointment</CardTitle>
+          <CardDescription>
+            {linkData.clinicianName ? `With ${linkData.clinicianName}` : 'With your clinician'}
+            {' '}at {linkData.appointmentTime} on {format(parseISO(linkData.appointmentDate), 'EEEE d MMMM')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {linkData.roomUrl ? (
+            <>
+              <Button asChild className="w-full">
+                <a href={linkData.roomUrl}>Join video call</a>
+              </Button>
+              <p className="text-center text-sm text-gray-500">
+                Your clinician will join you in the waiting room.
+              </p>
+            </>
+          ) : opensAt && opensAt > new Date() ? (
+            <p className="text-center text-gray-600">
+              Your video call opens at {format(opensAt, 'h:mm a')}. Please come back to this
+              link then.
+            </p>
+          ) : (
+            <p className="text-center text-gray-600">
+              The video call isn&apos;t available yet. Please contact the clinic if you can&apos;t join.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SyncScheduler } from '@/lib/pms';
+
+/**
+ * Cron entry point for scheduled PMS syncs.
+ * Call every few minutes; each connection only syncs once its
+ * syncFrequencyMinutes has elapsed. When CRON_SECRET is set, requests
+ * must send `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const scheduler = new SyncScheduler();
+    const summary = await scheduler.runDueSyncs();
+
+    return NextResponse.json({
+      startedAt: summary.startedAt,
+      completedAt: summary.completedAt,
+      connectionsChecked: summary.connectionsChecked,
+      connectionsDue: summary.connectionsDue,
+      outcomes: summary.outcomes.map(({ result, ...outcome }) => ({
+        ...outcome,
+        appointmentsFetched: result?.appointmentsFetched,
+        appointmentsCreated: result?.appointmentsCreated,
+        appointmentsUpdated: result?.appointmentsUpdated,
+        durationMs: result?.durationMs,
+      })),
+    });
+  } catch (error) {
+    console.error('Error running scheduled PMS sync:', error);
+    return NextResponse.json({ error: 'Failed to run scheduled sync' }, { status: 500 });
+  }
+}
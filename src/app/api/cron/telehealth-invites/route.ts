@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InviteDispatcher } from '@/lib/sms';
+
+/**
+ * Cron entry point for sending telehealth invites.
+ * Call every minute; sends queued invites whose scheduledFor has passed.
+ * When CRON_SECRET is set, requests must send `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const dispatcher = new InviteDispatcher();
+    const summary = await dispatcher.dispatchDueInvites();
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error dispatching telehealth invites:', error);
+    return NextResponse.json({ error: 'Failed to dispatch invites' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { telehealthInvites, runSheetAppointments, runSheetClinicians } from '@/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { formatInviteTime } from '@/lib/sms/invite-message';
+
+// GET - Telehealth invite link details (public - opened by the patient from the SMS)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const [invite] = await db
+      .select({
+        id: telehealthInvites.id,
+        appointmentDate: telehealthInvites.appointmentDate,
+        appointmentTime: telehealthInvites.appointmentTime,
+        linkValidFrom: telehealthInvites.linkValidFrom,
+        linkExpiresAt: telehealthInvites.linkExpiresAt,
+        roomUrl: telehealthInvites.roomUrl,
+        clinicianName: runSheetClinicians.name,
+        appointmentStatus: runSheetAppointments.appointmentStatus,
+        pmsRemovedAt: runSheetAppointments.pmsRemovedAt,
+      })
+      .from(telehealthInvites)
+      .leftJoin(runSheetClinicians, eq(telehealthInvites.clinicianId, runSheetClinicians.id))
+      .leftJoin(runSheetAppointments, eq(telehealthInvites.runSheetAppointmentId, runSheetAppointments.id))
+      .where(eq(telehealthInvites.linkToken, token));
+
+    if (!invite) {
+      return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+
+    if (invite.linkExpiresAt && now > invite.linkExpiresAt) {
+      return NextResponse.json({ error: 'This link has expired' }, { status: 410 });
+    }
+
+    if (invite.appointmentStatus === 'cancelled' || invite.pmsRemovedAt) {
+      return NextResponse.json({ error: 'This appointment has been cancelled' }, { status: 410 });
+    }
+
+    // Record the visit - first open is kept, last open always moves
+    await db
+      .update(telehealthInvites)
+      .set({
+        linkOpenedAt: sql`coalesce(${telehealthInvites.linkOpenedAt}, ${now.toISOString()}::timestamp)`,
+        linkLastOpenedAt: now,
+      })
+      .where(eq(telehealthInvites.id, invite.id));
+
+    const isOpen = !invite.linkValidFrom || now >= invite.linkValidFrom;
+
+    return NextResponse.json({
+      data: {
+        clinicianName: invite.clinicianName,
+        appointmentDate: invite.appointmentDate,
+        appointmentTime: formatInviteTime(invite.appointmentTime),
+        opensAt: invite.linkValidFrom,
+        expiresAt: invite.linkExpiresAt,
+        // The room is only handed out once the link's window has opened
+        roomUrl: isOpen ? invite.roomUrl : null,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching invite link:', error);
+    return NextResponse.json({ error: 'Failed to fetch link' }, { status: 500 });
+  }
+}
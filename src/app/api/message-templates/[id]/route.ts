@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { messageTemplates } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { updateMessageTemplateSchema } from '@/lib/validations';
+
+// PATCH - Update a template's text
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updateMessageTemplateSchema.parse(body);
+
+    const [template] = await db
+      .update(messageTemplates)
+      .set({ body: validatedData.body, updatedAt: new Date() })
+      .where(eq(messageTemplates.id, id))
+      .returning();
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Message template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: template });
+  } catch (error) {
+    console.error('Error updating message template:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update message template' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a template; invites fall back to the clinic default or built-in text
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const [deleted] = await db
+      .delete(messageTemplates)
+      .where(eq(messageTemplates.id, id))
+      .returning({ id: messageTemplates.id });
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Message template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting message template:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete message template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { runSheetAppointments } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { messageTemplatePreviewSchema } from '@/lib/validations';
+import { getInviteLinkUrl, getSmsSegmentInfo, renderInviteMessage } from '@/lib/sms';
+
+// Same length as a real link token, so the segment count matches what's sent
+const PREVIEW_LINK_TOKEN = 'x'.repeat(64);
+
+// POST - Render a template against a run sheet appointment
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { body: template, appointmentId } = messageTemplatePreviewSchema.parse(body);
+
+    const appointment = await db.query.runSheetAppointments.findFirst({
+      where: eq(runSheetAppointments.id, appointmentId),
+      with: { clinician: true },
+    });
+
+    if (!appointment) {
+      return NextResponse.json(
+        { success: false, error: 'Appointment not found' },
+        { status: 404 }
+      );
+    }
+
+    const text = renderInviteMessage(template, {
+      patientName: appointment.patientName,
+      clinicianName: appointment.clinician?.name ?? null,
+      appointmentTime: appointment.appointmentTime ?? '',
+      link: getInviteLinkUrl(PREVIEW_LINK_TOKEN),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { text, ...getSmsSegmentInfo(text) },
+    });
+  } catch (error) {
+    console.error('Error previewing message template:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview message template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { messageTemplates, runSheetClinicians } from '@/db/schema';
+import { asc, eq, isNull, sql } from 'drizzle-orm';
+import { messageTemplateSchema } from '@/lib/validations';
+
+// GET - List message templates (clinic default first, then clinician overrides)
+export async function GET() {
+  try {
+    const templates = await db
+      .select({
+        id: messageTemplates.id,
+        clinicianId: messageTemplates.clinicianId,
+        clinicianName: runSheetClinicians.name,
+        body: messageTemplates.body,
+        createdAt: messageTemplates.createdAt,
+        updatedAt: messageTemplates.updatedAt,
+      })
+      .from(messageTemplates)
+      .leftJoin(runSheetClinicians, eq(messageTemplates.clinicianId, runSheetClinicians.id))
+      .orderBy(sql`${messageTemplates.clinicianId} is not null`, asc(runSheetClinicians.name));
+
+    return NextResponse.json({ data: templates });
+  } catch (error) {
+    console.error('Error fetching message templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch message templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create the clinic default or a clinician override
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { clinicianId = null, body: templateBody } = messageTemplateSchema.parse(body);
+
+    if (clinicianId) {
+      const clinician = await db.query.runSheetClinicians.findFirst({
+        where: eq(runSheetClinicians.id, clinicianId),
+      });
+      if (!clinician) {
+        return NextResponse.json(
+          { success: false, error: 'Clinician not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    // The unique constraint doesn't cover null, so guard the clinic default here
+    const [existing] = await db
+      .select({ id: messageTemplates.id })
+      .from(messageTemplates)
+      .where(clinicianId ? eq(messageTemplates.clinicianId, clinicianId) : isNull(messageTemplates.clinicianId))
+      .limit(1);
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: clinicianId
+            ? 'This clinician already has a template'
+            : 'A clinic default template already exists',
+        },
+        { status: 409 }
+      );
+    }
+
+    const [template] = await db
+      .insert(messageTemplates)
+      .values({ clinicianId, body: templateBody })
+      .returning();
+
+    return NextResponse.json(
+      { success: true, data: template },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating message template:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create message template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { appointmentTypeClassificationSchema } from '@/lib/validations';
+import { classifyAppointmentType } from '@/lib/pms';
+
+// PATCH - Confirm telehealth classification or toggle sync for a type
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; typeId: string }> }
+) {
+  try {
+    const { id, typeId } = await params;
+    const body = await request.json();
+    const validatedData = appointmentTypeClassificationSchema.parse(body);
+
+    const type = await classifyAppointmentType(id, typeId, validatedData);
+    if (!type) {
+      return NextResponse.json(
+        { error: 'Appointment type not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: type });
+  } catch (error) {
+    console.error('Error updating appointment type:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update appointment type' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmAllAppointmentTypes, getConnection } from '@/lib/pms';
+
+// POST - Accept the suggested classification for every unreviewed type
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const confirmed = await confirmAllAppointmentTypes(id);
+
+    return NextResponse.json({ success: true, data: { confirmed } });
+  } catch (error) {
+    console.error('Error confirming appointment types:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to confirm appointment types' },
+      { status: 500 }
+    );
+  }
+}
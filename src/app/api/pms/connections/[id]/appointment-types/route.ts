@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { asc, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { pmsAppointmentTypes } from '@/db/schema';
+import { getAdapter, getConnection, syncAppointmentTypeCatalogue, toPMSConnection } from '@/lib/pms';
+
+// GET - Appointment type catalogue for a connection
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const types = await db
+      .select()
+      .from(pmsAppointmentTypes)
+      .where(eq(pmsAppointmentTypes.pmsConnectionId, id))
+      .orderBy(asc(pmsAppointmentTypes.pmsTypeName));
+
+    return NextResponse.json({ data: types });
+  } catch (error) {
+    console.error('Error fetching appointment types:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch appointment types' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Refresh the catalogue from the PMS
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const adapter = getAdapter(connection.pmsType);
+    const result = await syncAppointmentTypeCatalogue(toPMSConnection(connection), adapter);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error syncing appointment types:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sync appointment types' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { clinicianMappingSchema } from '@/lib/validations';
+import { getConnection, upsertPractitionerMapping } from '@/lib/pms';
+
+// PATCH - Link, unlink or toggle sync for a PMS practitioner
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; practitionerId: string }> }
+) {
+  try {
+    const { id, practitionerId } = await params;
+    const body = await request.json();
+    const validatedData = clinicianMappingSchema.parse(body);
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const mapping = await upsertPractitionerMapping(
+      id,
+      practitionerId,
+      validatedData
+    );
+
+    return NextResponse.json({ success: true, data: mapping });
+  } catch (error) {
+    console.error('Error updating clinician mapping:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update clinician mapping' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdapter, getConnection, getPractitionerMappings, toPMSConnection } from '@/lib/pms';
+
+// GET - PMS practitioners with their run sheet clinician mappings and suggested matches
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const adapter = getAdapter(connection.pmsType);
+    const data = await getPractitionerMappings(toPMSConnection(connection), adapter);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error fetching clinician mappings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch clinician mappings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { pmsConnections } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { pmsPairingSchema } from '@/lib/validations';
+import { GentuAdapter, connectionSummaryFields, getConnection, isValidTimezone } from '@/lib/pms';
+
+// POST - Pair a Gentu connection with a tenant using a pairing code from Gentu
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { pairingCode } = pmsPairingSchema.parse(body);
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (connection.pmsType !== 'gentu') {
+      return NextResponse.json(
+        { error: 'Pairing codes are only used for Gentu connections' },
+        { status: 400 }
+      );
+    }
+
+    const adapter = new GentuAdapter();
+
+    let tenantId: string;
+    try {
+      ({ tenantId } = await adapter.consumePairingCode(process.env.GENTU_APP_ID || '', pairingCode));
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Request failed: 404')) {
+        return NextResponse.json(
+          { error: 'Pairing code is invalid, expired or already used' },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const tenant = await adapter.fetchTenantDetails(tenantId);
+
+    await db
+      .update(pmsConnections)
+      .set({
+        tenantId,
+        // Gentu knows the practice timezone, so take it over the default
+        ...(tenant.timezone && isValidTimezone(tenant.timezone) && { timezone: tenant.timezone }),
+        updatedAt: new Date(),
+      })
+      .where(eq(pmsConnections.id, id));
+
+    const [updated] = await db
+      .select(connectionSummaryFields)
+      .from(pmsConnections)
+      .where(eq(pmsConnections.id, id));
+
+    return NextResponse.json({ success: true, data: updated, tenant });
+  } catch (error) {
+    console.error('Error pairing PMS connection:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to pair PMS connection' },
+      { status: 500 }
+    );
+  }
+}
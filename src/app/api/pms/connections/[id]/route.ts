@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { pmsConnections, runSheetAppointments } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { updatePmsConnectionSchema } from '@/lib/validations';
+import { connectionSummaryFields } from '@/lib/pms';
+
+// GET - Get PMS connection by ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const [connection] = await db
+      .select(connectionSummaryFields)
+      .from(pmsConnections)
+      .where(eq(pmsConnections.id, id));
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data: connection });
+  } catch (error) {
+    console.error('Error fetching PMS connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PMS connection' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update PMS connection settings
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updatePmsConnectionSchema.parse(body);
+
+    const [updated] = await db
+      .update(pmsConnections)
+      .set({
+        ...validatedData,
+        updatedAt: new Date(),
+      })
+      .where(eq(pmsConnections.id, id))
+      .returning({ id: pmsConnections.id });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const [connection] = await db
+      .select(connectionSummaryFields)
+      .from(pmsConnections)
+      .where(eq(pmsConnections.id, id));
+
+    return NextResponse.json({ success: true, data: connection });
+  } catch (error) {
+    console.error('Error updating PMS connection:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update PMS connection' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete PMS connection
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Keep synced appointments on their run sheets, just unlink them
+    await db
+      .update(runSheetAppointments)
+      .set({ pmsConnectionId: null, updatedAt: new Date() })
+      .where(eq(runSheetAppointments.pmsConnectionId, id));
+
+    // Mappings, appointment types and sync log cascade
+    const [deleted] = await db
+      .delete(pmsConnections)
+      .where(eq(pmsConnections.id, id))
+      .returning({ id: pmsConnections.id });
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting PMS connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete PMS connection' },
+      { status: 500 }
+    );
+  }
+}
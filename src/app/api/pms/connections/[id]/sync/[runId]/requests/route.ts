@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { pmsSyncLog } from '@/db/schema';
+import { getRequestJournal } from '@/lib/pms';
+
+// GET - Journalled (redacted) PMS requests for a sync run
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  try {
+    const { id, runId } = await params;
+
+    const [run] = await db
+      .select({ id: pmsSyncLog.id })
+      .from(pmsSyncLog)
+      .where(and(eq(pmsSyncLog.id, runId), eq(pmsSyncLog.pmsConnectionId, id)))
+      .limit(1);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Sync run not found' },
+        { status: 404 }
+      );
+    }
+
+    const entries = await getRequestJournal(runId);
+
+    return NextResponse.json({ data: entries });
+  } catch (error) {
+    console.error('Error fetching PMS request journal:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PMS request journal' },
+      { status: 500 }
+    );
+  }
+}
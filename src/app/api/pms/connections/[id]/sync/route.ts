@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnection, SyncOrchestrator, SyncScheduler, TokenManager } from '@/lib/pms';
+
+// GET - Sync run history for a connection, most recent first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 20, 1), 100);
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const orchestrator = new SyncOrchestrator(new TokenManager());
+    const history = await orchestrator.getSyncHistory(id, limit);
+
+    return NextResponse.json({ data: history });
+  } catch (error) {
+    console.error('Error fetching sync history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sync history' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Trigger a manual sync
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const scheduler = new SyncScheduler();
+    const outcome = await scheduler.runNow(id, 'manual');
+
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (outcome.status === 'skipped') {
+      return NextResponse.json(
+        { success: false, error: outcome.reason },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: outcome.status === 'synced',
+      data: outcome.result ?? null,
+      error: outcome.status === 'failed' ? outcome.reason : undefined,
+    });
+  } catch (error) {
+    console.error('Error running manual sync:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run sync' },
+      { status: 500 }
+    );
+  }
+}
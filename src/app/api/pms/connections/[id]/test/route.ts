@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  circuitBreaker,
+  getAdapter,
+  getConnection,
+  getConnectionRateLimitKey,
+  toPMSConnection,
+} from '@/lib/pms';
+
+// POST - Run the adapter health check against a connection
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const adapter = getAdapter(connection.pmsType);
+    const pmsConnection = toPMSConnection(connection);
+    const result = await adapter.healthCheck(pmsConnection);
+
+    // Read after the check, so a failed or recovering check is reflected
+    result.circuit = await circuitBreaker.getStatus(getConnectionRateLimitKey(pmsConnection));
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error('Error testing PMS connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to test PMS connection' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnection, rotateWebhookSecret } from '@/lib/pms';
+
+// POST - Issue a new webhook signing secret (shown once; replaces any existing secret)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const connection = await getConnection(id);
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'PMS connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const secret = await rotateWebhookSecret(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        secret,
+        url: new URL(`/api/pms/webhooks/${connection.pmsType}`, request.url).toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error rotating PMS webhook secret:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to rotate webhook secret' },
+      { status: 500 }
+    );
+  }
+}
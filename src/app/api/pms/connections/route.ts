@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/db';
+import { pmsConnections } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { pmsConnectionSchema } from '@/lib/validations';
+import { connectionSummaryFields } from '@/lib/pms';
+
+// GET - List PMS connections
+export async function GET() {
+  try {
+    const connections = await db
+      .select(connectionSummaryFields)
+      .from(pmsConnections)
+      .orderBy(desc(pmsConnections.createdAt));
+
+    return NextResponse.json({ data: connections });
+  } catch (error) {
+    console.error('Error fetching PMS connections:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch PMS connections' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create PMS connection
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = pmsConnectionSchema.parse(body);
+
+    const [created] = await db
+      .insert(pmsConnections)
+      .values(validatedData)
+      .returning({ id: pmsConnections.id });
+
+    const [connection] = await db
+      .select(connectionSummaryFields)
+      .from(pmsConnections)
+      .where(eq(pmsConnections.id, created.id));
+
+    return NextResponse.json(
+      { success: true, data: connection },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating PMS connection:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create PMS connection' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findWebhookConnection,
+  getAdapter,
+  getWebhookSecret,
+  handleWebhookEvent,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  type PMSType,
+} from '@/lib/pms';
+
+const PMS_TYPES: PMSType[] = ['gentu', 'medirecords', 'halaxy'];
+
+/**
+ * Appointment change notifications pushed by a PMS.
+ * The event is matched to a connection by its tenant/practice/organisation,
+ * checked against that connection's webhook secret, and applied once -
+ * redeliveries of the same event ID are acknowledged without reprocessing.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pmsType: string }> }
+) {
+  const { pmsType } = await params;
+
+  if (!PMS_TYPES.includes(pmsType as PMSType)) {
+    return NextResponse.json({ error: 'Unknown PMS type' }, { status: 404 });
+  }
+
+  const adapter = getAdapter(pmsType as PMSType);
+  if (!adapter.parseWebhookEvent || !adapter.mapWebhookAppointment) {
+    return NextResponse.json(
+      { error: `Webhooks are not supported for ${pmsType}` },
+      { status: 404 }
+    );
+  }
+
+  // Signatures are over the exact bytes received
+  const rawBody = await request.text();
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const event = adapter.parseWebhookEvent(payload);
+  if (!event) {
+    // Not an appointment change - acknowledge so the PMS doesn't retry
+    return NextResponse.json({ success: true, ignored: true });
+  }
+
+  try {
+    const connection = await findWebhookConnection(pmsType as PMSType, event.scopeId);
+    const secret = connection ? getWebhookSecret(connection) : undefined;
+
+    // Same response for unknown tenants and bad signatures
+    if (!connection || !secret || !verifyWebhookSignature(secret, rawBody, request.headers.get(WEBHOOK_SIGNATURE_HEADER))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const outcome = await handleWebhookEvent(connection.id, adapter, event);
+
+    return NextResponse.json({
+      success: true,
+      duplicate: outcome.status === 'duplicate',
+      result: outcome.status === 'processed' ? outcome.result : undefined,
+    });
+  } catch (error) {
+    // 500 so the PMS redelivers; the failed event can be claimed again
+    console.error('Error processing PMS webhook:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
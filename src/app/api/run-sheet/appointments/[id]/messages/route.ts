@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { smsMessages } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+
+// GET - SMS conversation for an appointment: invites sent and the patient's replies, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const messages = await db
+      .select({
+        id: smsMessages.id,
+        direction: smsMessages.direction,
+        body: smsMessages.body,
+        phoneNumber: smsMessages.phoneNumber,
+        replyAction: smsMessages.replyAction,
+        replyActionResult: smsMessages.replyActionResult,
+        createdAt: smsMessages.createdAt,
+      })
+      .from(smsMessages)
+      .where(eq(smsMessages.runSheetAppointmentId, id))
+      .orderBy(asc(smsMessages.createdAt));
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error('Error fetching SMS messages:', error);
+    return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
+  }
+}
@@ -1,7 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { db } from '@/db';
 import { runSheetAppointments, telehealthInvites } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { runSheetAppointmentStatusSchema } from '@/lib/validations';
+import { writeBackAppointmentStatus } from '@/lib/pms';
+
+// PATCH - Update an appointment's status and push it back to the PMS
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { appointmentStatus } = runSheetAppointmentStatusSchema.parse(body);
+
+    const [updated] = await db
+      .update(runSheetAppointments)
+      .set({ appointmentStatus, updatedAt: new Date() })
+      .where(eq(runSheetAppointments.id, id))
+      .returning({ id: runSheetAppointments.id });
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    // The outcome is also recorded on the row, so a failed push shows on the run sheet
+    const writeBack = await writeBackAppointmentStatus(id, appointmentStatus);
+
+    const appointment = await db.query.runSheetAppointments.findFirst({
+      where: eq(runSheetAppointments.id, id),
+    });
+
+    return NextResponse.json({ success: true, appointment, writeBack });
+  } catch (error) {
+    console.error('Error updating appointment status:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to update appointment status' }, { status: 500 });
+  }
+}
 
 // DELETE - Remove an appointment from the run sheet
 export async function DELETE(
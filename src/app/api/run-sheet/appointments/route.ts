@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { runSheets, runSheetAppointments, runSheetClinicians, telehealthInvites } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 
 // GET - Get all appointments for a run sheet (defaults to today)
 export async function GET(request: NextRequest) {
@@ -20,10 +20,20 @@ export async function GET(request: NextRequest) {
     }
 
     const appointments = await db.query.runSheetAppointments.findMany({
-      where: eq(runSheetAppointments.runSheetId, runSheet.id),
+      // Appointments removed from the PMS stay for history but drop off the run sheet
+      where: and(
+        eq(runSheetAppointments.runSheetId, runSheet.id),
+        isNull(runSheetAppointments.pmsRemovedAt)
+      ),
       with: {
         clinician: true,
-        ...(includeInviteStatus && { telehealthInvites: true }),
+        ...(includeInviteStatus && {
+          telehealthInvites: true,
+          smsMessages: {
+            where: (messages, { eq }) => eq(messages.direction, 'inbound'),
+            orderBy: (messages, { desc }) => [desc(messages.createdAt)],
+          },
+        }),
       },
     });
 
@@ -42,7 +52,21 @@ export async function GET(request: NextRequest) {
         inviteId: latestInvite?.id || null,
         scheduledFor: latestInvite?.scheduledFor || null,
         sentAt: latestInvite?.sentAt || null,
+        deliveredAt: latestInvite?.deliveredAt || null,
+        linkOpenedAt: latestInvite?.linkOpenedAt || null,
+        inviteFailureReason: latestInvite?.failureReason || null,
+        inviteAttemptCount: latestInvite?.attemptCount ?? 0,
+        nextAttemptAt: latestInvite?.nextAttemptAt || null,
+        staleReason: latestInvite?.staleReason || null,
         invitePatientName: latestInvite?.patientName || null,
+        replyCount: includeInviteStatus ? appt.smsMessages?.length ?? 0 : 0,
+        latestReply: includeInviteStatus && appt.smsMessages?.length > 0
+          ? {
+              body: appt.smsMessages[0].body,
+              createdAt: appt.smsMessages[0].createdAt,
+              replyAction: appt.smsMessages[0].replyAction,
+            }
+          : null,
       };
     });
 
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { mergeCliniciansSchema } from '@/lib/validations';
+import { mergeClinicians } from '@/lib/pms';
+
+// POST - Merge a duplicate clinician into another
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sourceClinicianId, targetClinicianId } = mergeCliniciansSchema.parse(body);
+
+    const result = await mergeClinicians(sourceClinicianId, targetClinicianId);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error merging clinicians:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Clinician not found') {
+      return NextResponse.json(
+        { success: false, error: 'Clinician not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge clinicians' },
+      { status: 500 }
+    );
+  }
+}
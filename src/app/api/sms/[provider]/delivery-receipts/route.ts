@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyDeliveryReceipt, getSmsProvider, isSmsProviderName } from '@/lib/sms';
+
+/**
+ * Delivery receipts pushed by an SMS provider.
+ * The request is checked with the provider's own signature scheme, then
+ * the receipt is matched to the invite by provider message ID. Interim
+ * updates (accepted, en route) are acknowledged and ignored.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerName } = await params;
+
+  if (!isSmsProviderName(providerName)) {
+    return NextResponse.json({ error: 'Unknown SMS provider' }, { status: 404 });
+  }
+
+  const provider = getSmsProvider(providerName);
+  if (!provider.verifyWebhook || !provider.parseDeliveryReceipt) {
+    return NextResponse.json(
+      { error: `Delivery receipts are not supported for ${providerName}` },
+      { status: 404 }
+    );
+  }
+
+  // Signatures are over the exact bytes received
+  const rawBody = await request.text();
+
+  if (!provider.verifyWebhook(rawBody, request.headers)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const receipt = provider.parseDeliveryReceipt(payload);
+  if (!receipt) {
+    return NextResponse.json({ success: true, ignored: true });
+  }
+
+  try {
+    const outcome = await applyDeliveryReceipt(providerName, receipt);
+
+    if (outcome.status === 'unmatched') {
+      // The receipt can beat the dispatcher recording the message ID; 404 so the provider redelivers
+      return NextResponse.json({ error: 'Unknown message' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      duplicate: outcome.status === 'duplicate',
+    });
+  } catch (error) {
+    console.error('Error processing SMS delivery receipt:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process delivery receipt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSmsProvider, handleInboundReply, isSmsProviderName } from '@/lib/sms';
+
+/**
+ * Patient replies forwarded by an SMS provider.
+ * The request is checked with the provider's own signature scheme; the
+ * reply is then matched to the most recent invite sent to that number and
+ * any YES / CANCEL / LATE keyword applied to the appointment.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerName } = await params;
+
+  if (!isSmsProviderName(providerName)) {
+    return NextResponse.json({ error: 'Unknown SMS provider' }, { status: 404 });
+  }
+
+  const provider = getSmsProvider(providerName);
+  if (!provider.verifyWebhook || !provider.parseInboundMessage) {
+    return NextResponse.json(
+      { error: `Inbound messages are not supported for ${providerName}` },
+      { status: 404 }
+    );
+  }
+
+  // Signatures are over the exact bytes received
+  const rawBody = await request.text();
+
+  if (!provider.verifyWebhook(rawBody, request.headers)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const message = provider.parseInboundMessage(payload);
+  if (!message) {
+    return NextResponse.json({ success: true, ignored: true });
+  }
+
+  try {
+    const outcome = await handleInboundReply(providerName, message);
+
+    return NextResponse.json({
+      success: true,
+      duplicate: outcome.status === 'duplicate',
+      matched: outcome.status === 'matched',
+      action: outcome.status === 'matched' ? outcome.action : undefined,
+    });
+  } catch (error) {
+    // 500 so the provider redelivers. The redelivery isn't stored again, but a
+    // keyword action that wasn't recorded this time is applied then.
+    console.error('Error processing inbound SMS:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process inbound message' },
+      { status: 500 }
+    );
+  }
+}
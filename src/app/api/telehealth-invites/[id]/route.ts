@@ -24,14 +24,22 @@ export async function PATCH(
       updateData.sentAt = new Date();
       updateData.failedAt = null;
       updateData.failureReason = null;
+      updateData.staleReason = null;
+      updateData.nextAttemptAt = null;
     } else if (status === 'failed') {
       updateData.failedAt = new Date();
       updateData.failureReason = body.failureReason || null;
+      updateData.nextAttemptAt = null;
     } else if (status === 'queued') {
       updateData.queuedAt = new Date();
       updateData.sentAt = null;
       updateData.failedAt = null;
       updateData.failureReason = null;
+      updateData.staleReason = null;
+      updateData.claimedAt = null;
+      updateData.attemptCount = 0;
+      updateData.nextAttemptAt = null;
+      updateData.deliveredAt = null;
     }
 
     const [updated] = await db
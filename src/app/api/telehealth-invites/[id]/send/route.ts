@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InviteDispatcher } from '@/lib/sms';
+
+// POST - Send a queued invite now, ahead of its scheduled time
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const dispatcher = new InviteDispatcher();
+    const outcome = await dispatcher.dispatchInvite(id);
+
+    if (!outcome) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: outcome.status === 'sent', outcome });
+  } catch (error) {
+    console.error('Error sending invite:', error);
+    return NextResponse.json({ error: 'Failed to send invite' }, { status: 500 });
+  }
+}
@@ -39,6 +39,14 @@ export async function POST(request: NextRequest) {
           sentAt: null,
           failedAt: null,
           failureReason: null,
+          staleReason: null,
+          claimedAt: null,
+          attemptCount: 0,
+          nextAttemptAt: null,
+          deliveredAt: null,
+          // Pick up any reschedule since the invite was first queued
+          appointmentDate: appointment.runSheet.date,
+          appointmentTime: appointment.appointmentTime || '',
         })
         .where(eq(telehealthInvites.id, existingInvite.id));
     } else {
@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import {
+  INVITE_MESSAGE_TEMPLATE,
+  INVITE_PLACEHOLDERS,
+  findUnknownPlaceholders,
+} from '@/lib/sms/invite-message';
+import { getSmsSegmentInfo } from '@/lib/sms/segments';
+import type { MessageTemplateSummary, PreviewAppointment, TemplatePreview } from './types';
+
+interface TemplateEditorProps {
+  title: string;
+  description: string;
+  clinicianId: string | null;
+  template?: MessageTemplateSummary;
+  initialBody?: string;
+  appointments: PreviewAppointment[];
+  onSaved: () => void;
+  onDeleted?: () => void;
+}
+
+function describeChar(char: string): string {
+  if (char === '‘' || char === '’') return `${char} (curly apostrophe)`;
+  if (char === '“' || char === '”') return `${char} (curly quote)`;
+  if (char === '–' || char === '—') return `${char} (long dash)`;
+  if (/\s/.test(char)) return `U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')} (unusual space)`;
+  return char;
+}
+
+export function TemplateEditor({
+  title,
+  description,
+  clinicianId,
+  template,
+  initialBody,
+  appointments,
+  onSaved,
+  onDeleted,
+}: TemplateEditorProps) {
+  const [body, setBody] = useState(template?.body ?? initialBody ?? INVITE_MESSAGE_TEMPLATE);
+  const [appointmentId, setAppointmentId] = useState<string>(appointments[0]?.id ?? '');
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const unknownPlaceholders = findUnknownPlaceholders(body);
+  const missingLink = !body.includes('[link]');
+  const isValid = body.trim().length > 0 && unknownPlaceholders.length === 0 && !missingLink;
+  const isDirty = !template || body !== template.body;
+
+  useEffect(() => {
+    if (!appointmentId && appointments.length > 0) {
+      setAppointmentId(appointments[0].id);
+    }
+  }, [appointments, appointmentId]);
+
+  // Re-render the preview a moment after typing stops
+  useEffect(() => {
+    if (!appointmentId || !isValid) {
+      setPreview(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/message-templates/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ body, appointmentId }),
+        });
+        const data = await response.json();
+        setPreview(response.ok ? data.data : null);
+      } catch (err) {
+        console.error('Error previewing message template:', err);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [body, appointmentId, isValid]);
+
+  // Without a preview, count the template itself so the editor still warns
+  const segmentInfo = preview ?? getSmsSegmentInfo(body);
+
+  async function handleSave() {
+    setError(null);
+    try {
+      setIsSaving(true);
+
+      const response = await fetch(
+        template ? `/api/message-templates/${template.id}` : '/api/message-templates',
+        {
+          method: template ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(template ? { body } : { clinicianId, body }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.errors?.[0]?.message || data.error || 'Failed to save template');
+        return;
+      }
+
+      onSaved();
+    } catch (err) {
+      console.error('Error saving message template:', err);
+      setError('Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!template) {
+      onDeleted?.();
+      return;
+    }
+    if (!confirm(`Delete the ${title} template?`)) return;
+
+    try {
+      const response = await fetch(`/api/message-templates/${template.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete template');
+        return;
+      }
+      onDeleted?.();
+    } catch (err) {
+      console.error('Error deleting message template:', err);
+      setError('Failed to delete template');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          {onDeleted && (
+            <Button variant="ghost" size="sm" onClick={handleDelete}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor={`template-${clinicianId ?? 'default'}`}>Message</Label>
+            <Textarea
+              id={`template-${clinicianId ?? 'default'}`}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={5}
+              aria-invalid={!isValid}
+            />
+            <div className="flex flex-wrap gap-1">
+              {INVITE_PLACEHOLDERS.map((placeholder) => (
+                <Button
+                  key={placeholder}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setBody((prev) => `${prev}${prev.endsWith(' ') ? '' : ' '}${placeholder}`)}
+                >
+                  {placeholder}
+                </Button>
+              ))}
+            </div>
+            {unknownPlaceholders.length > 0 && (
+              <p className="text-sm text-red-600">
+                Unknown placeholder{unknownPlaceholders.length > 1 ? 's' : ''}: {unknownPlaceholders.join(', ')}
+              </p>
+            )}
+            {missingLink && (
+              <p className="text-sm text-red-600">The message must include [link].</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            {appointments.length > 0 ? (
+              <Select value={appointmentId} onValueChange={setAppointmentId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose an appointment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {appointments.map((appt) => (
+                    <SelectItem key={appt.id} value={appt.id}>
+                      {appt.appointmentTime || '--:--'} {appt.patientName || 'Unnamed patient'}
+                      {appt.clinicianName ? ` (${appt.clinicianName})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No appointments on today&apos;s run sheet to preview against.
+              </p>
+            )}
+            <div className="bg-gray-100 p-4 rounded-md text-sm whitespace-pre-wrap min-h-20">
+              {preview?.text ?? <span className="text-muted-foreground">{body}</span>}
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Badge variant={segmentInfo.segments > 1 ? 'secondary' : 'outline'}>
+                {segmentInfo.segments} SMS segment{segmentInfo.segments === 1 ? '' : 's'}
+              </Badge>
+              <span>
+                {segmentInfo.length} characters, {segmentInfo.encoding}
+                {!preview && ' (template only)'}
+              </span>
+            </div>
+            {segmentInfo.nonGsmCharacters.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  {segmentInfo.nonGsmCharacters.map(describeChar).join(', ')} can&apos;t be sent as
+                  standard SMS text, so the whole message drops to 70 characters per segment.
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          {template && isDirty && (
+            <Button variant="outline" onClick={() => setBody(template.body)}>
+              Discard changes
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!isValid || !isDirty || isSaving}>
+            {isSaving ? 'Saving...' : 'Save template'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+export { TemplateEditor } from './TemplateEditor';
+export type { MessageTemplateSummary, PreviewAppointment, TemplatePreview } from './types';
@@ -0,0 +1,24 @@
+export interface MessageTemplateSummary {
+  id: string;
+  clinicianId: string | null;
+  clinicianName: string | null;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Run sheet appointment a template can be previewed against
+export interface PreviewAppointment {
+  id: string;
+  patientName: string | null;
+  appointmentTime: string | null;
+  clinicianName: string | null;
+}
+
+export interface TemplatePreview {
+  text: string;
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;
+  segments: number;
+  nonGsmCharacters: string[];
+}
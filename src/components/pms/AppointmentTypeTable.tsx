@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+export interface AppointmentTypeEntry {
+  id: string;
+  pmsTypeId: string;
+  pmsTypeName: string;
+  defaultDurationMinutes: number | null;
+  colour: string | null;
+  isTelehealth: boolean;
+  isTelehealthSuggested: boolean;
+  telehealthConfirmedAt: string | null;
+  syncEnabled: boolean;
+}
+
+interface AppointmentTypeTableProps {
+  connectionId: string;
+  types: AppointmentTypeEntry[];
+  onChanged: () => void;
+}
+
+export function AppointmentTypeTable({ connectionId, types, onChanged }: AppointmentTypeTableProps) {
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  async function updateType(
+    type: AppointmentTypeEntry,
+    changes: { isTelehealth?: boolean; syncEnabled?: boolean }
+  ) {
+    setSavingId(type.id);
+    try {
+      const response = await fetch(
+        `/api/pms/connections/${connectionId}/appointment-types/${type.id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(changes),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to update appointment type');
+      }
+
+      onChanged();
+    } catch (error) {
+      console.error('Error updating appointment type:', error);
+      alert('Failed to update appointment type');
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  if (types.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-8">
+        No appointment types yet. Refresh from the PMS to load them.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Appointment type</TableHead>
+          <TableHead>Duration</TableHead>
+          <TableHead>Classification</TableHead>
+          <TableHead className="text-center">Telehealth</TableHead>
+          <TableHead className="text-center">Sync</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {types.map((type) => {
+          const isSaving = savingId === type.id;
+          const needsReview = !type.telehealthConfirmedAt;
+          const overridden = type.isTelehealth !== type.isTelehealthSuggested;
+
+          return (
+            <TableRow key={type.id} className={isSaving ? 'opacity-50' : undefined}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  {type.colour && (
+                    <span
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: type.colour }}
+                    />
+                  )}
+                  <span className="font-medium">{type.pmsTypeName}</span>
+                </div>
+              </TableCell>
+              <TableCell className="text-muted-foreground">
+                {type.defaultDurationMinutes ? `${type.defaultDurationMinutes} min` : '-'}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {type.isTelehealthSuggested && <Badge variant="outline">Suggested telehealth</Badge>}
+                  {needsReview ? (
+                    <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                      Needs review
+                    </Badge>
+                  ) : overridden ? (
+                    <Badge variant="secondary">Overridden</Badge>
+                  ) : (
+                    <Badge variant="secondary" className="bg-green-100 text-green-800">
+                      Confirmed
+                    </Badge>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell className="text-center">
+                <Checkbox
+                  checked={type.isTelehealth}
+                  disabled={isSaving}
+                  onCheckedChange={(checked) => updateType(type, { isTelehealth: checked === true })}
+                />
+              </TableCell>
+              <TableCell className="text-center">
+                <Checkbox
+                  checked={type.syncEnabled}
+                  disabled={isSaving}
+                  onCheckedChange={(checked) => updateType(type, { syncEnabled: checked === true })}
+                />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
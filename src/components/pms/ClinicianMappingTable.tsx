@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface Clinician {
+  id: string;
+  name: string;
+}
+
+export interface PractitionerMapping {
+  pmsPractitionerId: string;
+  name: string;
+  active: boolean;
+  inPms: boolean;
+  mapping: {
+    id: string;
+    runSheetClinicianId: string | null;
+    clinicianName: string | null;
+    syncEnabled: boolean;
+    autoCreated: boolean;
+  } | null;
+  suggestions: Array<{ clinicianId: string; name: string; score: number }>;
+}
+
+interface ClinicianMappingTableProps {
+  connectionId: string;
+  practitioners: PractitionerMapping[];
+  clinicians: Clinician[];
+  onChanged: () => void;
+}
+
+const NOT_LINKED = '__none__';
+const CREATE_NEW = '__create__';
+
+export function ClinicianMappingTable({
+  connectionId,
+  practitioners,
+  clinicians,
+  onChanged,
+}: ClinicianMappingTableProps) {
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  async function updateMapping(
+    practitioner: PractitionerMapping,
+    changes: { runSheetClinicianId?: string | null; createClinician?: boolean; syncEnabled?: boolean }
+  ) {
+    setSavingId(practitioner.pmsPractitionerId);
+    try {
+      const response = await fetch(
+        `/api/pms/connections/${connectionId}/clinicians/${encodeURIComponent(practitioner.pmsPractitionerId)}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ pmsPractitionerName: practitioner.name, ...changes }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to update mapping');
+      }
+
+      onChanged();
+    } catch (error) {
+      console.error('Error updating clinician mapping:', error);
+      alert('Failed to update clinician mapping');
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  function handleLinkChange(practitioner: PractitionerMapping, value: string) {
+    if (value === CREATE_NEW) {
+      updateMapping(practitioner, { createClinician: true });
+    } else {
+      updateMapping(practitioner, { runSheetClinicianId: value === NOT_LINKED ? null : value });
+    }
+  }
+
+  if (practitioners.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-8">
+        No practitioners returned by the PMS
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>PMS practitioner</TableHead>
+          <TableHead>Run sheet clinician</TableHead>
+          <TableHead>Suggested matches</TableHead>
+          <TableHead className="text-center">Sync</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {practitioners.map((practitioner) => {
+          const isSaving = savingId === practitioner.pmsPractitionerId;
+          const linkedId = practitioner.mapping?.runSheetClinicianId ?? NOT_LINKED;
+
+          return (
+            <TableRow key={practitioner.pmsPractitionerId} className={isSaving ? 'opacity-50' : undefined}>
+              <TableCell>
+                <div className="font-medium">{practitioner.name}</div>
+                <div className="flex gap-1 mt-1">
+                  {!practitioner.inPms && <Badge variant="outline">Not in PMS</Badge>}
+                  {practitioner.inPms && !practitioner.active && <Badge variant="outline">Inactive</Badge>}
+                  {practitioner.mapping?.autoCreated && (
+                    <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                      Auto-created - review
+                    </Badge>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell className="w-64">
+                <Select
+                  value={linkedId}
+                  onValueChange={(value) => handleLinkChange(practitioner, value)}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_LINKED}>Not linked</SelectItem>
+                    {clinicians.map((clinician) => (
+                      <SelectItem key={clinician.id} value={clinician.id}>
+                        {clinician.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={CREATE_NEW}>+ Create &quot;{practitioner.name}&quot;</SelectItem>
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {practitioner.suggestions.length === 0 && (
+                    <span className="text-sm text-muted-foreground">-</span>
+                  )}
+                  {practitioner.suggestions.map((suggestion) => (
+                    <Button
+                      key={suggestion.clinicianId}
+                      variant="outline"
+                      size="sm"
+                      disabled={isSaving}
+                      onClick={() => updateMapping(practitioner, { runSheetClinicianId: suggestion.clinicianId })}
+                    >
+                      {suggestion.name}
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        {Math.round(suggestion.score * 100)}%
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell className="text-center">
+                <Checkbox
+                  checked={practitioner.mapping?.syncEnabled ?? true}
+                  disabled={isSaving}
+                  onCheckedChange={(checked) => updateMapping(practitioner, { syncEnabled: checked === true })}
+                />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
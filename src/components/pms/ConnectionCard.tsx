@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import Link from 'next/link';
+import { Activity, Edit, History, Tags, Trash2, Users, Webhook } from 'lucide-react';
+import { ConnectionFormDialog } from './ConnectionFormDialog';
+import { PairingDialog } from './PairingDialog';
+import { PMS_TYPE_LABELS, PRACTICE_TIMEZONES, SYNC_STATUS_STYLES, type PmsConnectionSummary } from './types';
+
+interface ConnectionCardProps {
+  connection: PmsConnectionSummary;
+  onChanged: () => void;
+}
+
+interface HealthCheckResult {
+  healthy: boolean;
+  message?: string;
+  latencyMs?: number;
+  circuit?: {
+    state: 'closed' | 'open' | 'half_open';
+    failureCount: number;
+    retryAt?: string;
+  };
+}
+
+function describeCircuit(circuit: NonNullable<HealthCheckResult['circuit']>): string | null {
+  switch (circuit.state) {
+    case 'open':
+      return `Circuit open after ${circuit.failureCount} failures${circuit.retryAt ? ` - retrying ${new Date(circuit.retryAt).toLocaleTimeString()}` : ''}`;
+    case 'half_open':
+      return 'Circuit half-open - testing recovery';
+    default:
+      return circuit.failureCount > 0 ? `Circuit closed (${circuit.failureCount} recent failures)` : null;
+  }
+}
+
+function getIdentifier(connection: PmsConnectionSummary): { label: string; value: string | null } {
+  switch (connection.pmsType) {
+    case 'gentu':
+      return { label: 'Tenant', value: connection.tenantId };
+    case 'medirecords':
+      return { label: 'Practice', value: connection.practiceId };
+    case 'halaxy':
+      return { label: 'Organization', value: connection.organizationId };
+  }
+}
+
+export function ConnectionCard({ connection, onChanged }: ConnectionCardProps) {
+  const [testing, setTesting] = useState(false);
+  const [healthResult, setHealthResult] = useState<HealthCheckResult | null>(null);
+  const [updating, setUpdating] = useState(false);
+
+  const identifier = getIdentifier(connection);
+
+  async function handleTest() {
+    setTesting(true);
+    setHealthResult(null);
+    try {
+      const response = await fetch(`/api/pms/connections/${connection.id}/test`, { method: 'POST' });
+      const data = await response.json();
+      setHealthResult(
+        response.ok ? data.data : { healthy: false, message: data.error || 'Health check failed' }
+      );
+    } catch (error) {
+      console.error('Error testing PMS connection:', error);
+      setHealthResult({ healthy: false, message: 'Health check failed' });
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  async function handleToggle(field: 'syncEnabled' | 'syncTelehealthOnly', value: boolean) {
+    setUpdating(true);
+    try {
+      await fetch(`/api/pms/connections/${connection.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [field]: value }),
+      });
+      onChanged();
+    } catch (error) {
+      console.error('Error updating PMS connection:', error);
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function handleWebhookSecret() {
+    if (
+      connection.hasWebhookSecret &&
+      !confirm('Issue a new webhook secret? The PMS will need the new secret before its webhooks are accepted again.')
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/pms/connections/${connection.id}/webhook-secret`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to issue webhook secret');
+        return;
+      }
+
+      alert(`Webhook URL: ${data.data.url}\nSigning secret: ${data.data.secret}\n\nCopy the secret now - it won't be shown again.`);
+      onChanged();
+    } catch (error) {
+      console.error('Error issuing webhook secret:', error);
+    }
+  }
+
+  async function handleDelete() {
+    if (!confirm(`Delete the ${connection.displayName} connection? Synced appointments stay on their run sheets.`)) {
+      return;
+    }
+
+    try {
+      await fetch(`/api/pms/connections/${connection.id}`, { method: 'DELETE' });
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting PMS connection:', error);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg">{connection.displayName}</CardTitle>
+            <CardDescription className="mt-1">
+              {identifier.label}: {identifier.value || <span className="text-amber-600">not set</span>}
+            </CardDescription>
+          </div>
+          <Badge variant="secondary">{PMS_TYPE_LABELS[connection.pmsType]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="text-sm space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Last sync:</span>
+              {connection.lastSyncStatus ? (
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${SYNC_STATUS_STYLES[connection.lastSyncStatus]}`}>
+                  {connection.lastSyncStatus}
+                </span>
+              ) : (
+                <span className="text-muted-foreground">never</span>
+              )}
+              {connection.lastSyncAt && (
+                <span className="text-muted-foreground">
+                  {formatDistanceToNow(new Date(connection.lastSyncAt), { addSuffix: true })}
+                </span>
+              )}
+            </div>
+            {connection.lastSyncError && (
+              <p className="text-red-600 bg-red-50 rounded px-2 py-1 break-words">
+                {connection.lastSyncError}
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              Syncs every {connection.syncFrequencyMinutes} minutes · {PRACTICE_TIMEZONES[connection.timezone] ?? connection.timezone}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`syncEnabled-${connection.id}`}
+                checked={connection.syncEnabled}
+                disabled={updating}
+                onCheckedChange={(checked) => handleToggle('syncEnabled', checked === true)}
+              />
+              <Label htmlFor={`syncEnabled-${connection.id}`} className="font-normal">
+                Sync automatically
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`syncTelehealthOnly-${connection.id}`}
+                checked={connection.syncTelehealthOnly}
+                disabled={updating}
+                onCheckedChange={(checked) => handleToggle('syncTelehealthOnly', checked === true)}
+              />
+              <Label htmlFor={`syncTelehealthOnly-${connection.id}`} className="font-normal">
+                Telehealth appointments only
+              </Label>
+            </div>
+          </div>
+
+          {healthResult && (
+            <p className={`text-sm ${healthResult.healthy ? 'text-green-700' : 'text-red-600'}`}>
+              {healthResult.message || (healthResult.healthy ? 'Connection healthy' : 'Connection unhealthy')}
+              {healthResult.latencyMs !== undefined && ` (${healthResult.latencyMs}ms)`}
+              {healthResult.circuit && describeCircuit(healthResult.circuit) && (
+                <span className={`block ${healthResult.circuit.state === 'closed' ? 'text-gray-500' : 'text-amber-700'}`}>
+                  {describeCircuit(healthResult.circuit)}
+                </span>
+              )}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleTest} disabled={testing}>
+              <Activity className="w-4 h-4 mr-2" />
+              {testing ? 'Testing...' : 'Test'}
+            </Button>
+            {connection.pmsType === 'gentu' && (
+              <PairingDialog
+                connectionId={connection.id}
+                isPaired={!!connection.tenantId}
+                onPaired={onChanged}
+              />
+            )}
+            {connection.pmsType === 'gentu' && (
+              <Button variant="outline" size="sm" onClick={handleWebhookSecret}>
+                <Webhook className="w-4 h-4 mr-2" />
+                {connection.hasWebhookSecret ? 'New webhook secret' : 'Set up webhooks'}
+              </Button>
+            )}
+            <Link href={`/pms-connections/${connection.id}/clinicians`}>
+              <Button variant="outline" size="sm">
+                <Users className="w-4 h-4 mr-2" />
+                Clinicians
+              </Button>
+            </Link>
+            <Link href={`/pms-connections/${connection.id}/appointment-types`}>
+              <Button variant="outline" size="sm">
+                <Tags className="w-4 h-4 mr-2" />
+                Types
+              </Button>
+            </Link>
+            <Link href={`/pms-connections/${connection.id}/sync`}>
+              <Button variant="outline" size="sm">
+                <History className="w-4 h-4 mr-2" />
+                Sync history
+              </Button>
+            </Link>
+            <ConnectionFormDialog
+              connection={connection}
+              onSaved={onChanged}
+              trigger={
+                <Button variant="outline" size="sm">
+                  <Edit className="w-4 h-4 mr-2" />
+                  Edit
+                </Button>
+              }
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDelete}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PMS_TYPE_LABELS, PRACTICE_TIMEZONES, type PmsConnectionSummary, type PmsType } from './types';
+
+interface ConnectionFormDialogProps {
+  connection?: PmsConnectionSummary;
+  trigger: React.ReactNode;
+  onSaved: () => void;
+}
+
+interface FormState {
+  pmsType: PmsType;
+  displayName: string;
+  practiceId: string;
+  organizationId: string;
+  timezone: string;
+  syncFrequencyMinutes: string;
+  syncEnabled: boolean;
+  syncTelehealthOnly: boolean;
+  journalRequests: boolean;
+}
+
+function initialState(connection?: PmsConnectionSummary): FormState {
+  return {
+    pmsType: connection?.pmsType ?? 'gentu',
+    displayName: connection?.displayName ?? '',
+    practiceId: connection?.practiceId ?? '',
+    organizationId: connection?.organizationId ?? '',
+    timezone: connection?.timezone ?? 'Australia/Melbourne',
+    syncFrequencyMinutes: String(connection?.syncFrequencyMinutes ?? 15),
+    syncEnabled: connection?.syncEnabled ?? true,
+    syncTelehealthOnly: connection?.syncTelehealthOnly ?? true,
+    journalRequests: connection?.journalRequests ?? false,
+  };
+}
+
+export function ConnectionFormDialog({ connection, trigger, onSaved }: ConnectionFormDialogProps) {
+  const isEdit = !!connection;
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<FormState>(() => initialState(connection));
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset form whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForm(initialState(connection));
+      setError(null);
+    }
+  }, [open, connection]);
+
+  function updateField<K extends keyof FormState>(field: K, value: FormState[K]) {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (!form.displayName.trim()) {
+      setError('Display name is required');
+      return;
+    }
+
+    const payload: Record<string, unknown> = {
+      displayName: form.displayName.trim(),
+      timezone: form.timezone,
+      syncFrequencyMinutes: parseInt(form.syncFrequencyMinutes) || 15,
+      syncEnabled: form.syncEnabled,
+      syncTelehealthOnly: form.syncTelehealthOnly,
+      journalRequests: form.journalRequests,
+    };
+    if (form.pmsType === 'medirecords') payload.practiceId = form.practiceId.trim() || null;
+    if (form.pmsType === 'halaxy') payload.organizationId = form.organizationId.trim() || null;
+    if (!isEdit) payload.pmsType = form.pmsType;
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(
+        isEdit ? `/api/pms/connections/${connection.id}` : '/api/pms/connections',
+        {
+          method: isEdit ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.errors?.[0]?.message || data.error || 'Failed to save connection');
+        return;
+      }
+
+      setOpen(false);
+      onSaved();
+    } catch (err) {
+      console.error('Error saving PMS connection:', err);
+      setError('Failed to save connection');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Edit PMS Connection' : 'Add PMS Connection'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Practice management system</Label>
+            <Select
+              value={form.pmsType}
+              onValueChange={(value) => updateField('pmsType', value as PmsType)}
+              disabled={isEdit}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PMS_TYPE_LABELS) as PmsType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {PMS_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="displayName">Display name</Label>
+            <Input
+              id="displayName"
+              value={form.displayName}
+              onChange={(e) => updateField('displayName', e.target.value)}
+              placeholder="e.g. Smith Medical Centre"
+            />
+          </div>
+
+          {form.pmsType === 'gentu' && !isEdit && (
+            <p className="text-sm text-gray-500">
+              After saving, pair the connection using the pairing code from Gentu.
+            </p>
+          )}
+
+          {form.pmsType === 'medirecords' && (
+            <div className="space-y-2">
+              <Label htmlFor="practiceId">Practice ID</Label>
+              <Input
+                id="practiceId"
+                value={form.practiceId}
+                onChange={(e) => updateField('practiceId', e.target.value)}
+                placeholder="Medirecords practice GUID"
+              />
+            </div>
+          )}
+
+          {form.pmsType === 'halaxy' && (
+            <div className="space-y-2">
+              <Label htmlFor="organizationId">Organization ID</Label>
+              <Input
+                id="organizationId"
+                value={form.organizationId}
+                onChange={(e) => updateField('organizationId', e.target.value)}
+                placeholder="e.g. ORG-1001"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Practice timezone</Label>
+            <Select value={form.timezone} onValueChange={(value) => updateField('timezone', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Keep a timezone set elsewhere (e.g. from Gentu pairing) selectable */}
+                {!(form.timezone in PRACTICE_TIMEZONES) && (
+                  <SelectItem value={form.timezone}>{form.timezone}</SelectItem>
+                )}
+                {Object.entries(PRACTICE_TIMEZONES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="syncFrequencyMinutes">Sync every (minutes)</Label>
+            <Input
+              id="syncFrequencyMinutes"
+              type="number"
+              min={5}
+              max={1440}
+              value={form.syncFrequencyMinutes}
+              onChange={(e) => updateField('syncFrequencyMinutes', e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="syncEnabled"
+              checked={form.syncEnabled}
+              onCheckedChange={(checked) => updateField('syncEnabled', checked === true)}
+            />
+            <Label htmlFor="syncEnabled" className="font-normal">
+              Sync automatically
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="syncTelehealthOnly"
+              checked={form.syncTelehealthOnly}
+              onCheckedChange={(checked) => updateField('syncTelehealthOnly', checked === true)}
+            />
+            <Label htmlFor="syncTelehealthOnly" className="font-normal">
+              Only sync telehealth appointments
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="journalRequests"
+              checked={form.journalRequests}
+              onCheckedChange={(checked) => updateField('journalRequests', checked === true)}
+            />
+            <Label htmlFor="journalRequests" className="font-normal">
+              Record PMS requests for troubleshooting (patient details redacted)
+            </Label>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Connection'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Merge } from 'lucide-react';
+
+interface Clinician {
+  id: string;
+  name: string;
+}
+
+interface MergeCliniciansDialogProps {
+  clinicians: Clinician[];
+  onMerged: () => void;
+}
+
+export function MergeCliniciansDialog({ clinicians, onMerged }: MergeCliniciansDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [sourceId, setSourceId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const source = clinicians.find((c) => c.id === sourceId);
+  const target = clinicians.find((c) => c.id === targetId);
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next);
+    if (next) {
+      setSourceId('');
+      setTargetId('');
+      setError(null);
+    }
+  }
+
+  async function handleMerge() {
+    if (!source || !target) return;
+    if (!confirm(`Merge "${source.name}" into "${target.name}"? "${source.name}" will be deleted.`)) return;
+
+    setError(null);
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch('/api/run-sheet/clinicians/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceClinicianId: sourceId, targetClinicianId: targetId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.errors?.[0]?.message || data.error || 'Failed to merge clinicians');
+        return;
+      }
+
+      alert(
+        `Merged: ${data.data.appointmentsMoved} appointment(s), ${data.data.invitesMoved} invite(s) and ${data.data.mappingsMoved} PMS mapping(s) moved`
+      );
+      setOpen(false);
+      onMerged();
+    } catch (err) {
+      console.error('Error merging clinicians:', err);
+      setError('Failed to merge clinicians');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Merge className="w-4 h-4 mr-2" />
+          Merge Clinicians
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicate Clinicians</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Appointments, invites and PMS mappings move to the clinician you keep.
+            The duplicate is then deleted.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Duplicate to remove</Label>
+            <Select value={sourceId} onValueChange={setSourceId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select clinician" />
+              </SelectTrigger>
+              <SelectContent>
+                {clinicians.map((clinician) => (
+                  <SelectItem key={clinician.id} value={clinician.id} disabled={clinician.id === targetId}>
+                    {clinician.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Clinician to keep</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select clinician" />
+              </SelectTrigger>
+              <SelectContent>
+                {clinicians.map((clinician) => (
+                  <SelectItem key={clinician.id} value={clinician.id} disabled={clinician.id === sourceId}>
+                    {clinician.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isSubmitting || !source || !target}>
+              {isSubmitting ? 'Merging...' : 'Merge'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
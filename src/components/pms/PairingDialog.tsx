@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Link2 } from 'lucide-react';
+
+interface PairingDialogProps {
+  connectionId: string;
+  isPaired: boolean;
+  onPaired: () => void;
+}
+
+export function PairingDialog({ connectionId, isPaired, onPaired }: PairingDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [pairingCode, setPairingCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(`/api/pms/connections/${connectionId}/pair`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pairingCode }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.errors?.[0]?.message || data.error || 'Failed to pair connection');
+        return;
+      }
+
+      alert(`Paired with ${data.tenant?.tenantName || 'Gentu tenant'}`);
+      setOpen(false);
+      setPairingCode('');
+      onPaired();
+    } catch (err) {
+      console.error('Error pairing PMS connection:', err);
+      setError('Failed to pair connection');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Link2 className="w-4 h-4 mr-2" />
+          {isPaired ? 'Re-pair' : 'Pair'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pair with Gentu</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            In Gentu, open the Marketplace and click &quot;Add to Gentu&quot; on the Coviu listing
+            to get an 8-character pairing code. Codes can only be used once.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="pairingCode">Pairing code</Label>
+            <Input
+              id="pairingCode"
+              value={pairingCode}
+              onChange={(e) => setPairingCode(e.target.value)}
+              placeholder="e.g. ABCD1234"
+              autoComplete="off"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !pairingCode.trim()}>
+              {isSubmitting ? 'Pairing...' : 'Pair'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { SYNC_STATUS_STYLES, type PmsSyncRun } from './types';
+
+interface SyncHistoryPanelProps {
+  connectionId: string;
+  onSynced?: () => void;
+}
+
+function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) return '-';
+  if (durationMs < 1000) return `${durationMs} ms`;
+  return `${(durationMs / 1000).toFixed(1)} s`;
+}
+
+export function SyncHistoryPanel({ connectionId, onSynced }: SyncHistoryPanelProps) {
+  const [runs, setRuns] = useState<PmsSyncRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/pms/connections/${connectionId}/sync`);
+      const data = await response.json();
+      if (response.ok) {
+        setRuns(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching sync history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [connectionId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      const response = await fetch(`/api/pms/connections/${connectionId}/sync`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        alert(result.error || 'Sync failed');
+      }
+
+      await fetchHistory();
+      onSynced?.();
+    } catch (error) {
+      console.error('Error running sync:', error);
+      alert('Failed to run sync');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Sync runs</CardTitle>
+          <CardDescription>Recent scheduled and manual syncs for this connection</CardDescription>
+        </div>
+        <Button onClick={handleSyncNow} disabled={syncing}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+          {syncing ? 'Syncing...' : 'Sync now'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground text-center py-8">Loading sync history...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No syncs have run yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Started</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Fetched</TableHead>
+                <TableHead className="text-right">Created</TableHead>
+                <TableHead className="text-right">Updated</TableHead>
+                <TableHead className="text-right">Skipped</TableHead>
+                <TableHead className="text-right">Removed</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => {
+                const hasErrors = !!run.errorMessage || (run.errorDetails?.length ?? 0) > 0;
+                const isExpanded = expandedId === run.id;
+
+                return (
+                  <Fragment key={run.id}>
+                    <TableRow
+                      className={hasErrors ? 'cursor-pointer' : undefined}
+                      onClick={() => hasErrors && setExpandedId(isExpanded ? null : run.id)}
+                    >
+                      <TableCell>
+                        {hasErrors && (isExpanded
+                          ? <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                          : <ChevronRight className="w-4 h-4 text-muted-foreground" />)}
+                      </TableCell>
+                      <TableCell>{format(new Date(run.startedAt), 'd MMM yyyy, h:mm:ss a')}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="capitalize">{run.syncType}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {run.syncMode && (
+                          <Badge
+                            variant="outline"
+                            className="capitalize"
+                            title={run.syncModeReason
+                              ?? (run.syncCursor ? `Changes since ${format(new Date(run.syncCursor), 'd MMM yyyy, h:mm:ss a')}` : undefined)}
+                          >
+                            {run.syncMode}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={`capitalize ${SYNC_STATUS_STYLES[run.status]}`}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{run.appointmentsFetched}</TableCell>
+                      <TableCell className="text-right">{run.appointmentsCreated}</TableCell>
+                      <TableCell className="text-right">{run.appointmentsUpdated}</TableCell>
+                      <TableCell className="text-right">{run.appointmentsSkipped}</TableCell>
+                      <TableCell className="text-right">{run.appointmentsRemoved}</TableCell>
+                      <TableCell className="text-right">{formatDuration(run.durationMs)}</TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={10} className="whitespace-normal">
+                          <div className="space-y-2 py-2">
+                            {(run.errorDetails ?? [{ message: run.errorMessage ?? '' }]).map((error, index) => (
+                              <div key={index} className="space-y-1">
+                                <p className="text-sm font-medium text-red-600">{error.message}</p>
+                                {error.details !== undefined && (
+                                  <pre className="text-xs bg-muted rounded p-2 overflow-x-auto max-h-64">
+                                    {JSON.stringify(error.details, null, 2)}
+                                  </pre>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
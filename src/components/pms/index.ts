@@ -0,0 +1,11 @@
+export { ConnectionCard } from './ConnectionCard';
+export { ClinicianMappingTable } from './ClinicianMappingTable';
+export type { PractitionerMapping } from './ClinicianMappingTable';
+export { AppointmentTypeTable } from './AppointmentTypeTable';
+export type { AppointmentTypeEntry } from './AppointmentTypeTable';
+export { MergeCliniciansDialog } from './MergeCliniciansDialog';
+export { ConnectionFormDialog } from './ConnectionFormDialog';
+export { PairingDialog } from './PairingDialog';
+export { SyncHistoryPanel } from './SyncHistoryPanel';
+export type { PmsConnectionSummary, PmsType, PmsSyncStatus, PmsSyncRun } from './types';
+export { PMS_TYPE_LABELS, PRACTICE_TIMEZONES, SYNC_STATUS_STYLES } from './types';
@@ -0,0 +1,68 @@
+export type PmsType = 'gentu' | 'medirecords' | 'halaxy';
+
+export type PmsSyncStatus = 'success' | 'partial' | 'failed' | 'running';
+
+export interface PmsConnectionSummary {
+  id: string;
+  pmsType: PmsType;
+  displayName: string;
+  tenantId: string | null;
+  practiceId: string | null;
+  organizationId: string | null;
+  hasAccessToken: boolean;
+  hasWebhookSecret: boolean;
+  tokenExpiresAt: string | null;
+  syncEnabled: boolean;
+  syncFrequencyMinutes: number;
+  lastSyncAt: string | null;
+  lastSyncStatus: PmsSyncStatus | null;
+  lastSyncError: string | null;
+  syncTelehealthOnly: boolean;
+  journalRequests: boolean;
+  timezone: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const PMS_TYPE_LABELS: Record<PmsType, string> = {
+  gentu: 'Gentu',
+  medirecords: 'Medirecords',
+  halaxy: 'Halaxy',
+};
+
+// Practice timezones offered when configuring a connection
+export const PRACTICE_TIMEZONES: Record<string, string> = {
+  'Australia/Perth': 'Perth (AWST)',
+  'Australia/Darwin': 'Darwin (ACST)',
+  'Australia/Adelaide': 'Adelaide (ACST/ACDT)',
+  'Australia/Brisbane': 'Brisbane (AEST)',
+  'Australia/Sydney': 'Sydney (AEST/AEDT)',
+  'Australia/Melbourne': 'Melbourne (AEST/AEDT)',
+  'Australia/Hobart': 'Hobart (AEST/AEDT)',
+};
+
+export const SYNC_STATUS_STYLES: Record<PmsSyncStatus, string> = {
+  success: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+  running: 'bg-blue-100 text-blue-800',
+};
+
+export interface PmsSyncRun {
+  id: string;
+  syncType: 'full' | 'incremental' | 'manual';
+  syncMode: 'full' | 'incremental' | null; // How the run actually fetched
+  syncCursor: string | null;
+  syncModeReason: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  status: PmsSyncStatus;
+  appointmentsFetched: number;
+  appointmentsCreated: number;
+  appointmentsUpdated: number;
+  appointmentsSkipped: number;
+  appointmentsRemoved: number;
+  durationMs: number | null;
+  errorMessage: string | null;
+  errorDetails: Array<{ message: string; details?: unknown }> | null;
+}
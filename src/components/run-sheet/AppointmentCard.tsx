@@ -1,10 +1,30 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
-import { Check, Clock, AlertCircle, Send, RotateCcw, CalendarClock, X, User } from 'lucide-react';
+import { Check, CheckCheck, Clock, AlertCircle, Send, RotateCcw, CalendarClock, X, User, UserCheck, Eye, MessageSquare, Timer } from 'lucide-react';
 import { format } from 'date-fns';
+import { ConversationDialog } from './ConversationDialog';
 
-type InviteStatus = 'none' | 'queued' | 'sent' | 'failed';
+type InviteStatus = 'none' | 'queued' | 'sent' | 'delivered' | 'undeliverable' | 'failed' | 'stale';
+
+type AppointmentStatus =
+  | 'booked'
+  | 'confirmed'
+  | 'arrived'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
+
+const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Booked',
+  confirmed: 'Confirmed',
+  arrived: 'Arrived',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No show',
+};
 
 interface Appointment {
   id: string;
@@ -17,6 +37,19 @@ interface Appointment {
   inviteId?: string | null;
   scheduledFor?: string | null;
   sentAt?: string | null;
+  deliveredAt?: string | null;
+  linkOpenedAt?: string | null;
+  inviteFailureReason?: string | null;
+  inviteAttemptCount?: number;
+  nextAttemptAt?: string | null;
+  staleReason?: string | null;
+  replyCount?: number;
+  latestReply?: { body: string; createdAt: string; replyAction: string | null } | null;
+  runningLateAt?: string | null;
+  appointmentStatus?: AppointmentStatus | null;
+  pmsAppointmentId?: string | null;
+  pmsWriteBackStatus?: 'success' | 'failed' | null;
+  pmsWriteBackError?: string | null;
 }
 
 interface AppointmentCardProps {
@@ -24,6 +57,7 @@ interface AppointmentCardProps {
   onSendInvite: () => void;
   onSendNow?: () => void;
   onRemove?: () => void;
+  onUpdateStatus?: (status: AppointmentStatus) => void;
 }
 
 export function AppointmentCard({
@@ -31,6 +65,7 @@ export function AppointmentCard({
   onSendInvite,
   onSendNow,
   onRemove,
+  onUpdateStatus,
 }: AppointmentCardProps) {
   return (
     <div className="border rounded-lg p-3 bg-white hover:bg-gray-50 transition-colors relative">
@@ -59,6 +94,17 @@ export function AppointmentCard({
             </div>
           </div>
         )}
+        {appointment.runningLateAt && (
+          <div className="relative group">
+            <span className="flex items-center gap-0.5 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-700 cursor-default">
+              <Timer className="w-3 h-3" />
+              Running late
+            </span>
+            <div className="absolute bottom-full left-0 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+              Patient replied at {format(new Date(appointment.runningLateAt), 'h:mm a')}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Clinician */}
@@ -66,17 +112,104 @@ export function AppointmentCard({
         {appointment.clinicianName || 'Unknown'}
       </div>
 
+      {/* Appointment Status */}
+      {onUpdateStatus && (
+        <AppointmentStatusDisplay
+          status={appointment.appointmentStatus ?? null}
+          writeBackStatus={appointment.pmsAppointmentId ? appointment.pmsWriteBackStatus ?? null : null}
+          writeBackError={appointment.pmsWriteBackError}
+          onUpdate={onUpdateStatus}
+        />
+      )}
+
       {/* Invite Status / Actions */}
       <div className="mt-2">
         <InviteStatusDisplay
           status={appointment.inviteStatus}
           scheduledFor={appointment.scheduledFor}
           sentAt={appointment.sentAt}
+          deliveredAt={appointment.deliveredAt}
+          linkOpenedAt={appointment.linkOpenedAt}
+          failureReason={appointment.inviteFailureReason}
+          attemptCount={appointment.inviteAttemptCount ?? 0}
+          nextAttemptAt={appointment.nextAttemptAt}
+          staleReason={appointment.staleReason}
           onSend={onSendInvite}
           onSendNow={onSendNow}
-          onResend={onSendNow}
+          onResend={onSendInvite}
         />
       </div>
+
+      {/* Patient replies */}
+      {appointment.latestReply && (
+        <ConversationDialog
+          appointmentId={appointment.id}
+          patientName={appointment.patientName}
+          trigger={
+            <button className="mt-2 flex w-full items-start gap-1.5 rounded bg-gray-50 px-2 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100">
+              <MessageSquare className="w-3 h-3 mt-0.5 shrink-0 text-blue-600" />
+              <span className="line-clamp-2 flex-1">&ldquo;{appointment.latestReply.body}&rdquo;</span>
+              {(appointment.replyCount ?? 0) > 1 && (
+                <span className="shrink-0 text-gray-500">{appointment.replyCount} replies</span>
+              )}
+            </button>
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+interface AppointmentStatusDisplayProps {
+  status: AppointmentStatus | null;
+  writeBackStatus: 'success' | 'failed' | null;
+  writeBackError?: string | null;
+  onUpdate: (status: AppointmentStatus) => void;
+}
+
+function AppointmentStatusDisplay({
+  status,
+  writeBackStatus,
+  writeBackError,
+  onUpdate,
+}: AppointmentStatusDisplayProps) {
+  const canArrive = !status || status === 'booked' || status === 'confirmed';
+  const canComplete = status === 'arrived' || status === 'in_progress';
+
+  return (
+    <div className="mt-2 flex items-center justify-between">
+      <div className="flex items-center gap-1 text-xs text-gray-600">
+        {status ? APPOINTMENT_STATUS_LABELS[status] : 'No status'}
+        {writeBackStatus === 'failed' && (
+          <div className="relative group">
+            <div className="flex items-center gap-1 text-red-600 cursor-default">
+              <AlertCircle className="w-3 h-3" />
+              Not saved to PMS
+            </div>
+            {writeBackError && (
+              <div className="absolute bottom-full left-0 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+                {writeBackError}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      {writeBackStatus === 'failed' && status ? (
+        <Button variant="ghost" size="sm" onClick={() => onUpdate(status)} className="h-6 px-2 text-xs">
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Retry
+        </Button>
+      ) : canArrive ? (
+        <Button variant="ghost" size="sm" onClick={() => onUpdate('arrived')} className="h-6 px-2 text-xs">
+          <UserCheck className="w-3 h-3 mr-1" />
+          Mark arrived
+        </Button>
+      ) : canComplete ? (
+        <Button variant="ghost" size="sm" onClick={() => onUpdate('completed')} className="h-6 px-2 text-xs">
+          <CheckCheck className="w-3 h-3 mr-1" />
+          Mark completed
+        </Button>
+      ) : null}
     </div>
   );
 }
@@ -85,6 +218,12 @@ interface InviteStatusDisplayProps {
   status: InviteStatus;
   scheduledFor?: string | null;
   sentAt?: string | null;
+  deliveredAt?: string | null;
+  linkOpenedAt?: string | null;
+  failureReason?: string | null;
+  attemptCount: number;
+  nextAttemptAt?: string | null;
+  staleReason?: string | null;
   onSend: () => void;
   onSendNow?: () => void;
   onResend?: () => void;
@@ -94,6 +233,12 @@ function InviteStatusDisplay({
   status,
   scheduledFor,
   sentAt,
+  deliveredAt,
+  linkOpenedAt,
+  failureReason,
+  attemptCount,
+  nextAttemptAt,
+  staleReason,
   onSend,
   onSendNow,
   onResend,
@@ -108,6 +253,29 @@ function InviteStatusDisplay({
       );
 
     case 'queued':
+      // Waiting out the backoff after a transient send failure
+      if (nextAttemptAt) {
+        const retryDate = new Date(nextAttemptAt);
+        return (
+          <div className="flex items-center justify-between">
+            <div className="relative group">
+              <div className="flex items-center gap-1 text-xs text-amber-600 cursor-default">
+                <RotateCcw className="w-3 h-3" />
+                <span>Retrying {format(retryDate, 'HH:mm')}</span>
+              </div>
+              <div className="absolute bottom-full left-0 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+                Attempt {attemptCount} failed{failureReason && `: ${failureReason}`}
+              </div>
+            </div>
+            {onSendNow && (
+              <Button variant="ghost" size="sm" onClick={onSendNow} className="h-6 px-2 text-xs">
+                <Send className="w-3 h-3 mr-1" />
+                Send Now
+              </Button>
+            )}
+          </div>
+        );
+      }
       // Check if this is a scheduled invite (has scheduledFor in the future)
       if (scheduledFor) {
         const scheduledDate = new Date(scheduledFor);
@@ -150,17 +318,22 @@ function InviteStatusDisplay({
       );
 
     case 'sent':
+    case 'delivered':
       const sentDate = sentAt ? new Date(sentAt) : null;
+      const deliveredDate = status === 'delivered' && deliveredAt ? new Date(deliveredAt) : null;
+      const openedDate = linkOpenedAt ? new Date(linkOpenedAt) : null;
       return (
         <div className="flex items-center justify-between">
           <div className="relative group">
             <div className="flex items-center gap-1 text-xs text-green-600 cursor-default">
-              <Check className="w-3 h-3" />
-              Sent
+              {openedDate ? <Eye className="w-3 h-3" /> : status === 'delivered' ? <CheckCheck className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+              {openedDate ? 'Link opened' : status === 'delivered' ? 'Delivered' : 'Sent'}
             </div>
             {sentDate && (
               <div className="absolute bottom-full left-0 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
                 Sent at {format(sentDate, 'h:mm a')}
+                {deliveredDate && `, delivered at ${format(deliveredDate, 'h:mm a')}`}
+                {openedDate && `, opened at ${format(openedDate, 'h:mm a')}`}
               </div>
             )}
           </div>
@@ -172,11 +345,19 @@ function InviteStatusDisplay({
       );
 
     case 'failed':
+    case 'undeliverable':
       return (
         <div className="flex items-center justify-between">
-          <div className="flex items-center gap-1 text-xs text-red-600">
-            <AlertCircle className="w-3 h-3" />
-            Failed
+          <div className="relative group">
+            <div className="flex items-center gap-1 text-xs text-red-600 cursor-default">
+              <AlertCircle className="w-3 h-3" />
+              {status === 'undeliverable' ? 'Undeliverable' : 'Failed'}
+            </div>
+            {failureReason && (
+              <div className="absolute bottom-full left-0 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+                {failureReason}
+              </div>
+            )}
           </div>
           <Button variant="ghost" size="sm" onClick={onResend} className="h-6 px-2 text-xs">
             <RotateCcw className="w-3 h-3 mr-1" />
@@ -185,6 +366,28 @@ function InviteStatusDisplay({
         </div>
       );
 
+    case 'stale':
+      // Appointment changed in the PMS after the invite was queued
+      return (
+        <div className="flex items-center justify-between">
+          <div className="relative group">
+            <div className="flex items-center gap-1 text-xs text-amber-600 cursor-default">
+              <AlertCircle className="w-3 h-3" />
+              Appointment changed
+            </div>
+            {staleReason && (
+              <div className="absolute bottom-full left-0 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
+                {staleReason}
+              </div>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onSend} className="h-6 px-2 text-xs">
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Re-queue
+          </Button>
+        </div>
+      );
+
     default:
       return null;
   }
@@ -0,0 +1,96 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+
+interface SmsThreadMessage {
+  id: string;
+  direction: 'outbound' | 'inbound';
+  body: string;
+  phoneNumber: string;
+  replyAction: string | null;
+  replyActionResult: string | null;
+  createdAt: string;
+}
+
+interface ConversationDialogProps {
+  appointmentId: string;
+  patientName: string | null;
+  trigger: React.ReactNode;
+}
+
+/**
+ * SMS thread for one appointment: the invites sent and the patient's replies
+ */
+export function ConversationDialog({ appointmentId, patientName, trigger }: ConversationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<SmsThreadMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/run-sheet/appointments/${appointmentId}/messages`);
+      const data = await response.json();
+      setMessages(data.messages || []);
+    } catch (error) {
+      console.error('Error fetching SMS messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [appointmentId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchMessages();
+    }
+  }, [open, fetchMessages]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Messages with {patientName || 'patient'}</DialogTitle>
+          <DialogDescription>
+            Replies of YES, CANCEL or LATE update the appointment automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading messages...</div>
+        ) : messages.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No messages yet</div>
+        ) : (
+          <div className="max-h-96 space-y-3 overflow-y-auto">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={message.direction === 'outbound' ? 'flex flex-col items-end' : 'flex flex-col items-start'}
+              >
+                <div
+                  className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words ${
+                    message.direction === 'outbound' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                  }`}
+                >
+                  {message.body}
+                </div>
+                <div className="mt-0.5 text-xs text-gray-500">
+                  {format(new Date(message.createdAt), 'h:mm a, d MMM')}
+                  {message.replyActionResult && ` · ${message.replyActionResult}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
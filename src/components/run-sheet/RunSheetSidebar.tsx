@@ -15,7 +15,16 @@ interface Clinician {
   name: string;
 }
 
-type InviteStatus = 'none' | 'queued' | 'sent' | 'failed';
+type InviteStatus = 'none' | 'queued' | 'sent' | 'delivered' | 'undeliverable' | 'failed' | 'stale';
+
+type AppointmentStatus =
+  | 'booked'
+  | 'confirmed'
+  | 'arrived'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
 
 interface Appointment {
   id: string;
@@ -28,6 +37,19 @@ interface Appointment {
   inviteId?: string | null;
   scheduledFor?: string | null;
   sentAt?: string | null;
+  deliveredAt?: string | null;
+  linkOpenedAt?: string | null;
+  inviteFailureReason?: string | null;
+  inviteAttemptCount?: number;
+  nextAttemptAt?: string | null;
+  staleReason?: string | null;
+  replyCount?: number;
+  latestReply?: { body: string; createdAt: string; replyAction: string | null } | null;
+  runningLateAt?: string | null;
+  appointmentStatus?: AppointmentStatus | null;
+  pmsAppointmentId?: string | null;
+  pmsWriteBackStatus?: 'success' | 'failed' | null;
+  pmsWriteBackError?: string | null;
 }
 
 interface RunSheet {
@@ -104,15 +126,29 @@ export function RunSheetSidebar() {
 
   const handleSendNow = async (inviteId: string) => {
     try {
-      await fetch(`/api/telehealth-invites/${inviteId}`, {
+      await fetch(`/api/telehealth-invites/${inviteId}/send`, { method: 'POST' });
+      // Refresh to show updated status
+      fetchData(selectedDate);
+    } catch (error) {
+      console.error('Error sending invite:', error);
+    }
+  };
+
+  const handleUpdateStatus = async (appointmentId: string, appointmentStatus: AppointmentStatus) => {
+    try {
+      const response = await fetch(`/api/run-sheet/appointments/${appointmentId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: 'sent' }),
+        body: JSON.stringify({ appointmentStatus }),
       });
+      const result = await response.json();
+      if (result.writeBack?.status === 'failed') {
+        alert(`Status saved, but the PMS could not be updated: ${result.writeBack.error}`);
+      }
       // Refresh to show updated status
       fetchData(selectedDate);
     } catch (error) {
-      console.error('Error sending invite:', error);
+      console.error('Error updating appointment status:', error);
     }
   };
 
@@ -225,6 +261,7 @@ export function RunSheetSidebar() {
                     onSendInvite={() => handleSendInvite(appt.id)}
                     onSendNow={appt.inviteId ? () => handleSendNow(appt.inviteId!) : undefined}
                     onRemove={() => handleRemoveAppointment(appt.id)}
+                    onUpdateStatus={(status) => handleUpdateStatus(appt.id, status)}
                   />
                 ))}
               </div>
@@ -22,6 +22,7 @@ import {
 } from '@/components/ui/select';
 import { Plus, Trash2, Send, ArrowLeft, CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
+import { INVITE_MESSAGE_TEMPLATE } from '@/lib/sms/invite-message';
 
 type ModalStep = 'date-selection' | 'calendar' | 'invite-entry';
 
@@ -49,9 +50,6 @@ const MINUTES_OPTIONS = [
   { value: '60', label: '60 minutes' },
 ];
 
-const MESSAGE_TEMPLATE =
-  'Hi [patient name], for your appointment with [clinician] at [time], please click on this link: [link]';
-
 function createEmptyInviteRow(): InviteRow {
   return {
     id: crypto.randomUUID(),
@@ -64,6 +62,7 @@ function createEmptyInviteRow(): InviteRow {
 
 export function TelehealthInviteModal() {
   const [clinicians, setClinicians] = useState<Clinician[]>([]);
+  const [messageTemplate, setMessageTemplate] = useState(INVITE_MESSAGE_TEMPLATE);
   const [inviteRows, setInviteRows] = useState<InviteRow[]>([createEmptyInviteRow()]);
   const [open, setOpen] = useState(false);
 
@@ -91,6 +90,7 @@ export function TelehealthInviteModal() {
   useEffect(() => {
     if (step === 'invite-entry') {
       fetchClinicians(selectedDate);
+      fetchMessageTemplate();
     }
   }, [step, selectedDate]);
 
@@ -105,6 +105,20 @@ export function TelehealthInviteModal() {
     }
   }
 
+  // Clinic default; clinician overrides are applied when each invite is sent
+  async function fetchMessageTemplate() {
+    try {
+      const response = await fetch('/api/message-templates');
+      const data = await response.json();
+      const clinicDefault = (data.data || []).find(
+        (t: { clinicianId: string | null }) => t.clinicianId === null
+      );
+      setMessageTemplate(clinicDefault?.body ?? INVITE_MESSAGE_TEMPLATE);
+    } catch (error) {
+      console.error('Error fetching message template:', error);
+    }
+  }
+
   function handleSelectToday() {
     setSelectedDate(new Date());
     setStep('invite-entry');
@@ -236,6 +250,7 @@ export function TelehealthInviteModal() {
             selectedDate={selectedDate}
             inviteRows={inviteRows}
             clinicians={clinicians}
+            messageTemplate={messageTemplate}
             scheduleBeforeAppointment={scheduleBeforeAppointment}
             minutesBefore={minutesBefore}
             isSubmitting={isSubmitting}
@@ -326,6 +341,7 @@ interface InviteEntryStepProps {
   selectedDate: Date;
   inviteRows: InviteRow[];
   clinicians: Clinician[];
+  messageTemplate: string;
   scheduleBeforeAppointment: boolean;
   minutesBefore: string;
   isSubmitting: boolean;
@@ -342,6 +358,7 @@ function InviteEntryStep({
   selectedDate,
   inviteRows,
   clinicians,
+  messageTemplate,
   scheduleBeforeAppointment,
   minutesBefore,
   isSubmitting,
@@ -367,7 +384,7 @@ function InviteEntryStep({
       </div>
 
       {/* Message Preview */}
-      <MessagePreview template={MESSAGE_TEMPLATE} />
+      <MessagePreview template={messageTemplate} />
 
       {/* Invite Rows */}
       <div className="space-y-4">
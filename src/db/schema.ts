@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, date, timestamp, pgEnum, boolean, jsonb, real, integer, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, date, timestamp, pgEnum, boolean, jsonb, real, integer, uniqueIndex, index } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 export const requestStatusEnum = pgEnum('request_status', [
@@ -127,9 +127,17 @@ export const runSheetStatusEnum = pgEnum('run_sheet_status', [
 ]);
 
 export const telehealthInviteStatusEnum = pgEnum('telehealth_invite_status', [
-  'queued',    // Waiting to be sent
-  'sent',      // Successfully sent
-  'failed',    // Failed to send
+  'queued',         // Waiting to be sent (or to be retried)
+  'sent',           // Accepted by the SMS provider
+  'failed',         // Failed to send
+  'stale',          // Appointment moved, cancelled or removed in the PMS before sending
+  'delivered',      // Carrier confirmed delivery to the handset
+  'undeliverable',  // Carrier gave up delivering it
+]);
+
+export const smsDirectionEnum = pgEnum('sms_direction', [
+  'outbound',  // Invite sent to the patient
+  'inbound',   // Patient's reply
 ]);
 
 // ============================================
@@ -155,6 +163,29 @@ export const pmsSyncTypeEnum = pgEnum('pms_sync_type', [
   'manual'
 ]);
 
+export const pmsWebhookEventStatusEnum = pgEnum('pms_webhook_event_status', [
+  'processing',
+  'processed',
+  'failed'
+]);
+
+// How a sync actually fetched: everything in range, or only changes since the cursor
+export const pmsSyncModeEnum = pgEnum('pms_sync_mode', [
+  'full',
+  'incremental'
+]);
+
+export const pmsCircuitStateEnum = pgEnum('pms_circuit_state', [
+  'closed',     // Requests flow normally
+  'open',       // PMS considered down - requests fail fast
+  'half_open'   // One trial request allowed to test recovery
+]);
+
+export const pmsWriteBackStatusEnum = pgEnum('pms_write_back_status', [
+  'success',
+  'failed'
+]);
+
 export const pmsAppointmentStatusEnum = pgEnum('pms_appointment_status', [
   'booked',
   'confirmed',
@@ -181,6 +212,9 @@ export const pmsConnections = pgTable('pms_connections', {
   refreshToken: text('refresh_token'),
   tokenExpiresAt: timestamp('token_expires_at', { withTimezone: true }),
 
+  // Shared secret the PMS signs webhooks with (encrypted like the tokens)
+  webhookSecret: text('webhook_secret'),
+
   // Sync configuration
   syncEnabled: boolean('sync_enabled').notNull().default(true),
   syncFrequencyMinutes: integer('sync_frequency_minutes').notNull().default(15),
@@ -188,9 +222,25 @@ export const pmsConnections = pgTable('pms_connections', {
   lastSyncStatus: pmsSyncStatusEnum('last_sync_status'),
   lastSyncError: text('last_sync_error'),
 
+  // Change cursor from the last successful sync - incremental runs fetch only
+  // appointments updated since `updatedSince`, for the dates it covered
+  syncCursor: jsonb('sync_cursor').$type<{
+    updatedSince: string;  // ISO timestamp
+    fullSyncAt?: string;   // ISO timestamp of the last full run, which reconciles deletions
+    dateFrom: string;      // YYYY-MM-DD
+    dateTo: string;        // YYYY-MM-DD
+    fingerprint: string;   // Sync settings the cursor was taken under
+  }>(),
+
   // Filtering
   syncTelehealthOnly: boolean('sync_telehealth_only').notNull().default(true),
 
+  // Practice timezone (IANA) - run sheet days and display times are local to it
+  timezone: varchar('timezone', { length: 64 }).notNull().default('Australia/Melbourne'),
+
+  // Diagnostics - record redacted PMS requests during syncs (pms_request_journal)
+  journalRequests: boolean('journal_requests').notNull().default(false),
+
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
@@ -239,9 +289,14 @@ export const pmsAppointmentTypes = pgTable('pms_appointment_types', {
   defaultDurationMinutes: integer('default_duration_minutes'),
   colour: varchar('colour', { length: 20 }),
 
+  // Classification suggested from the PMS flag / name keywords
+  isTelehealthSuggested: boolean('is_telehealth_suggested').notNull().default(false),
+
   // User configuration
   isTelehealth: boolean('is_telehealth').notNull().default(false),
   syncEnabled: boolean('sync_enabled').notNull().default(true),
+  telehealthConfirmedAt: timestamp('telehealth_confirmed_at', { withTimezone: true }), // null = not reviewed yet
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }),  // last catalogue sync that returned this type
 
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
@@ -256,6 +311,9 @@ export const pmsSyncLog = pgTable('pms_sync_log', {
   pmsConnectionId: uuid('pms_connection_id').references(() => pmsConnections.id, { onDelete: 'cascade' }).notNull(),
 
   syncType: pmsSyncTypeEnum('sync_type').notNull(),
+  syncMode: pmsSyncModeEnum('sync_mode'),               // null while running
+  syncCursor: timestamp('sync_cursor', { withTimezone: true }),  // updatedSince used by an incremental run
+  syncModeReason: text('sync_mode_reason'),             // Why an incremental run fell back to full
   startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
   completedAt: timestamp('completed_at', { withTimezone: true }),
 
@@ -264,6 +322,7 @@ export const pmsSyncLog = pgTable('pms_sync_log', {
   appointmentsCreated: integer('appointments_created').notNull().default(0),
   appointmentsUpdated: integer('appointments_updated').notNull().default(0),
   appointmentsSkipped: integer('appointments_skipped').notNull().default(0),
+  appointmentsRemoved: integer('appointments_removed').notNull().default(0),
 
   errorMessage: text('error_message'),
   errorDetails: jsonb('error_details'),
@@ -271,6 +330,73 @@ export const pmsSyncLog = pgTable('pms_sync_log', {
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// PMS request journal - opt-in record of every PMS call made during a sync,
+// with patient identifiers redacted before storage
+export const pmsRequestJournal = pgTable('pms_request_journal', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  pmsConnectionId: uuid('pms_connection_id').references(() => pmsConnections.id, { onDelete: 'cascade' }).notNull(),
+  syncLogId: uuid('sync_log_id').references(() => pmsSyncLog.id, { onDelete: 'cascade' }),
+
+  method: varchar('method', { length: 10 }).notNull(),
+  url: text('url').notNull(),
+  attempt: integer('attempt').notNull().default(1),
+  status: integer('status'),              // null = no response (network error)
+  latencyMs: integer('latency_ms').notNull(),
+
+  requestBody: jsonb('request_body'),
+  responseBody: jsonb('response_body'),
+  error: text('error'),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  syncLogIdx: index('pms_request_journal_sync_log_idx').on(table.syncLogId, table.createdAt),
+}));
+
+// PMS webhook events - one row per delivered event, so replays are ignored.
+// Failed events can be claimed again when the PMS retries them.
+export const pmsWebhookEvents = pgTable('pms_webhook_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  pmsConnectionId: uuid('pms_connection_id').references(() => pmsConnections.id, { onDelete: 'cascade' }).notNull(),
+
+  eventId: varchar('event_id', { length: 255 }).notNull(),
+  eventType: varchar('event_type', { length: 100 }).notNull(),
+  pmsAppointmentId: varchar('pms_appointment_id', { length: 255 }).notNull(),
+
+  status: pmsWebhookEventStatusEnum('status').notNull().default('processing'),
+  result: varchar('result', { length: 20 }),  // created/updated/skipped/removed
+  error: text('error'),
+
+  receivedAt: timestamp('received_at', { withTimezone: true }).defaultNow().notNull(),
+  processedAt: timestamp('processed_at', { withTimezone: true }),
+}, (table) => ({
+  uniqueEvent: uniqueIndex('pms_webhook_events_connection_event_idx')
+    .on(table.pmsConnectionId, table.eventId),
+}));
+
+// PMS rate limits - shared request counters so every worker and serverless
+// invocation sees the same budget. One row per limit key (connection/tenant).
+export const pmsRateLimits = pgTable('pms_rate_limits', {
+  key: varchar('key', { length: 255 }).primaryKey(),
+  minuteWindowStart: timestamp('minute_window_start', { withTimezone: true }).notNull(),
+  minuteCount: integer('minute_count').notNull().default(0),
+  hourWindowStart: timestamp('hour_window_start', { withTimezone: true }).notNull(),
+  hourCount: integer('hour_count').notNull().default(0),
+  blockedUntil: timestamp('blocked_until', { withTimezone: true }),  // From 429 Retry-After
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// PMS circuit breakers - persisted so every worker and the scheduler see
+// the same state. Keyed like pms_rate_limits (per tenant/connection).
+export const pmsCircuitBreakers = pgTable('pms_circuit_breakers', {
+  key: varchar('key', { length: 255 }).primaryKey(),
+  state: pmsCircuitStateEnum('state').notNull().default('closed'),
+  failureCount: integer('failure_count').notNull().default(0),
+  stateChangedAt: timestamp('state_changed_at', { withTimezone: true }).defaultNow().notNull(),
+  lastFailureAt: timestamp('last_failure_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 // Daily run sheet - one per day
 export const runSheets = pgTable('run_sheets', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -299,7 +425,8 @@ export const runSheetAppointments = pgTable('run_sheet_appointments', {
   clinicianId: uuid('clinician_id').references(() => runSheetClinicians.id),
   patientName: varchar('patient_name', { length: 255 }),
   patientPhone: varchar('patient_phone', { length: 50 }),
-  appointmentTime: varchar('appointment_time', { length: 20 }),
+  appointmentTime: varchar('appointment_time', { length: 20 }),  // HH:MM display, practice-local
+  appointmentStartAt: timestamp('appointment_start_at', { withTimezone: true }),  // PMS appointments only
   appointmentType: varchar('appointment_type', { length: 255 }),
   confidence: real('confidence'),
   isManualEntry: boolean('is_manual_entry').default(false),
@@ -307,12 +434,21 @@ export const runSheetAppointments = pgTable('run_sheet_appointments', {
   // PMS integration fields
   pmsConnectionId: uuid('pms_connection_id').references(() => pmsConnections.id),
   pmsAppointmentId: varchar('pms_appointment_id', { length: 255 }),
+  pmsPractitionerId: varchar('pms_practitioner_id', { length: 255 }),
   pmsLastSyncedAt: timestamp('pms_last_synced_at', { withTimezone: true }),
+  pmsRemovedAt: timestamp('pms_removed_at', { withTimezone: true }),  // No longer returned by the PMS
+  pmsChangedAt: timestamp('pms_changed_at', { withTimezone: true }),  // PMS time of the last webhook change applied
   isTelehealth: boolean('is_telehealth').default(false),
   appointmentStatus: pmsAppointmentStatusEnum('appointment_status'),
   appointmentDurationMinutes: integer('appointment_duration_minutes'),
   patientDob: date('patient_dob'),
   patientEmail: varchar('patient_email', { length: 255 }),
+  runningLateAt: timestamp('running_late_at', { withTimezone: true }),  // Patient replied LATE to their invite
+
+  // Last status push to the PMS
+  pmsWriteBackStatus: pmsWriteBackStatusEnum('pms_write_back_status'),
+  pmsWriteBackError: text('pms_write_back_error'),
+  pmsWriteBackAt: timestamp('pms_write_back_at', { withTimezone: true }),
 
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -345,6 +481,59 @@ export const telehealthInvites = pgTable('telehealth_invites', {
   sentAt: timestamp('sent_at'),
   failedAt: timestamp('failed_at'),
   failureReason: text('failure_reason'),
+  staleReason: text('stale_reason'),
+
+  // Delivery
+  claimedAt: timestamp('claimed_at'),  // Held by a dispatch run, so overlapping runs don't double-send
+  smsProvider: varchar('sms_provider', { length: 50 }),
+  providerMessageId: varchar('provider_message_id', { length: 255 }),
+  attemptCount: integer('attempt_count').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at'),  // Backoff after a transient send failure
+  deliveredAt: timestamp('delivered_at'),
+
+  // Session link sent to the patient (/join/[token])
+  linkToken: varchar('link_token', { length: 64 }).unique(),
+  linkValidFrom: timestamp('link_valid_from'),
+  linkExpiresAt: timestamp('link_expires_at'),
+  linkOpenedAt: timestamp('link_opened_at'),  // First time the patient opened it
+  linkLastOpenedAt: timestamp('link_last_opened_at'),
+  roomUrl: text('room_url'),  // Video room for this invite, handed out by the link once open
+});
+
+// SMS messages - each invite sent and every reply received, for the conversation thread
+export const smsMessages = pgTable('sms_messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  direction: smsDirectionEnum('direction').notNull(),
+
+  // Kept when the invite or appointment is deleted, so replies aren't lost
+  telehealthInviteId: uuid('telehealth_invite_id').references(() => telehealthInvites.id, { onDelete: 'set null' }),
+  runSheetAppointmentId: uuid('run_sheet_appointment_id').references(() => runSheetAppointments.id, { onDelete: 'set null' }),
+
+  phoneNumber: varchar('phone_number', { length: 50 }).notNull(),  // Patient's number, E.164
+  body: text('body').notNull(),
+  smsProvider: varchar('sms_provider', { length: 50 }),
+  providerMessageId: varchar('provider_message_id', { length: 255 }),
+
+  // What a reply's keyword did, e.g. confirmed the appointment
+  replyAction: varchar('reply_action', { length: 20 }),
+  replyActionResult: text('reply_action_result'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueProviderMessage: uniqueIndex('sms_messages_provider_message_idx')
+    .on(table.smsProvider, table.providerMessageId),
+  appointmentIdx: index('sms_messages_appointment_idx').on(table.runSheetAppointmentId),
+}));
+
+// Message templates - invite SMS text, a clinic default plus per-clinician overrides
+export const messageTemplates = pgTable('message_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clinicianId: uuid('clinician_id')
+    .references(() => runSheetClinicians.id, { onDelete: 'cascade' })
+    .unique(),  // null = the clinic default
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
 // Run sheet relations
@@ -379,14 +568,16 @@ export const runSheetAppointmentsRelations = relations(runSheetAppointments, ({
     references: [pmsConnections.id],
   }),
   telehealthInvites: many(telehealthInvites),
+  smsMessages: many(smsMessages),
 }));
 
 export const runSheetCliniciansRelations = relations(runSheetClinicians, ({ many }) => ({
   appointments: many(runSheetAppointments),
   telehealthInvites: many(telehealthInvites),
+  messageTemplates: many(messageTemplates),
 }));
 
-export const telehealthInvitesRelations = relations(telehealthInvites, ({ one }) => ({
+export const telehealthInvitesRelations = relations(telehealthInvites, ({ one, many }) => ({
   appointment: one(runSheetAppointments, {
     fields: [telehealthInvites.runSheetAppointmentId],
     references: [runSheetAppointments.id],
@@ -395,6 +586,25 @@ export const telehealthInvitesRelations = relations(telehealthInvites, ({ one })
     fields: [telehealthInvites.clinicianId],
     references: [runSheetClinicians.id],
   }),
+  smsMessages: many(smsMessages),
+}));
+
+export const smsMessagesRelations = relations(smsMessages, ({ one }) => ({
+  invite: one(telehealthInvites, {
+    fields: [smsMessages.telehealthInviteId],
+    references: [telehealthInvites.id],
+  }),
+  appointment: one(runSheetAppointments, {
+    fields: [smsMessages.runSheetAppointmentId],
+    references: [runSheetAppointments.id],
+  }),
+}));
+
+export const messageTemplatesRelations = relations(messageTemplates, ({ one }) => ({
+  clinician: one(runSheetClinicians, {
+    fields: [messageTemplates.clinicianId],
+    references: [runSheetClinicians.id],
+  }),
 }));
 
 // PMS relations
@@ -402,6 +612,8 @@ export const pmsConnectionsRelations = relations(pmsConnections, ({ many }) => (
   clinicianMappings: many(pmsClinicianMappings),
   appointmentTypes: many(pmsAppointmentTypes),
   syncLogs: many(pmsSyncLog),
+  requestJournal: many(pmsRequestJournal),
+  webhookEvents: many(pmsWebhookEvents),
   appointments: many(runSheetAppointments),
 }));
 
@@ -423,11 +635,30 @@ export const pmsAppointmentTypesRelations = relations(pmsAppointmentTypes, ({ on
   }),
 }));
 
-export const pmsSyncLogRelations = relations(pmsSyncLog, ({ one }) => ({
+export const pmsSyncLogRelations = relations(pmsSyncLog, ({ one, many }) => ({
   pmsConnection: one(pmsConnections, {
     fields: [pmsSyncLog.pmsConnectionId],
     references: [pmsConnections.id],
   }),
+  requests: many(pmsRequestJournal),
+}));
+
+export const pmsWebhookEventsRelations = relations(pmsWebhookEvents, ({ one }) => ({
+  pmsConnection: one(pmsConnections, {
+    fields: [pmsWebhookEvents.pmsConnectionId],
+    references: [pmsConnections.id],
+  }),
+}));
+
+export const pmsRequestJournalRelations = relations(pmsRequestJournal, ({ one }) => ({
+  pmsConnection: one(pmsConnections, {
+    fields: [pmsRequestJournal.pmsConnectionId],
+    references: [pmsConnections.id],
+  }),
+  syncLog: one(pmsSyncLog, {
+    fields: [pmsRequestJournal.syncLogId],
+    references: [pmsSyncLog.id],
+  }),
 }));
 
 // Type exports
@@ -451,6 +682,10 @@ export type NewRunSheetAppointment = typeof runSheetAppointments.$inferInsert;
 export type RunSheetClinician = typeof runSheetClinicians.$inferSelect;
 export type TelehealthInvite = typeof telehealthInvites.$inferSelect;
 export type NewTelehealthInvite = typeof telehealthInvites.$inferInsert;
+export type SmsMessageRow = typeof smsMessages.$inferSelect;
+export type NewSmsMessageRow = typeof smsMessages.$inferInsert;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type NewMessageTemplate = typeof messageTemplates.$inferInsert;
 export type PMSConnection = typeof pmsConnections.$inferSelect;
 export type NewPMSConnection = typeof pmsConnections.$inferInsert;
 export type PMSClinicianMapping = typeof pmsClinicianMappings.$inferSelect;
@@ -459,3 +694,6 @@ export type PMSAppointmentType = typeof pmsAppointmentTypes.$inferSelect;
 export type NewPMSAppointmentType = typeof pmsAppointmentTypes.$inferInsert;
 export type PMSSyncLog = typeof pmsSyncLog.$inferSelect;
 export type NewPMSSyncLog = typeof pmsSyncLog.$inferInsert;
+export type PMSWebhookEventRow = typeof pmsWebhookEvents.$inferSelect;
+export type PMSRequestJournalEntry = typeof pmsRequestJournal.$inferSelect;
+export type NewPMSRequestJournalEntry = typeof pmsRequestJournal.$inferInsert;
@@ -1,36 +1,82 @@
 import type {
   PMSAdapter,
   PMSConnection,
+  AppointmentStatus,
   AuthResult,
   FetchOptions,
   UnifiedAppointment,
+  UnifiedPatient,
   PMSPractitioner,
   PMSAppointmentType,
+  PMSWebhookEvent,
   HealthCheckResult,
 } from '../../types';
 import type {
+  GentuTokenResponse,
+  GentuPairingResponse,
   GentuAppointment,
+  GentuAppointmentsResponse,
   GentuPatient,
   GentuPractitioner,
   GentuAppointmentType as GentuAppointmentTypeResponse,
   GentuTenant,
+  GentuWebhookPayload,
 } from './types';
+import { PMSHttpClient, type RequestOptions } from '../../core/http-client';
+import { rateLimiter, getRateLimitKey } from '../../core/rate-limiter';
+import { withRetry, RetryableError } from '../../core/retry-handler';
+import { matchesTelehealthKeywords } from '../../core/telehealth-classifier';
+import { DataMapper } from '../../core/data-mapper';
 import {
   mockTenant,
   mockPractitioners,
   mockAppointmentTypes,
   mockPatients,
-  generateMockAppointments,
+  generateMockAppointmentsInRange,
+  findMockAppointment,
 } from './mock-data';
 
+export interface GentuAdapterOptions {
+  baseUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  useMockData?: boolean;
+}
+
+export const DEFAULT_GENTU_BASE_URL = 'https://api.pm.magentus.com/v1';
+
+// Statuses written back in mock mode, applied over the generated fixtures.
+// Module-level because getAdapter() hands out a new adapter per call.
+const mockStatuses = new Map<string, string>();
+
 export class GentuAdapter implements PMSAdapter {
   readonly pmsType = 'gentu' as const;
 
-  private readonly baseUrl = 'https://api.pm.magentus.com/v1';
-  private readonly tokenUrl = 'https://api.pm.magentus.com/v1/oauth2/token';
-
-  // For now, use mock data. Will be replaced with real API calls.
-  private useMockData = true;
+  private readonly baseUrl: string;
+  private readonly tokenUrl: string;
+  private readonly clientId?: string;
+  private readonly clientSecret?: string;
+  private readonly http: PMSHttpClient;
+  private readonly dataMapper = new DataMapper();
+
+  // Appointments endpoint accepts 5-100 per page
+  private readonly defaultPageSize = 50;
+
+  // Client credentials tokens are app-wide, not per tenant
+  private appToken: { accessToken: string; expiresAt: Date } | null = null;
+
+  // Mock mode unless GENTU_MOCK_MODE=false or overridden
+  private useMockData: boolean;
+
+  constructor(options: GentuAdapterOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? process.env.GENTU_API_BASE_URL ?? DEFAULT_GENTU_BASE_URL)
+      .replace(/\/$/, '');
+    this.tokenUrl = `${this.baseUrl}/oauth2/token`;
+    this.clientId = options.clientId ?? process.env.GENTU_CLIENT_ID;
+    this.clientSecret = options.clientSecret ?? process.env.GENTU_CLIENT_SECRET;
+    this.useMockData = options.useMockData ?? process.env.GENTU_MOCK_MODE !== 'false';
+    this.http = new PMSHttpClient('gentu', { baseUrl: this.baseUrl }, rateLimiter);
+  }
 
   /**
    * Enable/disable mock data mode
@@ -51,10 +97,21 @@ export class GentuAdapter implements PMSAdapter {
       };
     }
 
-    // Real implementation:
-    // POST to tokenUrl with Basic auth header
-    // Body: grant_type=client_credentials
-    throw new Error('Real authentication not implemented yet');
+    try {
+      const { accessToken, expiresAt } = await this.requestAppToken();
+
+      return {
+        success: true,
+        accessToken,
+        expiresAt,
+        tenantId: connection.tenantId,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
   }
 
   async refreshToken(connection: PMSConnection): Promise<AuthResult> {
@@ -84,9 +141,16 @@ export class GentuAdapter implements PMSAdapter {
       return { tenantId: mockTenant.tenantId };
     }
 
-    // Real implementation:
-    // PUT /v1/apps/{appId}/pairing/{pairingCode}
-    throw new Error('Real pairing not implemented yet');
+    if (!appId) {
+      throw new Error('GENTU_APP_ID must be set to pair Gentu tenants');
+    }
+
+    const response = await this.apiRequest<GentuPairingResponse>(
+      `/apps/${encodeURIComponent(appId)}/pairing/${encodeURIComponent(pairingCode)}`,
+      { method: 'PUT' }
+    );
+
+    return { tenantId: response.tenantId };
   }
 
   /**
@@ -98,9 +162,7 @@ export class GentuAdapter implements PMSAdapter {
       return mockTenant;
     }
 
-    // Real implementation:
-    // GET /v1/tenants/{tenantId}
-    throw new Error('Real tenant fetch not implemented yet');
+    return this.tenantRequest<GentuTenant>(tenantId, `/tenants/${tenantId}`);
   }
 
   async *fetchAppointments(
@@ -111,14 +173,12 @@ export class GentuAdapter implements PMSAdapter {
       // Simulate network delay
       await new Promise(resolve => setTimeout(resolve, 300));
 
-      // Get telehealth type IDs (in real impl, would come from database)
-      const telehealthTypeIds = new Set(['type-001', 'type-002']);
+      const telehealthTypeIds = this.resolveTelehealthTypeIds(options, mockAppointmentTypes);
 
-      const appointments = generateMockAppointments(options.dateFrom);
       const patients = mockPatients;
       const practitioners = mockPractitioners;
 
-      const unified = appointments
+      const unified = generateMockAppointmentsInRange(options.dateFrom, options.dateTo)
         .filter(appt => {
           // Filter by practitioner if specified
           if (options.practitionerIds?.length) {
@@ -129,64 +189,227 @@ export class GentuAdapter implements PMSAdapter {
           }
           return true;
         })
-        .map(appt => this.mapToUnified(appt, patients, practitioners, telehealthTypeIds, connection));
-
-      yield unified;
+        .map(appt => ({ ...appt, status: mockStatuses.get(appt.id) ?? appt.status }))
+        .map(appt => this.mapToUnified(
+          appt,
+          patients,
+          practitioners,
+          mockAppointmentTypes,
+          telehealthTypeIds,
+          connection,
+          mockTenant.timezone
+        ))
+        .filter(appt => !options.telehealthOnly || appt.isTelehealth);
+
+      // Page like the API does
+      const pageSize = options.limit ?? this.defaultPageSize;
+      for (let offset = 0; offset < unified.length; offset += pageSize) {
+        yield unified.slice(offset, offset + pageSize);
+      }
       return;
     }
 
-    // Real implementation would:
-    // 1. For each practitioner, fetch appointments with pagination
-    // 2. Use cursor for pagination
-    // 3. Yield batches as they come in
-    throw new Error('Real appointment fetch not implemented yet');
+    const tenantId = this.requireTenantId(connection);
+
+    // practitionerId is required by the API, so walk each practitioner in turn
+    const practitionerIds = options.practitionerIds?.length
+      ? options.practitionerIds
+      : (await this.fetchPractitioners(connection))
+          .filter(p => p.active && p.shownInAppointmentBook !== false)
+          .map(p => p.id);
+
+    const [tenant, appointmentTypes] = await Promise.all([
+      this.fetchTenantDetails(tenantId),
+      this.tenantRequest<GentuAppointmentTypeResponse[]>(tenantId, `/tenants/${tenantId}/appointment-types`),
+    ]);
+
+    const telehealthTypeIds = this.resolveTelehealthTypeIds(options, appointmentTypes);
+
+    const include = [
+      options.includePatients !== false ? 'patients' : null,
+      options.includePractitioners !== false ? 'practitioners' : null,
+      options.includeReferrals ? 'referrals' : null,
+    ].filter(Boolean).join(',');
+
+    const patientCache = new Map<string, GentuPatient>();
+    const practitionerCache = new Map<string, GentuPractitioner>();
+
+    for (const practitionerId of practitionerIds) {
+      let cursor: string | null = null;
+
+      do {
+        const params = new URLSearchParams({
+          practitionerId,
+          fromDate: options.dateFrom.toISOString(),
+          toDate: options.dateTo.toISOString(),
+          limit: String(Math.min(Math.max(options.limit ?? this.defaultPageSize, 5), 100)),
+        });
+        if (include) params.set('include', include);
+        if (cursor) params.set('cursor', cursor);
+
+        const page: GentuAppointmentsResponse = await this.tenantRequest<GentuAppointmentsResponse>(
+          tenantId,
+          `/tenants/${tenantId}/appointments?${params.toString()}`
+        );
+
+        page.patients?.forEach(p => patientCache.set(p.id, p));
+        page.practitioners?.forEach(p => practitionerCache.set(p.id, p));
+
+        // Fetch any patients the include didn't cover
+        for (const appointment of page.appointments) {
+          const patientId = appointment.participant.find(p => p.referenceType === 'patient')?.referenceId;
+          if (patientId && !patientCache.has(patientId)) {
+            const patient = await this.loadPatient(connection, patientId);
+            if (patient) patientCache.set(patientId, patient);
+          }
+        }
+
+        const unified = page.appointments
+          .map(appt => this.mapToUnified(
+            appt,
+            [...patientCache.values()],
+            [...practitionerCache.values()],
+            appointmentTypes,
+            telehealthTypeIds,
+            connection,
+            tenant.timezone
+          ))
+          .filter(appt => !options.telehealthOnly || appt.isTelehealth);
+
+        if (unified.length > 0) {
+          yield unified;
+        }
+
+        cursor = page.pagination.next;
+      } while (cursor);
+    }
   }
 
-  async fetchPractitioners(connection: PMSConnection): Promise<PMSPractitioner[]> {
+  /**
+   * Fetch a single patient's demographics
+   */
+  async fetchPatient(connection: PMSConnection, patientId: string): Promise<UnifiedPatient | null> {
+    const patient = await this.loadPatient(connection, patientId);
+    return patient ? this.mapPatient(patient) : null;
+  }
+
+  /**
+   * Write an appointment's status back to Gentu
+   */
+  async updateAppointmentStatus(
+    connection: PMSConnection,
+    appointmentId: string,
+    status: AppointmentStatus
+  ): Promise<void> {
+    const gentuStatus = this.toGentuStatus(status);
+
     if (this.useMockData) {
-      await new Promise(resolve => setTimeout(resolve, 150));
+      await new Promise(resolve => setTimeout(resolve, 100));
 
-      return mockPractitioners.map(p => ({
-        id: p.id,
-        name: {
-          family: p.name.family || '',
-          given: p.name.given || undefined,
-          prefix: p.name.prefix || undefined,
-        },
-        fullName: [p.name.prefix, p.name.given, p.name.family].filter(Boolean).join(' '),
-        active: p.active,
-        shownInAppointmentBook: p.shownInAppointmentBook,
-        contact: p.contact
-          .filter(c => c.value)
-          .map(c => ({
-            system: c.system as 'email' | 'phone' | 'fax',
-            value: c.value!,
-          })),
-      }));
+      if (!findMockAppointment(appointmentId)) {
+        throw new Error(`Request failed: 404 - Appointment ${appointmentId} not found`);
+      }
+      mockStatuses.set(appointmentId, gentuStatus);
+      return;
     }
 
-    // Real implementation:
-    // GET /v1/tenants/{tenantId}/practitioners
-    throw new Error('Real practitioner fetch not implemented yet');
+    const tenantId = this.requireTenantId(connection);
+
+    await this.tenantRequest<GentuAppointment>(
+      tenantId,
+      `/tenants/${tenantId}/appointments/${encodeURIComponent(appointmentId)}`,
+      { method: 'PATCH', body: JSON.stringify({ status: gentuStatus }) }
+    );
+  }
+
+  async fetchPractitioners(connection: PMSConnection): Promise<PMSPractitioner[]> {
+    const practitioners = await this.loadPractitioners(connection);
+
+    return practitioners.map(p => ({
+      id: p.id,
+      name: {
+        family: p.name.family || '',
+        given: p.name.given || undefined,
+        prefix: p.name.prefix || undefined,
+      },
+      fullName: [p.name.prefix, p.name.given, p.name.family].filter(Boolean).join(' '),
+      active: p.active,
+      shownInAppointmentBook: p.shownInAppointmentBook,
+      contact: p.contact
+        .filter(c => c.value)
+        .map(c => ({
+          system: c.system as 'email' | 'phone' | 'fax',
+          value: c.value!,
+        })),
+    }));
   }
 
   async fetchAppointmentTypes(connection: PMSConnection): Promise<PMSAppointmentType[]> {
-    if (this.useMockData) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+    const appointmentTypes = await this.loadAppointmentTypes(connection);
+
+    return appointmentTypes.map(t => ({
+      id: t.id,
+      name: t.text,
+      durationMinutes: t.duration || undefined,
+      colour: t.colour || undefined,
+      // Auto-detect telehealth based on name patterns
+      isTelehealthAutoDetected: matchesTelehealthKeywords(t.text),
+    }));
+  }
 
-      return mockAppointmentTypes.map(t => ({
-        id: t.id,
-        name: t.text,
-        durationMinutes: t.duration || undefined,
-        colour: t.colour || undefined,
-        // Auto-detect telehealth based on name patterns
-        isTelehealthAutoDetected: this.isTelehealthAppointmentType(t.text),
-      }));
+  /**
+   * Identify an appointment change notification
+   */
+  parseWebhookEvent(payload: unknown): PMSWebhookEvent | null {
+    const event = payload as Partial<GentuWebhookPayload> | null;
+    if (!event?.id || !event.tenantId || !event.type?.startsWith('appointment.') || !event.data?.appointmentId) {
+      return null;
+    }
+
+    return {
+      eventId: event.id,
+      eventType: event.type,
+      scopeId: event.tenantId,
+      appointmentId: event.data.appointmentId,
+      deleted: event.type === 'appointment.deleted' || !event.data.appointment,
+      occurredAt: event.occurredAt ? new Date(event.occurredAt) : undefined,
+      payload,
+    };
+  }
+
+  /**
+   * Map the appointment carried by a notification, looking up the
+   * patient, practitioners and types it references
+   */
+  async mapWebhookAppointment(
+    connection: PMSConnection,
+    event: PMSWebhookEvent,
+    options: Pick<FetchOptions, 'telehealthTypeIds'>
+  ): Promise<UnifiedAppointment | null> {
+    const appointment = (event.payload as GentuWebhookPayload).data.appointment;
+    if (event.deleted || !appointment) {
+      return null;
     }
 
-    // Real implementation:
-    // GET /v1/tenants/{tenantId}/appointment-types
-    throw new Error('Real appointment types fetch not implemented yet');
+    const tenantId = this.requireTenantId(connection);
+    const patientId = appointment.participant.find(p => p.referenceType === 'patient')?.referenceId;
+
+    const [tenant, appointmentTypes, practitioners, patient] = await Promise.all([
+      this.fetchTenantDetails(tenantId),
+      this.loadAppointmentTypes(connection),
+      this.loadPractitioners(connection),
+      patientId ? this.loadPatient(connection, patientId) : Promise.resolve(null),
+    ]);
+
+    return this.mapToUnified(
+      appointment,
+      patient ? [patient] : [],
+      practitioners,
+      appointmentTypes,
+      this.resolveTelehealthTypeIds(options, appointmentTypes),
+      connection,
+      tenant.timezone
+    );
   }
 
   async healthCheck(connection: PMSConnection): Promise<HealthCheckResult> {
@@ -201,27 +424,158 @@ export class GentuAdapter implements PMSAdapter {
       };
     }
 
-    // Real implementation:
-    // GET /v1/tenants/{tenantId}/status or simple endpoint
-    throw new Error('Real health check not implemented yet');
+    const start = Date.now();
+
+    try {
+      const tenantId = this.requireTenantId(connection);
+      await this.tenantRequest<unknown>(tenantId, `/tenants/${tenantId}/status`);
+
+      return {
+        healthy: true,
+        message: 'Connected to Gentu',
+        latencyMs: Date.now() - start,
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        message: `Gentu health check failed: ${error instanceof Error ? error.message : String(error)}`,
+        latencyMs: Date.now() - start,
+      };
+    }
+  }
+
+  /**
+   * Request a client credentials token and cache it for the adapter
+   */
+  private async requestAppToken(): Promise<{ accessToken: string; expiresAt: Date }> {
+    if (!this.clientId || !this.clientSecret) {
+      throw new Error('GENTU_CLIENT_ID and GENTU_CLIENT_SECRET must be set');
+    }
+
+    const response = await this.http.postForm<GentuTokenResponse>(
+      this.tokenUrl,
+      { grant_type: 'client_credentials' },
+      {
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`,
+        },
+      }
+    );
+
+    this.appToken = {
+      accessToken: response.access_token,
+      expiresAt: new Date(Date.now() + response.expires_in * 1000),
+    };
+
+    return this.appToken;
+  }
+
+  /**
+   * Get the app-wide access token, requesting a new one when missing or expired
+   */
+  private async getAccessToken(forceRefresh = false): Promise<string> {
+    if (!forceRefresh && this.appToken && this.appToken.expiresAt.getTime() > Date.now()) {
+      return this.appToken.accessToken;
+    }
+
+    return (await this.requestAppToken()).accessToken;
   }
 
   /**
-   * Check if appointment type name suggests telehealth
+   * Authenticated request against a tenant, rate limited per tenant
    */
-  private isTelehealthAppointmentType(name: string): boolean {
-    const telehealthKeywords = [
-      'telehealth',
-      'video',
-      'phone',
-      'remote',
-      'virtual',
-      'online',
-      'telemedicine',
-    ];
-
-    const lowerName = name.toLowerCase();
-    return telehealthKeywords.some(keyword => lowerName.includes(keyword));
+  private async tenantRequest<T>(tenantId: string, path: string, init: RequestOptions = {}): Promise<T> {
+    return this.apiRequest<T>(path, { ...init, rateLimitKey: getRateLimitKey('gentu', tenantId) });
+  }
+
+  /**
+   * Authenticated request. A rejected token is refreshed once and the request retried.
+   */
+  private async apiRequest<T>(path: string, init: RequestOptions = {}): Promise<T> {
+    let forceRefresh = false;
+
+    return withRetry(
+      async () => {
+        const token = await this.getAccessToken(forceRefresh);
+
+        try {
+          return await this.http.request<T>(path, { ...init, token });
+        } catch (error) {
+          if (error instanceof Error && error.message.startsWith('Request failed: 401')) {
+            this.appToken = null;
+            forceRefresh = true;
+            throw new RetryableError('Gentu rejected access token', 401);
+          }
+          throw error;
+        }
+      },
+      { maxAttempts: 2, baseDelayMs: 0 }
+    );
+  }
+
+  /**
+   * Fetch a single patient by ID (no list endpoint exists)
+   */
+  private async loadPatient(connection: PMSConnection, patientId: string): Promise<GentuPatient | null> {
+    if (this.useMockData) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return mockPatients.find(p => p.id === patientId) ?? null;
+    }
+
+    const tenantId = this.requireTenantId(connection);
+
+    try {
+      return await this.tenantRequest<GentuPatient>(tenantId, `/tenants/${tenantId}/patients/${patientId}`);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Request failed: 404')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async loadPractitioners(connection: PMSConnection): Promise<GentuPractitioner[]> {
+    if (this.useMockData) {
+      await new Promise(resolve => setTimeout(resolve, 150));
+      return mockPractitioners;
+    }
+
+    const tenantId = this.requireTenantId(connection);
+    return this.tenantRequest<GentuPractitioner[]>(tenantId, `/tenants/${tenantId}/practitioners`);
+  }
+
+  private async loadAppointmentTypes(connection: PMSConnection): Promise<GentuAppointmentTypeResponse[]> {
+    if (this.useMockData) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return mockAppointmentTypes;
+    }
+
+    const tenantId = this.requireTenantId(connection);
+    return this.tenantRequest<GentuAppointmentTypeResponse[]>(tenantId, `/tenants/${tenantId}/appointment-types`);
+  }
+
+  private requireTenantId(connection: PMSConnection): string {
+    if (!connection.tenantId) {
+      throw new Error(`Gentu connection ${connection.id} has no tenantId - pair it first`);
+    }
+    return connection.tenantId;
+  }
+
+  /**
+   * Telehealth type IDs: the stored classification when the caller has one,
+   * otherwise a name-based guess (Gentu has no telehealth flag on types)
+   */
+  private resolveTelehealthTypeIds(
+    options: Pick<FetchOptions, 'telehealthTypeIds'>,
+    appointmentTypes: GentuAppointmentTypeResponse[]
+  ): Set<string> {
+    if (options.telehealthTypeIds) {
+      return new Set(options.telehealthTypeIds);
+    }
+
+    return new Set(
+      appointmentTypes.filter(t => matchesTelehealthKeywords(t.text)).map(t => t.id)
+    );
   }
 
   /**
@@ -231,8 +585,10 @@ export class GentuAdapter implements PMSAdapter {
     appointment: GentuAppointment,
     patients: GentuPatient[],
     practitioners: GentuPractitioner[],
+    appointmentTypes: GentuAppointmentTypeResponse[],
     telehealthTypeIds: Set<string>,
-    connection: PMSConnection
+    connection: PMSConnection,
+    timezone: string | null
   ): UnifiedAppointment {
     // Find patient and provider from participants
     const patientParticipant = appointment.participant.find(p => p.referenceType === 'patient');
@@ -241,17 +597,13 @@ export class GentuAdapter implements PMSAdapter {
     const patient = patients.find(p => p.id === patientParticipant?.referenceId);
     const practitioner = practitioners.find(p => p.id === providerParticipant?.referenceId);
 
-    // Extract phone from patient contacts
-    const phone = patient?.contact.find(c => c.system === 'phone')?.value || undefined;
-    const email = patient?.contact.find(c => c.system === 'email')?.value || undefined;
-
     // Check if telehealth based on appointment type
     const isTelehealth = appointment.appointmentType.reference
       ? telehealthTypeIds.has(appointment.appointmentType.reference)
       : false;
 
     // Find appointment type name
-    const appointmentType = mockAppointmentTypes.find(
+    const appointmentType = appointmentTypes.find(
       t => t.id === appointment.appointmentType.reference
     );
 
@@ -263,24 +615,16 @@ export class GentuAdapter implements PMSAdapter {
       startTime: new Date(appointment.startAt),
       endTime: appointment.endAt ? new Date(appointment.endAt) : null,
       durationMinutes: appointment.minutesDuration,
-      timezone: mockTenant.timezone || 'Australia/Melbourne',
+      timezone: timezone || connection.timezone,
 
       isTelehealth,
       appointmentTypeName: appointmentType?.text || 'Unknown',
       appointmentTypeId: appointment.appointmentType.reference || undefined,
       status: this.mapStatus(appointment.status),
 
-      patient: {
-        pmsPatientId: patient?.id || patientParticipant?.referenceId || 'unknown',
-        fullName: patient
-          ? [patient.name.given, patient.name.family].filter(Boolean).join(' ')
-          : 'Unknown Patient',
-        firstName: patient?.name.given || undefined,
-        lastName: patient?.name.family || undefined,
-        phone,
-        email,
-        dateOfBirth: patient?.birthDate ? new Date(patient.birthDate) : undefined,
-      },
+      patient: patient
+        ? this.mapPatient(patient)
+        : { pmsPatientId: patientParticipant?.referenceId || 'unknown', fullName: 'Unknown Patient' },
 
       practitioner: {
         pmsPractitionerId: practitioner?.id || providerParticipant?.referenceId || 'unknown',
@@ -297,6 +641,21 @@ export class GentuAdapter implements PMSAdapter {
     };
   }
 
+  /**
+   * Map Gentu patient to unified demographics
+   */
+  private mapPatient(patient: GentuPatient): UnifiedPatient {
+    return {
+      pmsPatientId: patient.id,
+      fullName: [patient.name.given, patient.name.family].filter(Boolean).join(' '),
+      firstName: patient.name.given || undefined,
+      lastName: patient.name.family || undefined,
+      phone: this.dataMapper.extractPhone(patient.contact) ?? undefined,
+      email: this.dataMapper.extractEmail(patient.contact) ?? undefined,
+      dateOfBirth: patient.birthDate ? new Date(patient.birthDate) : undefined,
+    };
+  }
+
   /**
    * Map Gentu status to unified status
    */
@@ -321,6 +680,23 @@ export class GentuAdapter implements PMSAdapter {
 
     return statusMap[status.toLowerCase()] || 'booked';
   }
+
+  /**
+   * Map unified status to the status Gentu accepts on update
+   */
+  private toGentuStatus(status: AppointmentStatus): string {
+    const statusMap: Record<AppointmentStatus, string> = {
+      booked: 'booked',
+      confirmed: 'confirmed',
+      arrived: 'arrived',
+      in_progress: 'in_progress',
+      completed: 'completed',
+      cancelled: 'cancelled',
+      no_show: 'no_show',
+    };
+
+    return statusMap[status];
+  }
 }
 
 // Export types for convenience
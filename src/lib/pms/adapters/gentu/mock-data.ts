@@ -5,6 +5,7 @@ import type {
   GentuPatient,
   GentuTenant,
 } from './types';
+import { addDays, datesBetween } from '../../core/timezone';
 
 export const mockTenant: GentuTenant = {
   tenantId: '3aef91c0-ff22-47e6-942d-182cb65cbf20',
@@ -229,3 +230,35 @@ export function generateMockAppointments(date: Date): GentuAppointment[] {
     },
   ];
 }
+
+/**
+ * Mock appointments starting within an instant range. Fixture IDs repeat
+ * each day, so they're made unique per date.
+ */
+export function generateMockAppointmentsInRange(from: Date, to: Date): GentuAppointment[] {
+  // Fixtures are generated per UTC date, so pad the range by a day either side
+  const dates = datesBetween(
+    addDays(from.toISOString().slice(0, 10), -1),
+    addDays(to.toISOString().slice(0, 10), 1)
+  );
+
+  return dates
+    .flatMap(date => generateMockAppointments(new Date(`${date}T00:00:00Z`)))
+    .filter(appointment => {
+      const startAt = new Date(appointment.startAt);
+      return startAt >= from && startAt <= to;
+    })
+    .map(appointment => ({ ...appointment, id: `${appointment.id}-${appointment.startAt.slice(0, 10)}` }))
+    .sort((a, b) => a.startAt.localeCompare(b.startAt));
+}
+
+/**
+ * Look up a mock appointment by the dated ID generateMockAppointmentsInRange gives it
+ */
+export function findMockAppointment(id: string): GentuAppointment | undefined {
+  const [, fixtureId, date] = id.match(/^(.+)-(\d{4}-\d{2}-\d{2})$/) ?? [];
+  if (!fixtureId) return undefined;
+
+  const appointment = generateMockAppointments(new Date(`${date}T00:00:00Z`)).find(a => a.id === fixtureId);
+  return appointment && { ...appointment, id };
+}
@@ -0,0 +1,311 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import type {
+  GentuTokenResponse,
+  GentuPairingResponse,
+  GentuTenant,
+  GentuAppointment,
+  GentuAppointmentsResponse,
+  GentuPatient,
+  GentuPractitioner,
+  GentuAppointmentType,
+} from './types';
+import {
+  mockTenant,
+  mockPractitioners,
+  mockAppointmentTypes,
+  mockPatients,
+  generateMockAppointmentsInRange,
+  findMockAppointment,
+} from './mock-data';
+
+/**
+ * Local stand-in for the Gentu (Magentus) API.
+ *
+ * Serves the mock fixtures over HTTP with the same paths, auth and
+ * cursor pagination as the real API so the adapter's HTTP code path
+ * can be exercised without Gentu credentials.
+ */
+
+export interface GentuStubOptions {
+  port?: number;
+  appId?: string;
+  clientId?: string;
+  clientSecret?: string;
+  tenant?: GentuTenant;
+  practitioners?: GentuPractitioner[];
+  appointmentTypes?: GentuAppointmentType[];
+  patients?: GentuPatient[];
+  pairingCodes?: string[];
+  tokenTtlSeconds?: number;
+}
+
+export interface GentuStubServer {
+  baseUrl: string;
+  options: Required<GentuStubOptions>;
+  close: () => Promise<void>;
+}
+
+export const STUB_DEFAULTS: Required<GentuStubOptions> = {
+  port: 4010,
+  appId: 'stub-app',
+  clientId: 'stub-client-id',
+  clientSecret: 'stub-client-secret',
+  tenant: mockTenant,
+  practitioners: mockPractitioners,
+  appointmentTypes: mockAppointmentTypes,
+  patients: mockPatients,
+  pairingCodes: ['ABCD1234'],
+  tokenTtlSeconds: 3599,
+};
+
+const APPOINTMENT_STATUSES = new Set([
+  'booked', 'confirmed', 'arrived', 'in_progress', 'completed', 'cancelled', 'no_show',
+]);
+
+class StubHttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export async function startGentuStubServer(
+  overrides: GentuStubOptions = {}
+): Promise<GentuStubServer> {
+  const options = { ...STUB_DEFAULTS, ...overrides };
+  const pairingCodes = new Set(options.pairingCodes);
+  const issuedTokens = new Map<string, Date>();
+  const cursors = new Map<string, { key: string; offset: number }>();
+  const statuses = new Map<string, string>();
+
+  const handle = async (req: IncomingMessage): Promise<unknown> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/v1/, '');
+    const method = req.method || 'GET';
+
+    if (method === 'POST' && path === '/oauth2/token') {
+      const expected = `Basic ${Buffer.from(`${options.clientId}:${options.clientSecret}`).toString('base64')}`;
+      if (req.headers.authorization !== expected) {
+        throw new StubHttpError(401, 'Invalid client credentials');
+      }
+
+      const body = new URLSearchParams(await readBody(req));
+      if (body.get('grant_type') !== 'client_credentials') {
+        throw new StubHttpError(400, 'Unsupported grant_type');
+      }
+
+      const token = randomUUID();
+      issuedTokens.set(token, new Date(Date.now() + options.tokenTtlSeconds * 1000));
+
+      const response: GentuTokenResponse = {
+        access_token: token,
+        token_type: 'Bearer',
+        expires_in: options.tokenTtlSeconds,
+        issued_at: String(Date.now()),
+        application_name: options.appId,
+        api_product_list: '[pm-api]',
+        developer_email: 'stub@example.com',
+        status: 'approved',
+      };
+      return response;
+    }
+
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    const tokenExpiry = token ? issuedTokens.get(token) : undefined;
+    if (!tokenExpiry || tokenExpiry.getTime() <= Date.now()) {
+      throw new StubHttpError(401, 'Invalid or expired access token');
+    }
+
+    const pairingMatch = path.match(/^\/apps\/([^/]+)\/pairing\/([^/]+)$/);
+    if (pairingMatch && method === 'PUT') {
+      const [, appId, code] = pairingMatch;
+      if (appId !== options.appId) {
+        throw new StubHttpError(404, `Unknown app ${appId}`);
+      }
+      if (!pairingCodes.delete(code)) {
+        throw new StubHttpError(404, 'Pairing code not found or already used');
+      }
+
+      const response: GentuPairingResponse = {
+        message: 'Pairing successful',
+        tenantId: options.tenant.tenantId,
+      };
+      return response;
+    }
+
+    const tenantMatch = path.match(/^\/tenants\/([^/]+)(\/.*)?$/);
+    if (!tenantMatch || (method !== 'GET' && method !== 'PATCH')) {
+      throw new StubHttpError(404, `No route for ${method} ${path}`);
+    }
+
+    const [, tenantId, resource = ''] = tenantMatch;
+    if (tenantId !== options.tenant.tenantId) {
+      throw new StubHttpError(404, `Unknown tenant ${tenantId}`);
+    }
+
+    const appointmentMatch = resource.match(/^\/appointments\/([^/]+)$/);
+    if (appointmentMatch && method === 'PATCH') {
+      return updateAppointment(decodeURIComponent(appointmentMatch[1]), await readBody(req), statuses);
+    }
+    if (method !== 'GET') {
+      throw new StubHttpError(404, `No route for ${method} ${path}`);
+    }
+
+    if (resource === '') return options.tenant;
+    if (resource === '/status') return { status: 'ok' };
+    if (resource === '/practitioners') return options.practitioners;
+    if (resource === '/appointment-types') return options.appointmentTypes;
+
+    const patientMatch = resource.match(/^\/patients\/([^/]+)$/);
+    if (patientMatch) {
+      const patient = options.patients.find(p => p.id === patientMatch[1]);
+      if (!patient) throw new StubHttpError(404, `Patient ${patientMatch[1]} not found`);
+      return patient;
+    }
+
+    if (resource === '/appointments') {
+      return listAppointments(url.searchParams, options, cursors, statuses);
+    }
+
+    throw new StubHttpError(404, `No route for ${method} ${path}`);
+  };
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    handle(req)
+      .then(body => sendJson(res, 200, body))
+      .catch(error => {
+        const status = error instanceof StubHttpError ? error.status : 500;
+        sendJson(res, status, { message: error instanceof Error ? error.message : String(error) });
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, '127.0.0.1', () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    options: { ...options, port },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}
+
+/**
+ * GET /tenants/{tenantId}/appointments with the real API's required params
+ */
+function listAppointments(
+  params: URLSearchParams,
+  options: Required<GentuStubOptions>,
+  cursors: Map<string, { key: string; offset: number }>,
+  statuses: Map<string, string>
+): GentuAppointmentsResponse {
+  const practitionerId = params.get('practitionerId');
+  const fromDate = params.get('fromDate');
+  const toDate = params.get('toDate');
+  const limit = Number(params.get('limit'));
+
+  if (!practitionerId || !fromDate || !toDate) {
+    throw new StubHttpError(400, 'practitionerId, fromDate and toDate are required');
+  }
+  if (!Number.isInteger(limit) || limit < 5 || limit > 100) {
+    throw new StubHttpError(400, 'limit must be between 5 and 100');
+  }
+
+  const from = new Date(fromDate);
+  const to = new Date(toDate);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new StubHttpError(400, 'fromDate and toDate must be ISO 8601 date-times');
+  }
+
+  const matches = generateMockAppointmentsInRange(from, to)
+    .filter(appointment => appointment.participant.some(
+      p => p.referenceType === 'provider' && p.referenceId === practitionerId
+    ))
+    .map(appointment => ({ ...appointment, status: statuses.get(appointment.id) ?? appointment.status }));
+
+  const key = [practitionerId, fromDate, toDate, limit].join('|');
+  let offset = 0;
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const position = cursors.get(cursor);
+    if (!position || position.key !== key) {
+      throw new StubHttpError(400, 'Invalid cursor');
+    }
+    offset = position.offset;
+  }
+
+  const page = matches.slice(offset, offset + limit);
+  let next: string | null = null;
+  if (offset + limit < matches.length) {
+    next = randomUUID();
+    cursors.set(next, { key, offset: offset + limit });
+  }
+
+  const include = (params.get('include') || '').split(',');
+  const response: GentuAppointmentsResponse = {
+    appointments: page,
+    pagination: { next, limit },
+  };
+
+  if (include.includes('patients')) {
+    const patientIds = new Set(
+      page.flatMap(a => a.participant.filter(p => p.referenceType === 'patient').map(p => p.referenceId))
+    );
+    response.patients = options.patients.filter(p => patientIds.has(p.id));
+  }
+  if (include.includes('practitioners')) {
+    response.practitioners = options.practitioners.filter(p => p.id === practitionerId);
+  }
+  if (include.includes('referrals')) {
+    response.referrals = [];
+  }
+
+  return response;
+}
+
+/**
+ * PATCH /tenants/{tenantId}/appointments/{id} - only status can be changed
+ */
+function updateAppointment(
+  id: string,
+  rawBody: string,
+  statuses: Map<string, string>
+): GentuAppointment {
+  const appointment = findMockAppointment(id);
+  if (!appointment) {
+    throw new StubHttpError(404, `Appointment ${id} not found`);
+  }
+
+  let body: { status?: unknown };
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    throw new StubHttpError(400, 'Body must be JSON');
+  }
+  if (typeof body.status !== 'string' || !APPOINTMENT_STATUSES.has(body.status)) {
+    throw new StubHttpError(400, `Invalid status ${String(body.status)}`);
+  }
+
+  statuses.set(id, body.status);
+  return { ...appointment, status: body.status };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
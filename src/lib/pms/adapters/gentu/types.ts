@@ -120,3 +120,15 @@ export interface GentuAppointmentsResponse {
   practitioners?: GentuPractitioner[];
   referrals?: unknown[];
 }
+
+// Appointment change notification. Deleted appointments only carry their ID.
+export interface GentuWebhookPayload {
+  id: string;
+  type: 'appointment.created' | 'appointment.updated' | 'appointment.cancelled' | 'appointment.deleted';
+  tenantId: string;
+  occurredAt: string;
+  data: {
+    appointmentId: string;
+    appointment?: GentuAppointment;
+  };
+}
@@ -0,0 +1,594 @@
+import type {
+  PMSAdapter,
+  PMSConnection,
+  AuthResult,
+  FetchOptions,
+  UnifiedAppointment,
+  UnifiedPatient,
+  PMSPractitioner,
+  PMSAppointmentType,
+  HealthCheckResult,
+} from '../../types';
+import type {
+  HalaxyTokenResponse,
+  FhirBundle,
+  FhirHumanName,
+  HalaxyAppointment,
+  HalaxyPatient,
+  HalaxyPractitioner,
+  HalaxyHealthcareService,
+  HalaxyOrganization,
+  HalaxyResource,
+} from './types';
+import { PMSHttpClient } from '../../core/http-client';
+import { rateLimiter, getConnectionRateLimitKey } from '../../core/rate-limiter';
+import { withRetry, RetryableError } from '../../core/retry-handler';
+import { DataMapper } from '../../core/data-mapper';
+import { mockRequest, PARTICIPANT_STATUS_EXTENSION_URL } from './mock-data';
+
+// Resolved FHIR resources for one sync run, keyed by "Type/id"
+type ReferenceCache = Map<string, HalaxyResource | null>;
+
+export class HalaxyAdapter implements PMSAdapter {
+  readonly pmsType = 'halaxy' as const;
+  readonly supportsIncrementalSync = true;
+
+  private readonly baseUrl = 'https://au-api.halaxy.com';
+  private readonly tokenUrl = 'https://au-api.halaxy.com/main/oauth/token';
+
+  private readonly defaultPageSize = 50;
+
+  private readonly http = new PMSHttpClient('halaxy', { baseUrl: this.baseUrl }, rateLimiter);
+  private readonly dataMapper = new DataMapper();
+
+  // Tokens obtained by this adapter, keyed by connection ID
+  private tokenCache: Map<string, { accessToken: string; expiresAt: Date }> = new Map();
+
+  // For now, use mock data. Will be replaced with real API calls.
+  private useMockData = true;
+
+  /**
+   * Enable/disable mock data mode
+   */
+  setMockMode(useMock: boolean): void {
+    this.useMockData = useMock;
+  }
+
+  async authenticate(connection: PMSConnection): Promise<AuthResult> {
+    if (this.useMockData) {
+      // Simulate network delay
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      return {
+        success: true,
+        accessToken: 'mock-halaxy-token',
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+      };
+    }
+
+    return this.requestToken(connection, { grant_type: 'client_credentials' });
+  }
+
+  async refreshToken(connection: PMSConnection): Promise<AuthResult> {
+    if (this.useMockData || !connection.refreshToken) {
+      return this.authenticate(connection);
+    }
+
+    return this.requestToken(connection, {
+      grant_type: 'refresh_token',
+      refresh_token: connection.refreshToken,
+    });
+  }
+
+  async validateConnection(connection: PMSConnection): Promise<boolean> {
+    try {
+      const result = await this.healthCheck(connection);
+      return result.healthy;
+    } catch {
+      return false;
+    }
+  }
+
+  async *fetchAppointments(
+    connection: PMSConnection,
+    options: FetchOptions
+  ): AsyncGenerator<UnifiedAppointment[], void, unknown> {
+    const params = this.buildSearchParams(connection, options.limit);
+    params.append('date', `ge${options.dateFrom.toISOString()}`);
+    params.append('date', `le${options.dateTo.toISOString()}`);
+
+    // Standard FHIR search on meta.lastUpdated
+    if (options.updatedSince) {
+      params.set('_lastUpdated', `gt${options.updatedSince.toISOString()}`);
+    }
+
+    if (options.practitionerIds?.length) {
+      params.set('practitioner', options.practitionerIds.join(','));
+    }
+    if (options.includePatients) {
+      params.append('_include', 'Appointment:patient');
+    }
+    if (options.includePractitioners) {
+      params.append('_include', 'Appointment:practitioner');
+    }
+
+    const cache: ReferenceCache = new Map();
+    const telehealthTypeIds = new Set(options.telehealthTypeIds ?? []);
+
+    for await (const bundle of this.searchBundles(connection, '/main/Appointment', params)) {
+      const appointments: HalaxyAppointment[] = [];
+
+      for (const entry of bundle.entry ?? []) {
+        if (entry.search?.mode === 'include') {
+          cache.set(`${entry.resource.resourceType}/${entry.resource.id}`, entry.resource);
+        } else if (entry.resource.resourceType === 'Appointment') {
+          appointments.push(entry.resource);
+        }
+      }
+
+      const unified: UnifiedAppointment[] = [];
+      for (const appointment of appointments) {
+        const mapped = await this.mapToUnified(appointment, connection, cache, telehealthTypeIds);
+
+        if (options.telehealthOnly && !mapped.isTelehealth) {
+          continue;
+        }
+        unified.push(mapped);
+      }
+
+      if (unified.length > 0) {
+        yield unified;
+      }
+    }
+  }
+
+  async fetchPractitioners(connection: PMSConnection): Promise<PMSPractitioner[]> {
+    const practitioners = await this.searchAll<HalaxyPractitioner>(
+      connection,
+      '/main/Practitioner',
+      this.buildSearchParams(connection)
+    );
+
+    return practitioners.map(p => {
+      const name = this.pickName(p.name);
+
+      return {
+        id: p.id,
+        name: {
+          family: name?.family || '',
+          given: name?.given?.join(' ') || undefined,
+          prefix: name?.prefix?.join(' ') || undefined,
+        },
+        fullName: this.formatName(name, true),
+        active: p.active,
+        contact: (p.telecom ?? [])
+          .filter(t => t.system !== 'sms')
+          .map(t => ({
+            system: t.system as 'email' | 'phone' | 'fax',
+            value: t.value,
+          })),
+      };
+    });
+  }
+
+  async fetchAppointmentTypes(connection: PMSConnection): Promise<PMSAppointmentType[]> {
+    const services = await this.searchAll<HalaxyHealthcareService>(
+      connection,
+      '/main/HealthcareService',
+      this.buildSearchParams(connection)
+    );
+
+    return services
+      .filter(s => s.active)
+      .map(s => ({
+        id: s.id,
+        name: s.name,
+        // Halaxy flags telehealth per appointment (location-type), not per service
+        isTelehealthAutoDetected: false,
+      }));
+  }
+
+  async fetchPatient(
+    connection: PMSConnection,
+    patientId: string
+  ): Promise<UnifiedPatient | null> {
+    const patient = await this.resolveReference<HalaxyPatient>(
+      connection,
+      `/main/Patient/${patientId}`,
+      new Map()
+    );
+    return patient ? this.mapPatient(patient) : null;
+  }
+
+  async healthCheck(connection: PMSConnection): Promise<HealthCheckResult> {
+    const start = Date.now();
+
+    try {
+      const organizationId = this.requireOrganizationId(connection);
+      const organization = await this.request<HalaxyOrganization>(
+        connection,
+        `/main/Organization/${organizationId}`
+      );
+
+      return {
+        healthy: true,
+        message: this.useMockData
+          ? `Mock connection healthy (${organization.name})`
+          : `Connected to ${organization.name}`,
+        latencyMs: Date.now() - start,
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        message: `Halaxy health check failed: ${error instanceof Error ? error.message : String(error)}`,
+        latencyMs: Date.now() - start,
+      };
+    }
+  }
+
+  /**
+   * POST to the token endpoint using client credentials from the environment
+   */
+  private async requestToken(
+    connection: PMSConnection,
+    body: Record<string, string>
+  ): Promise<AuthResult> {
+    const clientId = process.env.HALAXY_CLIENT_ID;
+    const clientSecret = process.env.HALAXY_CLIENT_SECRET;
+
+    if (!clientId || !clientSecret) {
+      return {
+        success: false,
+        error: 'HALAXY_CLIENT_ID and HALAXY_CLIENT_SECRET must be set',
+      };
+    }
+
+    try {
+      const response = await this.http.postForm<HalaxyTokenResponse>(this.tokenUrl, body, {
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        },
+        rateLimitKey: getConnectionRateLimitKey(connection),
+      });
+
+      const expiresAt = new Date(Date.now() + response.expires_in * 1000);
+      this.tokenCache.set(connection.id, { accessToken: response.access_token, expiresAt });
+
+      return {
+        success: true,
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token,
+        expiresAt,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Get an access token, preferring the stored connection token while it is valid
+   */
+  private async getAccessToken(
+    connection: PMSConnection,
+    forceRefresh = false
+  ): Promise<string> {
+    const now = Date.now();
+
+    if (!forceRefresh) {
+      const cached = this.tokenCache.get(connection.id);
+      if (cached && cached.expiresAt.getTime() > now) {
+        return cached.accessToken;
+      }
+
+      if (
+        connection.accessToken &&
+        connection.tokenExpiresAt &&
+        new Date(connection.tokenExpiresAt).getTime() > now
+      ) {
+        return connection.accessToken;
+      }
+    }
+
+    const result = await this.refreshToken(connection);
+    if (!result.success || !result.accessToken) {
+      throw new Error(`Halaxy authentication failed: ${result.error || 'Unknown error'}`);
+    }
+
+    return result.accessToken;
+  }
+
+  /**
+   * Authenticated GET (or fixture lookup in mock mode).
+   * A rejected token is refreshed once and the request retried.
+   */
+  private async request<T>(connection: PMSConnection, url: string): Promise<T> {
+    if (this.useMockData) {
+      // Simulate network delay
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return mockRequest(url) as T;
+    }
+
+    let forceRefresh = false;
+
+    return withRetry(
+      async () => {
+        const token = await this.getAccessToken(connection, forceRefresh);
+
+        try {
+          return await this.http.get<T>(url, {
+            token,
+            headers: { Accept: 'application/fhir+json' },
+            rateLimitKey: getConnectionRateLimitKey(connection),
+          });
+        } catch (error) {
+          if (error instanceof Error && error.message.startsWith('Request failed: 401')) {
+            this.tokenCache.delete(connection.id);
+            forceRefresh = true;
+            throw new RetryableError('Halaxy rejected access token', 401);
+          }
+          throw error;
+        }
+      },
+      { maxAttempts: 2, baseDelayMs: 0 }
+    );
+  }
+
+  /**
+   * Organization-scoped search params shared by all list requests
+   */
+  private buildSearchParams(connection: PMSConnection, count?: number): URLSearchParams {
+    return new URLSearchParams({
+      organization: this.requireOrganizationId(connection),
+      _count: String(count ?? this.defaultPageSize),
+    });
+  }
+
+  /**
+   * Follow Bundle.link[next] until the search is exhausted
+   */
+  private async *searchBundles(
+    connection: PMSConnection,
+    path: string,
+    params: URLSearchParams
+  ): AsyncGenerator<FhirBundle<HalaxyResource>, void, unknown> {
+    let url: string | undefined = `${path}?${params.toString()}`;
+
+    while (url) {
+      const bundle: FhirBundle<HalaxyResource> = await this.request(connection, url);
+      yield bundle;
+
+      url = bundle.link?.find(l => l.relation === 'next')?.url;
+    }
+  }
+
+  /**
+   * Collect every matched resource across all pages of a search
+   */
+  private async searchAll<T extends HalaxyResource>(
+    connection: PMSConnection,
+    path: string,
+    params: URLSearchParams
+  ): Promise<T[]> {
+    const resources: T[] = [];
+
+    for await (const bundle of this.searchBundles(connection, path, params)) {
+      for (const entry of bundle.entry ?? []) {
+        if (entry.search?.mode !== 'include') {
+          resources.push(entry.resource as T);
+        }
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Resolve a reference like "/main/Patient/123", using the per-run cache
+   */
+  private async resolveReference<T extends HalaxyResource>(
+    connection: PMSConnection,
+    reference: string,
+    cache: ReferenceCache
+  ): Promise<T | null> {
+    const parsed = this.parseReference(reference);
+    if (!parsed) return null;
+
+    const key = `${parsed.type}/${parsed.id}`;
+    if (cache.has(key)) {
+      return (cache.get(key) as T | null) ?? null;
+    }
+
+    let resource: T | null;
+    try {
+      resource = await this.request<T>(connection, `/main/${parsed.type}/${parsed.id}`);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Request failed: 404')) {
+        resource = null;
+      } else {
+        throw error;
+      }
+    }
+
+    cache.set(key, resource);
+    return resource;
+  }
+
+  /**
+   * Split "/main/Patient/123" (or "Patient/123") into type and ID
+   */
+  private parseReference(reference: string): { type: string; id: string } | null {
+    const parts = reference.split('/').filter(Boolean);
+    if (parts.length < 2) return null;
+
+    return { type: parts[parts.length - 2], id: parts[parts.length - 1] };
+  }
+
+  /**
+   * organizationId may be stored as a bare ID or a reference
+   */
+  private requireOrganizationId(connection: PMSConnection): string {
+    if (!connection.organizationId) {
+      throw new Error(`Halaxy connection ${connection.id} has no organizationId`);
+    }
+    return connection.organizationId.split('/').filter(Boolean).pop()!;
+  }
+
+  /**
+   * Prefer the official name, then usual, then whatever is first
+   */
+  private pickName(names: FhirHumanName[] | undefined): FhirHumanName | undefined {
+    if (!names?.length) return undefined;
+
+    return names.find(n => n.use === 'official')
+      ?? names.find(n => n.use === 'usual')
+      ?? names[0];
+  }
+
+  private formatName(name: FhirHumanName | undefined, includePrefix = false): string {
+    if (!name) return '';
+
+    return [
+      ...(includePrefix ? name.prefix ?? [] : []),
+      ...(name.given ?? []),
+      name.family,
+    ].filter(Boolean).join(' ');
+  }
+
+  /**
+   * Map Halaxy patient to unified demographics
+   */
+  private mapPatient(patient: HalaxyPatient): UnifiedPatient {
+    const name = this.pickName(patient.name);
+
+    return {
+      pmsPatientId: patient.id,
+      fullName: this.formatName(name) || 'Unknown Patient',
+      firstName: name?.given?.join(' ') || undefined,
+      lastName: name?.family || undefined,
+      phone: this.dataMapper.extractPhone(patient.telecom ?? []) ?? undefined,
+      email: this.dataMapper.extractEmail(patient.telecom ?? []) ?? undefined,
+      dateOfBirth: patient.birthDate ? new Date(patient.birthDate) : undefined,
+    };
+  }
+
+  /**
+   * Map Halaxy appointment to unified format
+   */
+  private async mapToUnified(
+    appointment: HalaxyAppointment,
+    connection: PMSConnection,
+    cache: ReferenceCache,
+    telehealthTypeIds: Set<string> = new Set()
+  ): Promise<UnifiedAppointment> {
+    const patientParticipant = appointment.participant.find(
+      p => p.actor.type === 'Patient' || p.actor.reference.includes('/Patient/')
+    );
+    const practitionerParticipant = appointment.participant.find(
+      p => p.actor.type === 'Practitioner' || p.actor.reference.includes('/Practitioner/')
+    );
+    const serviceInfo = appointment.supportingInformation?.find(i => i.type === 'HealthcareService');
+    const locationType = appointment.supportingInformation?.find(i => i.type === 'location-type')?.value;
+
+    const [patient, practitioner, service] = await Promise.all([
+      patientParticipant
+        ? this.resolveReference<HalaxyPatient>(connection, patientParticipant.actor.reference, cache)
+        : null,
+      practitionerParticipant
+        ? this.resolveReference<HalaxyPractitioner>(connection, practitionerParticipant.actor.reference, cache)
+        : null,
+      serviceInfo?.reference
+        ? this.resolveReference<HalaxyHealthcareService>(connection, serviceInfo.reference, cache)
+        : null,
+    ]);
+
+    const practitionerName = this.pickName(practitioner?.name);
+    const participantStatus = patientParticipant?.extension?.find(
+      e => e.url === PARTICIPANT_STATUS_EXTENSION_URL
+    )?.valueCode;
+
+    const startTime = new Date(appointment.start);
+    const endTime = appointment.end ? new Date(appointment.end) : null;
+    const serviceId = serviceInfo?.reference
+      ? this.parseReference(serviceInfo.reference)?.id
+      : undefined;
+
+    return {
+      pmsType: 'halaxy',
+      pmsAppointmentId: appointment.id,
+      pmsConnectionId: connection.id,
+
+      startTime,
+      endTime,
+      durationMinutes: appointment.minutesDuration
+        ?? (endTime ? Math.round((endTime.getTime() - startTime.getTime()) / 60000) : null),
+      timezone: connection.timezone,
+
+      // Location type is per booking; staff-classified services also count
+      isTelehealth: locationType === 'telehealth' || (!!serviceId && telehealthTypeIds.has(serviceId)),
+      appointmentTypeName: service?.name || serviceInfo?.display || 'Unknown',
+      appointmentTypeId: serviceId,
+      status: this.mapStatus(appointment.status, participantStatus),
+
+      patient: patient
+        ? this.mapPatient(patient)
+        : {
+            pmsPatientId: (patientParticipant ? this.parseReference(patientParticipant.actor.reference)?.id : undefined)
+              || 'unknown',
+            fullName: 'Unknown Patient',
+          },
+
+      practitioner: {
+        pmsPractitionerId: practitioner?.id
+          || (practitionerParticipant ? this.parseReference(practitionerParticipant.actor.reference)?.id : undefined)
+          || 'unknown',
+        fullName: this.formatName(practitionerName, true) || 'Unknown Practitioner',
+        firstName: practitionerName?.given?.join(' ') || undefined,
+        lastName: practitionerName?.family || undefined,
+      },
+
+      notes: appointment.description || undefined,
+      fetchedAt: new Date(),
+      rawData: appointment as unknown as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Map FHIR appointment status (refined by the patient's participant status) to unified status
+   */
+  private mapStatus(
+    status: HalaxyAppointment['status'],
+    participantStatus?: string
+  ): UnifiedAppointment['status'] {
+    // A plain "booked" appointment carries attendance in the participant extension
+    if (status === 'booked' && participantStatus) {
+      const participantMap: Record<string, UnifiedAppointment['status']> = {
+        'booked': 'booked',
+        'confirmed': 'confirmed',
+        'attended': 'completed',
+        'cancelled': 'cancelled',
+      };
+      return participantMap[participantStatus] || 'booked';
+    }
+
+    const statusMap: Record<string, UnifiedAppointment['status']> = {
+      'proposed': 'booked',
+      'pending': 'booked',
+      'booked': 'booked',
+      'waitlist': 'booked',
+      'arrived': 'arrived',
+      'checked-in': 'arrived',
+      'fulfilled': 'completed',
+      'cancelled': 'cancelled',
+      'entered-in-error': 'cancelled',
+      'noshow': 'no_show',
+    };
+
+    return statusMap[status] || 'booked';
+  }
+}
+
+// Export types for convenience
+export type { HalaxyPatient, HalaxyOrganization } from './types';
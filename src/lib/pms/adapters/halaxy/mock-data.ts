@@ -0,0 +1,352 @@
+import type {
+  FhirBundle,
+  FhirBundleEntry,
+  HalaxyAppointment,
+  HalaxyPatient,
+  HalaxyPractitioner,
+  HalaxyHealthcareService,
+  HalaxyOrganization,
+  HalaxyResource,
+  HalaxyLocationType,
+  HalaxyParticipantStatus,
+} from './types';
+
+const MOCK_BASE_URL = 'https://au-api.halaxy.com';
+
+export const PARTICIPANT_STATUS_EXTENSION_URL =
+  'https://au-api.halaxy.com/main/StructureDefinition/appointment-participant-status';
+
+export const mockOrganizations: HalaxyOrganization[] = [
+  { resourceType: 'Organization', id: 'ORG-1001', name: 'Harbourside Allied Health' },
+  { resourceType: 'Organization', id: 'ORG-1002', name: 'Northside Physiotherapy' },
+];
+
+// Practitioner ID -> organization ID
+const practitionerOrganizations: Record<string, string> = {
+  'PR-2001': 'ORG-1001',
+  'PR-2002': 'ORG-1001',
+  'EP-2003': 'ORG-1001',
+  'PR-2004': 'ORG-1002',
+};
+
+export const mockPractitioners: HalaxyPractitioner[] = [
+  {
+    resourceType: 'Practitioner',
+    id: 'PR-2001',
+    active: true,
+    name: [{ use: 'official', family: 'Harper', given: ['Mia'], prefix: ['Dr'] }],
+    telecom: [{ system: 'email', value: 'mia.harper@harbourside.example.com', use: 'work' }],
+  },
+  {
+    resourceType: 'Practitioner',
+    id: 'PR-2002',
+    active: true,
+    name: [{ use: 'official', family: 'Singh', given: ['Arjun'] }],
+    telecom: [
+      { system: 'phone', value: '0290000002', use: 'work' },
+      { system: 'email', value: 'arjun.singh@harbourside.example.com', use: 'work' },
+    ],
+  },
+  {
+    resourceType: 'Practitioner',
+    id: 'EP-2003',
+    active: false,
+    name: [{ use: 'official', family: 'Walsh', given: ['Declan'], prefix: ['Dr'] }],
+  },
+  {
+    resourceType: 'Practitioner',
+    id: 'PR-2004',
+    active: true,
+    name: [{ use: 'official', family: 'Lee', given: ['Hannah'] }],
+  },
+];
+
+export const mockHealthcareServices: HalaxyHealthcareService[] = [
+  {
+    resourceType: 'HealthcareService',
+    id: 'HS-3001',
+    active: true,
+    name: 'Psychology Session (Telehealth)',
+    providedBy: { reference: '/main/Organization/ORG-1001', type: 'Organization' },
+  },
+  {
+    resourceType: 'HealthcareService',
+    id: 'HS-3002',
+    active: true,
+    name: 'Psychology Session',
+    providedBy: { reference: '/main/Organization/ORG-1001', type: 'Organization' },
+  },
+  {
+    resourceType: 'HealthcareService',
+    id: 'HS-3003',
+    active: true,
+    name: 'Initial Assessment',
+    providedBy: { reference: '/main/Organization/ORG-1001', type: 'Organization' },
+  },
+  {
+    resourceType: 'HealthcareService',
+    id: 'HS-3004',
+    active: true,
+    name: 'Physiotherapy Treatment',
+    providedBy: { reference: '/main/Organization/ORG-1002', type: 'Organization' },
+  },
+];
+
+export const mockPatients: HalaxyPatient[] = [
+  {
+    resourceType: 'Patient',
+    id: '100000001',
+    active: true,
+    name: [{ use: 'official', family: 'Thompson', given: ['Chloe'], prefix: ['Ms'] }],
+    telecom: [
+      { system: 'sms', value: '0412 111 222', use: 'mobile' },
+      { system: 'email', value: 'chloe.thompson@email.com' },
+    ],
+    gender: 'female',
+    birthDate: '1992-04-18',
+  },
+  {
+    resourceType: 'Patient',
+    id: '100000002',
+    active: true,
+    name: [
+      { use: 'usual', family: 'Park', given: ['Dan'] },
+      { use: 'official', family: 'Park', given: ['Daniel', 'Joon'], prefix: ['Mr'] },
+    ],
+    telecom: [{ system: 'phone', value: '0298765432', use: 'home' }],
+    gender: 'male',
+    birthDate: '1981-01-27',
+  },
+  {
+    resourceType: 'Patient',
+    id: '100000003',
+    active: true,
+    name: [{ use: 'official', family: 'Fraser', given: ['Isla'] }],
+    telecom: [{ system: 'sms', value: '0455666777', use: 'mobile' }],
+    gender: 'female',
+    birthDate: '2004-06-11',
+  },
+  {
+    resourceType: 'Patient',
+    id: '100000004',
+    active: true,
+    name: [{ use: 'official', family: 'Ahmed', given: ['Omar'] }],
+    telecom: [],
+    gender: 'male',
+    birthDate: '1969-10-02',
+  },
+];
+
+interface MockAppointmentSeed {
+  id: string;
+  organizationId: string;
+  time: string;  // HH:MM at +10:00
+  minutes: number;
+  patientId: string;
+  practitionerId: string;
+  healthcareServiceId: string;
+  locationType: HalaxyLocationType;
+  status: HalaxyAppointment['status'];
+  participantStatus?: HalaxyParticipantStatus;
+  description?: string;
+}
+
+const mockAppointmentSeeds: MockAppointmentSeed[] = [
+  { id: 'APT-5001', organizationId: 'ORG-1001', time: '08:00', minutes: 50, patientId: '100000001', practitionerId: 'PR-2001', healthcareServiceId: 'HS-3001', locationType: 'telehealth', status: 'booked', participantStatus: 'confirmed' },
+  { id: 'APT-5002', organizationId: 'ORG-1001', time: '09:00', minutes: 50, patientId: '100000002', practitionerId: 'PR-2001', healthcareServiceId: 'HS-3002', locationType: 'clinic', status: 'booked', participantStatus: 'booked' },
+  { id: 'APT-5003', organizationId: 'ORG-1001', time: '10:00', minutes: 60, patientId: '100000003', practitionerId: 'PR-2002', healthcareServiceId: 'HS-3003', locationType: 'telehealth', status: 'booked', description: 'First session - send intake form' },
+  { id: 'APT-5004', organizationId: 'ORG-1001', time: '11:00', minutes: 50, patientId: '100000004', practitionerId: 'PR-2002', healthcareServiceId: 'HS-3001', locationType: 'phone', status: 'booked', participantStatus: 'booked' },
+  { id: 'APT-5005', organizationId: 'ORG-1001', time: '13:00', minutes: 50, patientId: '100000001', practitionerId: 'PR-2002', healthcareServiceId: 'HS-3001', locationType: 'telehealth', status: 'cancelled', participantStatus: 'cancelled' },
+  { id: 'APT-5006', organizationId: 'ORG-1001', time: '14:00', minutes: 50, patientId: '100000002', practitionerId: 'PR-2001', healthcareServiceId: 'HS-3001', locationType: 'telehealth', status: 'arrived', participantStatus: 'attended' },
+  { id: 'APT-5007', organizationId: 'ORG-1001', time: '15:30', minutes: 50, patientId: '100000003', practitionerId: 'PR-2001', healthcareServiceId: 'HS-3002', locationType: 'clinic', status: 'booked' },
+  { id: 'APT-6001', organizationId: 'ORG-1002', time: '09:30', minutes: 30, patientId: '100000004', practitionerId: 'PR-2004', healthcareServiceId: 'HS-3004', locationType: 'clinic', status: 'booked' },
+  { id: 'APT-6002', organizationId: 'ORG-1002', time: '10:30', minutes: 30, patientId: '100000001', practitionerId: 'PR-2004', healthcareServiceId: 'HS-3004', locationType: 'telehealth', status: 'booked' },
+];
+
+function addMinutesToTime(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = hours * 60 + mins + minutes;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Generate mock appointments for a given date (YYYY-MM-DD), optionally for one organization
+ */
+export function generateMockAppointments(
+  dateStr: string,
+  organizationId?: string | null
+): HalaxyAppointment[] {
+  return mockAppointmentSeeds
+    .filter(seed => !organizationId || seed.organizationId === organizationId)
+    .map(seed => ({
+      resourceType: 'Appointment',
+      id: `${seed.id}-${dateStr.replace(/-/g, '')}`,
+      status: seed.status,
+      description: seed.description,
+      start: `${dateStr}T${seed.time}:00+10:00`,
+      end: `${dateStr}T${addMinutesToTime(seed.time, seed.minutes)}:00+10:00`,
+      minutesDuration: seed.minutes,
+      created: `${dateStr}T00:00:00+10:00`,
+      supportingInformation: [
+        {
+          type: 'HealthcareService',
+          reference: `/main/HealthcareService/${seed.healthcareServiceId}`,
+        },
+        { type: 'location-type', value: seed.locationType },
+      ],
+      participant: [
+        {
+          actor: { reference: `/main/Patient/${seed.patientId}`, type: 'Patient' },
+          status: 'accepted',
+          extension: seed.participantStatus
+            ? [{ url: PARTICIPANT_STATUS_EXTENSION_URL, valueCode: seed.participantStatus }]
+            : undefined,
+        },
+        {
+          actor: { reference: `/main/Practitioner/${seed.practitionerId}`, type: 'Practitioner' },
+          status: 'accepted',
+        },
+      ],
+    }));
+}
+
+/**
+ * Build a searchset bundle page with a next link when more results remain
+ */
+function buildBundle<T extends HalaxyResource>(
+  url: URL,
+  matches: T[],
+  included: HalaxyResource[] = []
+): FhirBundle<HalaxyResource> {
+  const count = parseInt(url.searchParams.get('_count') ?? '20', 10);
+  const page = parseInt(url.searchParams.get('_page') ?? '1', 10);
+  const pageMatches = matches.slice((page - 1) * count, page * count);
+
+  const link: FhirBundle<HalaxyResource>['link'] = [{ relation: 'self', url: url.toString() }];
+  if (page * count < matches.length) {
+    const next = new URL(url.toString());
+    next.searchParams.set('_page', String(page + 1));
+    link.push({ relation: 'next', url: next.toString() });
+  }
+
+  const entry: FhirBundleEntry<HalaxyResource>[] = [
+    ...pageMatches.map(resource => ({
+      fullUrl: `${MOCK_BASE_URL}/main/${resource.resourceType}/${resource.id}`,
+      resource,
+      search: { mode: 'match' as const },
+    })),
+    ...included.map(resource => ({
+      fullUrl: `${MOCK_BASE_URL}/main/${resource.resourceType}/${resource.id}`,
+      resource,
+      search: { mode: 'include' as const },
+    })),
+  ];
+
+  return { resourceType: 'Bundle', type: 'searchset', total: matches.length, link, entry };
+}
+
+/**
+ * Parse FHIR date search params (e.g. date=ge2025-01-01T00:00:00Z) into bounds
+ */
+function parseDateBounds(url: URL): { from: number; to: number } {
+  let from = -Infinity;
+  let to = Infinity;
+
+  for (const value of url.searchParams.getAll('date')) {
+    const prefix = value.slice(0, 2);
+    const time = new Date(value.slice(2)).getTime();
+    if (prefix === 'ge' || prefix === 'gt') from = time;
+    if (prefix === 'le' || prefix === 'lt') to = time;
+  }
+
+  return { from, to };
+}
+
+function notFound(path: string): never {
+  throw new Error(`Request failed: 404 - ${path} not found`);
+}
+
+/**
+ * Serve a Halaxy API GET from fixtures, mirroring the real response shapes
+ */
+export function mockRequest(requestUrl: string): unknown {
+  const url = new URL(requestUrl, MOCK_BASE_URL);
+  const [, , resourceType, id] = url.pathname.split('/');
+  const organizationId = url.searchParams.get('organization');
+
+  if (id) {
+    const pools: Record<string, HalaxyResource[]> = {
+      Patient: mockPatients,
+      Practitioner: mockPractitioners,
+      HealthcareService: mockHealthcareServices,
+      Organization: mockOrganizations,
+    };
+    return pools[resourceType]?.find(r => r.id === id) ?? notFound(url.pathname);
+  }
+
+  switch (resourceType) {
+    case 'Appointment': {
+      const { from, to } = parseDateBounds(url);
+      const practitionerIds = url.searchParams.get('practitioner')?.split(',');
+      const dayMs = 24 * 60 * 60 * 1000;
+
+      // Generate every calendar day the range touches, then apply exact bounds
+      const dates = new Set<string>();
+      const start = Number.isFinite(from) ? from : Date.now();
+      const end = Number.isFinite(to) ? to : start;
+      for (let t = start - dayMs; t <= end + dayMs; t += dayMs) {
+        dates.add(new Date(t).toISOString().slice(0, 10));
+      }
+
+      const matches: HalaxyAppointment[] = [...dates]
+        .flatMap(dateStr => generateMockAppointments(dateStr, organizationId))
+        .filter(appt => {
+          const startTime = new Date(appt.start).getTime();
+          return startTime >= from && startTime <= to;
+        })
+        .filter(appt => {
+          if (!practitionerIds) return true;
+          return appt.participant.some(p =>
+            practitionerIds.some(pid => p.actor.reference.endsWith(`/Practitioner/${pid}`))
+          );
+        });
+
+      // _include resolves patient and practitioner references for the current page
+      const includes = url.searchParams.getAll('_include');
+      const count = parseInt(url.searchParams.get('_count') ?? '20', 10);
+      const page = parseInt(url.searchParams.get('_page') ?? '1', 10);
+      const pageMatches = matches.slice((page - 1) * count, page * count);
+      const references = new Set(pageMatches.flatMap(a => a.participant.map(p => p.actor.reference)));
+
+      const included: HalaxyResource[] = [
+        ...(includes.includes('Appointment:patient')
+          ? mockPatients.filter(p => references.has(`/main/Patient/${p.id}`))
+          : []),
+        ...(includes.includes('Appointment:practitioner')
+          ? mockPractitioners.filter(p => references.has(`/main/Practitioner/${p.id}`))
+          : []),
+      ];
+
+      return buildBundle(url, matches, included);
+    }
+
+    case 'Practitioner':
+      return buildBundle(
+        url,
+        mockPractitioners.filter(
+          p => !organizationId || practitionerOrganizations[p.id] === organizationId
+        )
+      );
+
+    case 'HealthcareService':
+      return buildBundle(
+        url,
+        mockHealthcareServices.filter(
+          s => !organizationId || s.providedBy?.reference.endsWith(`/Organization/${organizationId}`)
+        )
+      );
+
+    default:
+      return notFound(url.pathname);
+  }
+}
@@ -0,0 +1,143 @@
+// Halaxy-specific types based on their FHIR-like API
+
+export interface HalaxyTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+}
+
+// e.g. { reference: '/main/Patient/123456789', type: 'Patient' }
+export interface FhirReference {
+  reference: string;
+  type?: string;
+  display?: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueCode?: string;
+  valueString?: string;
+  valueInteger?: number;
+  valueReference?: FhirReference;
+}
+
+export interface FhirBundleLink {
+  relation: 'self' | 'next' | 'previous' | 'first' | 'last';
+  url: string;
+}
+
+export interface FhirBundleEntry<T> {
+  fullUrl?: string;
+  resource: T;
+  search?: {
+    mode: 'match' | 'include';
+  };
+}
+
+export interface FhirBundle<T> {
+  resourceType: 'Bundle';
+  type: 'searchset';
+  total?: number;
+  link?: FhirBundleLink[];
+  entry?: FhirBundleEntry<T>[];
+}
+
+export interface FhirHumanName {
+  use?: 'official' | 'usual' | 'nickname' | 'maiden';
+  family?: string;
+  given?: string[];
+  prefix?: string[];
+}
+
+export interface FhirContactPoint {
+  system: 'sms' | 'phone' | 'fax' | 'email';
+  value: string;
+  use?: 'home' | 'work' | 'mobile';
+}
+
+export type HalaxyLocationType = 'clinic' | 'telehealth' | 'online' | 'phone' | 'organization';
+
+// supportingInformation holds the HealthcareService reference and the location type
+export interface HalaxySupportingInformation {
+  type: 'HealthcareService' | 'location-type' | string;
+  reference?: string;
+  display?: string;
+  value?: HalaxyLocationType | string;
+}
+
+export type HalaxyParticipantStatus = 'booked' | 'confirmed' | 'attended' | 'cancelled';
+
+export interface HalaxyAppointmentParticipant {
+  actor: FhirReference;
+  status?: 'accepted' | 'declined' | 'tentative' | 'needs-action';
+  extension?: FhirExtension[];  // includes appointment-participant-status for the patient
+}
+
+export type HalaxyAppointmentStatus =
+  | 'proposed'
+  | 'pending'
+  | 'booked'
+  | 'arrived'
+  | 'checked-in'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'noshow'
+  | 'entered-in-error'
+  | 'waitlist';
+
+export interface HalaxyAppointment {
+  resourceType: 'Appointment';
+  id: string;
+  status: HalaxyAppointmentStatus;
+  description?: string;
+  start: string;  // ISO 8601 with offset
+  end: string;
+  minutesDuration?: number;
+  created?: string;
+  supportingInformation?: HalaxySupportingInformation[];
+  participant: HalaxyAppointmentParticipant[];
+  extension?: FhirExtension[];
+}
+
+export interface HalaxyPatient {
+  resourceType: 'Patient';
+  id: string;
+  active: boolean;
+  name: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: 'male' | 'female' | 'other' | 'custom';
+  birthDate?: string;  // YYYY-MM-DD
+}
+
+// IDs are prefixed: PR- for internal practitioners, EP- for external contacts
+export interface HalaxyPractitioner {
+  resourceType: 'Practitioner';
+  id: string;
+  active: boolean;
+  name: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+}
+
+// Appointment types are HealthcareService resources
+export interface HalaxyHealthcareService {
+  resourceType: 'HealthcareService';
+  id: string;
+  active: boolean;
+  name: string;
+  comment?: string;
+  providedBy?: FhirReference;  // Organization
+}
+
+export interface HalaxyOrganization {
+  resourceType: 'Organization';
+  id: string;
+  name: string;
+}
+
+export type HalaxyResource =
+  | HalaxyAppointment
+  | HalaxyPatient
+  | HalaxyPractitioner
+  | HalaxyHealthcareService
+  | HalaxyOrganization;
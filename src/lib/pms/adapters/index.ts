@@ -1,14 +1,12 @@
 import type { PMSAdapter, PMSType } from '../types';
 import { GentuAdapter } from './gentu';
+import { MedirecordsAdapter } from './medirecords';
+import { HalaxyAdapter } from './halaxy';
 
 const adapters: Record<PMSType, () => PMSAdapter> = {
   gentu: () => new GentuAdapter(),
-  medirecords: () => {
-    throw new Error('Medirecords adapter not implemented yet');
-  },
-  halaxy: () => {
-    throw new Error('Halaxy adapter not implemented yet');
-  },
+  medirecords: () => new MedirecordsAdapter(),
+  halaxy: () => new HalaxyAdapter(),
 };
 
 /**
@@ -49,4 +47,4 @@ export function getAvailablePmsTypes(): PMSType[] {
 }
 
 // Re-export adapters
-export { GentuAdapter };
+export { GentuAdapter, MedirecordsAdapter, HalaxyAdapter };
@@ -0,0 +1,663 @@
+import type {
+  PMSAdapter,
+  PMSConnection,
+  AuthResult,
+  FetchOptions,
+  UnifiedAppointment,
+  UnifiedPatient,
+  PMSPractitioner,
+  PMSAppointmentType,
+  HealthCheckResult,
+} from '../../types';
+import type {
+  MedirecordsTokenResponse,
+  MedirecordsPage,
+  MedirecordsAppointment,
+  MedirecordsAppointmentType,
+  MedirecordsIntervalCode,
+  MedirecordsPatient,
+  MedirecordsProvider,
+} from './types';
+import { PMSHttpClient } from '../../core/http-client';
+import { rateLimiter, getConnectionRateLimitKey } from '../../core/rate-limiter';
+import { withRetry, RetryableError } from '../../core/retry-handler';
+import { DataMapper } from '../../core/data-mapper';
+import { formatZonedDate, formatZonedDateTime, zonedDateTimeToUtc } from '../../core/timezone';
+import {
+  mockPractice,
+  mockProviders,
+  mockAppointmentTypes,
+  mockIntervalCodes,
+  mockPatients,
+  generateMockAppointments,
+} from './mock-data';
+
+interface MappingContext {
+  appointmentTypes: Map<string, MedirecordsAppointmentType>;
+  providers: Map<string, MedirecordsProvider>;
+  patients: Map<string, MedirecordsPatient | null>;
+  timezone: string;
+  telehealthTypeIds?: Set<string>;  // staff classification, overrides the type's telehealth flag
+}
+
+export class MedirecordsAdapter implements PMSAdapter {
+  readonly pmsType = 'medirecords' as const;
+
+  private readonly baseUrl = 'https://api.medirecords.com';
+  private readonly tokenUrl = 'https://api.medirecords.com/oauth/token';
+
+  private readonly defaultPageSize = 50;
+
+  private readonly http = new PMSHttpClient('medirecords', { baseUrl: this.baseUrl }, rateLimiter);
+  private readonly dataMapper = new DataMapper();
+
+  // Tokens obtained by this adapter, keyed by connection ID
+  private tokenCache: Map<string, { accessToken: string; expiresAt: Date }> = new Map();
+
+  // Interval code -> minutes. Codes don't change, so cache indefinitely.
+  private durationCodeMap: Map<number, number> = new Map();
+
+  // For now, use mock data. Will be replaced with real API calls.
+  private useMockData = true;
+
+  /**
+   * Enable/disable mock data mode
+   */
+  setMockMode(useMock: boolean): void {
+    this.useMockData = useMock;
+  }
+
+  async authenticate(connection: PMSConnection): Promise<AuthResult> {
+    if (this.useMockData) {
+      // Simulate network delay
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      return {
+        success: true,
+        accessToken: 'mock-medirecords-token',
+        refreshToken: 'mock-medirecords-refresh-token',
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+      };
+    }
+
+    return this.requestToken(connection, { grant_type: 'client_credentials' });
+  }
+
+  async refreshToken(connection: PMSConnection): Promise<AuthResult> {
+    if (this.useMockData || !connection.refreshToken) {
+      return this.authenticate(connection);
+    }
+
+    return this.requestToken(connection, {
+      grant_type: 'refresh_token',
+      refresh_token: connection.refreshToken,
+    });
+  }
+
+  async validateConnection(connection: PMSConnection): Promise<boolean> {
+    try {
+      const result = await this.healthCheck(connection);
+      return result.healthy;
+    } catch {
+      return false;
+    }
+  }
+
+  async *fetchAppointments(
+    connection: PMSConnection,
+    options: FetchOptions
+  ): AsyncGenerator<UnifiedAppointment[], void, unknown> {
+    const context = await this.loadMappingContext(connection);
+    if (options.telehealthTypeIds) {
+      context.telehealthTypeIds = new Set(options.telehealthTypeIds);
+    }
+
+    // The list endpoint accepts a single providerId, so filter one provider at a time
+    const providerIds: Array<string | undefined> = options.practitionerIds?.length
+      ? options.practitionerIds
+      : [undefined];
+
+    for (const providerId of providerIds) {
+      for await (const page of this.fetchAppointmentPages(connection, options, context.timezone, providerId)) {
+        const unified: UnifiedAppointment[] = [];
+
+        for (const appointment of page) {
+          const patient = await this.resolvePatient(connection, appointment.patientId, context);
+          const mapped = this.mapToUnified(appointment, patient, context, connection);
+
+          // Range filter is minute-precision on the server; enforce exact bounds here
+          if (mapped.startTime < options.dateFrom || mapped.startTime > options.dateTo) {
+            continue;
+          }
+          if (options.telehealthOnly && !mapped.isTelehealth) {
+            continue;
+          }
+
+          unified.push(mapped);
+        }
+
+        if (unified.length > 0) {
+          yield unified;
+        }
+      }
+    }
+  }
+
+  async fetchPractitioners(connection: PMSConnection): Promise<PMSPractitioner[]> {
+    const providers = await this.loadProviders(connection);
+
+    return providers.map(p => ({
+      id: p.id,
+      name: {
+        family: p.lastName,
+        given: p.firstName || undefined,
+        prefix: p.title || undefined,
+      },
+      fullName: this.formatProviderName(p),
+      active: p.activeStatus === 1,
+      contact: [
+        ...(p.email ? [{ system: 'email' as const, value: p.email }] : []),
+        ...(p.phone ? [{ system: 'phone' as const, value: p.phone }] : []),
+      ],
+    }));
+  }
+
+  async fetchAppointmentTypes(connection: PMSConnection): Promise<PMSAppointmentType[]> {
+    const types = await this.loadAppointmentTypes(connection);
+
+    return types
+      .filter(t => t.activeStatus === 1)
+      .map(t => ({
+        id: t.id,
+        name: t.name,
+        durationMinutes: this.parseDuration(t.duration) ?? undefined,
+        colour: t.colour || undefined,
+        // Medirecords flags telehealth types natively
+        isTelehealthAutoDetected: t.telehealth,
+      }));
+  }
+
+  async fetchPatient(
+    connection: PMSConnection,
+    patientId: string
+  ): Promise<UnifiedPatient | null> {
+    const patient = await this.loadPatient(connection, patientId);
+    return patient ? this.mapPatient(patient) : null;
+  }
+
+  private async loadPatient(
+    connection: PMSConnection,
+    patientId: string
+  ): Promise<MedirecordsPatient | null> {
+    if (this.useMockData) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return mockPatients.find(p => p.id === patientId) ?? null;
+    }
+
+    const practiceId = this.requirePracticeId(connection);
+
+    try {
+      return await this.apiGet<MedirecordsPatient>(
+        connection,
+        `/v1/practices/${practiceId}/patients/${patientId}`
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Request failed: 404')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async healthCheck(connection: PMSConnection): Promise<HealthCheckResult> {
+    const start = Date.now();
+
+    if (this.useMockData) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      return {
+        healthy: true,
+        message: 'Mock connection healthy',
+        latencyMs: Date.now() - start,
+      };
+    }
+
+    try {
+      const practiceId = this.requirePracticeId(connection);
+      await this.apiGet<MedirecordsPage<MedirecordsAppointmentType>>(
+        connection,
+        `/v1/practices/${practiceId}/appointment-types`,
+        { page: '0', size: '1' }
+      );
+
+      return {
+        healthy: true,
+        message: 'Connected to Medirecords',
+        latencyMs: Date.now() - start,
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        message: `Medirecords health check failed: ${error instanceof Error ? error.message : String(error)}`,
+        latencyMs: Date.now() - start,
+      };
+    }
+  }
+
+  /**
+   * POST to the token endpoint using client credentials from the environment
+   */
+  private async requestToken(
+    connection: PMSConnection,
+    body: Record<string, string>
+  ): Promise<AuthResult> {
+    const clientId = process.env.MEDIRECORDS_CLIENT_ID;
+    const clientSecret = process.env.MEDIRECORDS_CLIENT_SECRET;
+
+    if (!clientId || !clientSecret) {
+      return {
+        success: false,
+        error: 'MEDIRECORDS_CLIENT_ID and MEDIRECORDS_CLIENT_SECRET must be set',
+      };
+    }
+
+    try {
+      const response = await this.http.postForm<MedirecordsTokenResponse>(this.tokenUrl, body, {
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        },
+        rateLimitKey: getConnectionRateLimitKey(connection),
+      });
+
+      const expiresAt = new Date(Date.now() + response.expires_in * 1000);
+      this.tokenCache.set(connection.id, { accessToken: response.access_token, expiresAt });
+
+      return {
+        success: true,
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token,
+        expiresAt,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Get an access token, preferring the stored connection token while it is valid
+   */
+  private async getAccessToken(
+    connection: PMSConnection,
+    forceRefresh = false
+  ): Promise<string> {
+    const now = Date.now();
+
+    if (!forceRefresh) {
+      const cached = this.tokenCache.get(connection.id);
+      if (cached && cached.expiresAt.getTime() > now) {
+        return cached.accessToken;
+      }
+
+      if (
+        connection.accessToken &&
+        connection.tokenExpiresAt &&
+        new Date(connection.tokenExpiresAt).getTime() > now
+      ) {
+        return connection.accessToken;
+      }
+    }
+
+    const result = await this.refreshToken(connection);
+    if (!result.success || !result.accessToken) {
+      throw new Error(`Medirecords authentication failed: ${result.error || 'Unknown error'}`);
+    }
+
+    return result.accessToken;
+  }
+
+  /**
+   * Authenticated GET. A rejected token is refreshed once and the request retried.
+   */
+  private async apiGet<T>(
+    connection: PMSConnection,
+    path: string,
+    params?: Record<string, string>
+  ): Promise<T> {
+    const url = params ? `${path}?${new URLSearchParams(params).toString()}` : path;
+    let forceRefresh = false;
+
+    return withRetry(
+      async () => {
+        const token = await this.getAccessToken(connection, forceRefresh);
+
+        try {
+          return await this.http.get<T>(url, { token, rateLimitKey: getConnectionRateLimitKey(connection) });
+        } catch (error) {
+          if (error instanceof Error && error.message.startsWith('Request failed: 401')) {
+            this.tokenCache.delete(connection.id);
+            forceRefresh = true;
+            throw new RetryableError('Medirecords rejected access token', 401);
+          }
+          throw error;
+        }
+      },
+      { maxAttempts: 2, baseDelayMs: 0 }
+    );
+  }
+
+  /**
+   * Walk a page-based (0-indexed) list endpoint, yielding each page's content
+   */
+  private async *paginate<T>(
+    connection: PMSConnection,
+    path: string,
+    params: Record<string, string> = {},
+    pageSize: number = this.defaultPageSize
+  ): AsyncGenerator<T[], void, unknown> {
+    let page = 0;
+
+    while (true) {
+      const response = await this.apiGet<MedirecordsPage<T>>(connection, path, {
+        ...params,
+        page: String(page),
+        size: String(pageSize),
+      });
+
+      yield response.content;
+
+      if (response.last || response.content.length === 0) {
+        return;
+      }
+      page++;
+    }
+  }
+
+  /**
+   * Fetch raw appointment pages for the requested range
+   */
+  private async *fetchAppointmentPages(
+    connection: PMSConnection,
+    options: FetchOptions,
+    timezone: string,
+    providerId?: string
+  ): AsyncGenerator<MedirecordsAppointment[], void, unknown> {
+    const pageSize = options.limit ?? this.defaultPageSize;
+
+    if (this.useMockData) {
+      // Simulate network delay
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      const appointments = this.getLocalDatesInRange(options.dateFrom, options.dateTo, timezone)
+        .flatMap(dateStr => generateMockAppointments(dateStr))
+        .filter(appt => !providerId || appt.providerId === providerId);
+
+      for (let offset = 0; offset < appointments.length; offset += pageSize) {
+        yield appointments.slice(offset, offset + pageSize);
+      }
+      return;
+    }
+
+    const practiceId = this.requirePracticeId(connection);
+    const params: Record<string, string> = {
+      appointmentDateRangeStart: formatZonedDateTime(options.dateFrom, timezone),
+      appointmentDateRangeEnd: formatZonedDateTime(options.dateTo, timezone),
+    };
+    if (providerId) {
+      params.providerId = providerId;
+    }
+
+    yield* this.paginate<MedirecordsAppointment>(
+      connection,
+      `/v1/practices/${practiceId}/appointments`,
+      params,
+      pageSize
+    );
+  }
+
+  /**
+   * Load lookups needed to map a run of appointments
+   */
+  private async loadMappingContext(connection: PMSConnection): Promise<MappingContext> {
+    const [appointmentTypes, providers] = await Promise.all([
+      this.loadAppointmentTypes(connection),
+      this.loadProviders(connection),
+      this.loadIntervalCodes(connection),
+    ]);
+
+    return {
+      appointmentTypes: new Map(appointmentTypes.map(t => [t.id, t])),
+      providers: new Map(providers.map(p => [p.id, p])),
+      patients: new Map(),
+      // scheduleTime has no offset, so it is interpreted in the practice timezone
+      timezone: this.useMockData
+        ? mockPractice.timezone || connection.timezone
+        : connection.timezone,
+    };
+  }
+
+  private async loadAppointmentTypes(connection: PMSConnection): Promise<MedirecordsAppointmentType[]> {
+    if (this.useMockData) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return mockAppointmentTypes;
+    }
+
+    const practiceId = this.requirePracticeId(connection);
+    const types: MedirecordsAppointmentType[] = [];
+    for await (const page of this.paginate<MedirecordsAppointmentType>(
+      connection,
+      `/v1/practices/${practiceId}/appointment-types`
+    )) {
+      types.push(...page);
+    }
+    return types;
+  }
+
+  /**
+   * Providers aren't in the published appointment spec; this uses the practice providers list
+   */
+  private async loadProviders(connection: PMSConnection): Promise<MedirecordsProvider[]> {
+    if (this.useMockData) {
+      await new Promise(resolve => setTimeout(resolve, 150));
+      return mockProviders;
+    }
+
+    const practiceId = this.requirePracticeId(connection);
+    const providers: MedirecordsProvider[] = [];
+    for await (const page of this.paginate<MedirecordsProvider>(
+      connection,
+      `/v1/practices/${practiceId}/providers`
+    )) {
+      providers.push(...page);
+    }
+    return providers;
+  }
+
+  /**
+   * Populate the interval code -> minutes cache if empty
+   */
+  private async loadIntervalCodes(connection: PMSConnection): Promise<void> {
+    if (this.durationCodeMap.size > 0) {
+      return;
+    }
+
+    const codes = this.useMockData
+      ? mockIntervalCodes
+      : await this.apiGet<MedirecordsIntervalCode[]>(
+          connection,
+          '/code-system/appointment-Interval-Code'
+        );
+
+    for (const entry of codes) {
+      const minutes = this.parseDuration(entry.display);
+      if (minutes !== null) {
+        this.durationCodeMap.set(entry.code, minutes);
+      }
+    }
+  }
+
+  /**
+   * Look up a patient once per sync run
+   */
+  private async resolvePatient(
+    connection: PMSConnection,
+    patientId: string,
+    context: MappingContext
+  ): Promise<MedirecordsPatient | null> {
+    if (context.patients.has(patientId)) {
+      return context.patients.get(patientId) ?? null;
+    }
+
+    const patient = await this.loadPatient(connection, patientId);
+    context.patients.set(patientId, patient);
+    return patient;
+  }
+
+  private requirePracticeId(connection: PMSConnection): string {
+    if (!connection.practiceId) {
+      throw new Error(`Medirecords connection ${connection.id} has no practiceId`);
+    }
+    return connection.practiceId;
+  }
+
+  /**
+   * Parse durations like "15 mins", "1 hr", "4 hrs" or "1 hr 30 mins" to minutes
+   */
+  private parseDuration(value: string | null): number | null {
+    if (!value) return null;
+
+    const hours = value.match(/(\d+)\s*h/i);
+    const minutes = value.match(/(\d+)\s*m/i);
+    if (!hours && !minutes) return null;
+
+    return (hours ? parseInt(hours[1], 10) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  }
+
+  /**
+   * Practice-local YYYY-MM-DD dates touched by a range
+   */
+  private getLocalDatesInRange(dateFrom: Date, dateTo: Date, timezone: string): string[] {
+    const dates = new Set<string>();
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    for (let t = dateFrom.getTime(); t <= dateTo.getTime(); t += dayMs) {
+      dates.add(formatZonedDate(new Date(t), timezone));
+    }
+    dates.add(formatZonedDate(dateTo, timezone));
+
+    return [...dates];
+  }
+
+  private formatProviderName(provider: MedirecordsProvider): string {
+    return [provider.title, provider.firstName, provider.lastName].filter(Boolean).join(' ');
+  }
+
+  /**
+   * Map Medirecords patient to unified demographics
+   */
+  private mapPatient(patient: MedirecordsPatient): UnifiedPatient {
+    return {
+      pmsPatientId: patient.id,
+      fullName: [patient.firstName, patient.lastName].filter(Boolean).join(' '),
+      firstName: patient.firstName || undefined,
+      lastName: patient.lastName || undefined,
+      phone: this.dataMapper.extractPhone([
+        { system: 'phone', value: patient.mobilePhone, use: 'mobile' },
+        { system: 'phone', value: patient.workPhone, use: 'work' },
+        { system: 'phone', value: patient.homePhone, use: 'home' },
+      ]) ?? undefined,
+      email: patient.email || undefined,
+      dateOfBirth: patient.dob ? new Date(patient.dob) : undefined,
+    };
+  }
+
+  /**
+   * Map Medirecords appointment to unified format
+   */
+  private mapToUnified(
+    appointment: MedirecordsAppointment,
+    patient: MedirecordsPatient | null,
+    context: MappingContext,
+    connection: PMSConnection
+  ): UnifiedAppointment {
+    const appointmentType = context.appointmentTypes.get(appointment.appointmentTypeId);
+    const provider = appointment.providerId
+      ? context.providers.get(appointment.providerId)
+      : undefined;
+
+    const startTime = zonedDateTimeToUtc(appointment.scheduleTime, context.timezone);
+
+    // Interval code is authoritative; fall back to the type's default duration
+    const durationMinutes =
+      (appointment.appointmentIntervalCode !== null
+        ? this.durationCodeMap.get(appointment.appointmentIntervalCode)
+        : undefined) ??
+      this.parseDuration(appointmentType?.duration ?? null);
+
+    const typeIsTelehealth = context.telehealthTypeIds
+      ? context.telehealthTypeIds.has(appointment.appointmentTypeId)
+      : appointmentType?.telehealth;
+
+    // Coviu links are only generated for telehealth appointments
+    const isTelehealth = Boolean(
+      appointment.telehealthLinkForProvider ||
+      appointment.telehealthLinkForPatient ||
+      typeIsTelehealth
+    );
+
+    return {
+      pmsType: 'medirecords',
+      pmsAppointmentId: appointment.id,
+      pmsConnectionId: connection.id,
+
+      startTime,
+      endTime: durationMinutes ? new Date(startTime.getTime() + durationMinutes * 60 * 1000) : null,
+      durationMinutes,
+      timezone: context.timezone,
+
+      isTelehealth,
+      appointmentTypeName: appointmentType?.name || 'Unknown',
+      appointmentTypeId: appointment.appointmentTypeId,
+      status: this.mapStatus(appointment.appointmentStatus),
+
+      patient: patient
+        ? this.mapPatient(patient)
+        : { pmsPatientId: appointment.patientId, fullName: 'Unknown Patient' },
+
+      practitioner: {
+        pmsPractitionerId: appointment.providerId || 'unknown',
+        fullName: provider ? this.formatProviderName(provider) : 'Unknown Practitioner',
+        firstName: provider?.firstName || undefined,
+        lastName: provider?.lastName || undefined,
+      },
+
+      notes: appointment.notes || undefined,
+      fetchedAt: new Date(),
+      rawData: appointment as unknown as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Map Medirecords status code to unified status
+   */
+  private mapStatus(status: number | null): UnifiedAppointment['status'] {
+    if (status === null) return null;
+
+    const statusMap: Record<number, UnifiedAppointment['status']> = {
+      2: 'booked',
+      3: 'confirmed',
+      4: 'arrived',       // Waiting Room
+      5: 'in_progress',   // With Doctor
+      6: 'completed',     // At Billing
+      7: 'completed',
+      8: 'cancelled',
+    };
+
+    return statusMap[status] || 'booked';
+  }
+}
+
+// Export types for convenience
+export type { MedirecordsPatient, MedirecordsPractice } from './types';
@@ -0,0 +1,206 @@
+import type {
+  MedirecordsPractice,
+  MedirecordsProvider,
+  MedirecordsAppointmentType,
+  MedirecordsAppointment,
+  MedirecordsPatient,
+  MedirecordsIntervalCode,
+} from './types';
+
+export const mockPractice: MedirecordsPractice = {
+  id: '8d3f2c1a-5b6e-4f7a-9c8d-0e1f2a3b4c5d',
+  name: 'Bayside Family Practice',
+  timezone: 'Australia/Melbourne',
+};
+
+export const mockProviders: MedirecordsProvider[] = [
+  {
+    id: 'mr-prov-001',
+    title: 'Dr',
+    firstName: 'Priya',
+    lastName: 'Patel',
+    email: 'priya.patel@bayside.example.com',
+    phone: '0390000001',
+    activeStatus: 1,
+  },
+  {
+    id: 'mr-prov-002',
+    title: 'Dr',
+    firstName: 'Liam',
+    lastName: 'Nguyen',
+    email: 'liam.nguyen@bayside.example.com',
+    phone: null,
+    activeStatus: 1,
+  },
+  {
+    id: 'mr-prov-003',
+    title: 'Dr',
+    firstName: 'Grace',
+    lastName: 'O\'Brien',
+    email: null,
+    phone: null,
+    activeStatus: 2,
+  },
+];
+
+export const mockAppointmentTypes: MedirecordsAppointmentType[] = [
+  {
+    id: 'mr-type-001',
+    name: 'Telehealth Consult',
+    duration: '15 mins',
+    colour: '#4caf50',
+    activeStatus: 1,
+    community: true,
+    telehealth: true,
+    description: 'Video consultation via Coviu',
+  },
+  {
+    id: 'mr-type-002',
+    name: 'Standard Consult',
+    duration: '15 mins',
+    colour: '#a9a9a9',
+    activeStatus: 1,
+    community: true,
+    telehealth: false,
+    description: null,
+  },
+  {
+    id: 'mr-type-003',
+    name: 'Long Consult',
+    duration: '30 mins',
+    colour: '#2196f3',
+    activeStatus: 1,
+    community: false,
+    telehealth: false,
+    description: null,
+  },
+  {
+    id: 'mr-type-004',
+    name: 'Care Plan Review',
+    duration: '1 hr',
+    colour: '#ff9800',
+    activeStatus: 1,
+    community: false,
+    telehealth: true,
+    description: 'Chronic disease care plan review (video)',
+  },
+  {
+    id: 'mr-type-005',
+    name: 'Legacy Procedure',
+    duration: '4 hrs',
+    colour: '#f44336',
+    activeStatus: 2,
+    community: false,
+    telehealth: false,
+    description: null,
+  },
+];
+
+export const mockIntervalCodes: MedirecordsIntervalCode[] = [
+  { code: 1, display: '5 mins' },
+  { code: 2, display: '10 mins' },
+  { code: 3, display: '15 mins' },
+  { code: 4, display: '30 mins' },
+  { code: 5, display: '45 mins' },
+  { code: 6, display: '1 hr' },
+];
+
+export const mockPatients: MedirecordsPatient[] = [
+  {
+    id: 'mr-patient-001',
+    title: 'Ms',
+    firstName: 'Olivia',
+    lastName: 'Chen',
+    dob: '1988-02-14',
+    mobilePhone: '0411 222 333',
+    homePhone: null,
+    workPhone: null,
+    email: 'olivia.chen@email.com',
+  },
+  {
+    id: 'mr-patient-002',
+    title: 'Mr',
+    firstName: 'Noah',
+    lastName: 'Kelly',
+    dob: '1959-07-03',
+    mobilePhone: null,
+    homePhone: '0395551234',
+    workPhone: null,
+    email: null,
+  },
+  {
+    id: 'mr-patient-003',
+    title: 'Mrs',
+    firstName: 'Ava',
+    lastName: 'Rossi',
+    dob: '1975-12-20',
+    mobilePhone: '+61 422 333 444',
+    homePhone: null,
+    workPhone: null,
+    email: 'ava.rossi@email.com',
+  },
+  {
+    id: 'mr-patient-004',
+    title: null,
+    firstName: 'Jack',
+    lastName: 'Murphy',
+    dob: '2001-09-09',
+    mobilePhone: '0433444555',
+    homePhone: null,
+    workPhone: null,
+    email: null,
+  },
+];
+
+interface MockAppointmentSeed {
+  id: string;
+  time: string;
+  patientId: string;
+  providerId: string;
+  appointmentTypeId: string;
+  appointmentStatus: MedirecordsAppointment['appointmentStatus'];
+  appointmentIntervalCode: number;
+  telehealth: boolean;
+  notes?: string;
+}
+
+const mockAppointmentSeeds: MockAppointmentSeed[] = [
+  { id: 'mr-appt-001', time: '08:30', patientId: 'mr-patient-001', providerId: 'mr-prov-001', appointmentTypeId: 'mr-type-001', appointmentStatus: 2, appointmentIntervalCode: 3, telehealth: true },
+  { id: 'mr-appt-002', time: '09:00', patientId: 'mr-patient-002', providerId: 'mr-prov-001', appointmentTypeId: 'mr-type-002', appointmentStatus: 3, appointmentIntervalCode: 3, telehealth: false },
+  { id: 'mr-appt-003', time: '09:15', patientId: 'mr-patient-003', providerId: 'mr-prov-002', appointmentTypeId: 'mr-type-004', appointmentStatus: 2, appointmentIntervalCode: 6, telehealth: true, notes: 'Review diabetes care plan' },
+  { id: 'mr-appt-004', time: '10:00', patientId: 'mr-patient-004', providerId: 'mr-prov-002', appointmentTypeId: 'mr-type-003', appointmentStatus: 4, appointmentIntervalCode: 4, telehealth: false },
+  { id: 'mr-appt-005', time: '11:30', patientId: 'mr-patient-001', providerId: 'mr-prov-002', appointmentTypeId: 'mr-type-001', appointmentStatus: 3, appointmentIntervalCode: 3, telehealth: true },
+  { id: 'mr-appt-006', time: '13:45', patientId: 'mr-patient-003', providerId: 'mr-prov-001', appointmentTypeId: 'mr-type-002', appointmentStatus: 8, appointmentIntervalCode: 3, telehealth: false, notes: 'Cancelled - patient unwell' },
+  { id: 'mr-appt-007', time: '14:30', patientId: 'mr-patient-002', providerId: 'mr-prov-002', appointmentTypeId: 'mr-type-001', appointmentStatus: 2, appointmentIntervalCode: 3, telehealth: true },
+  { id: 'mr-appt-008', time: '16:00', patientId: 'mr-patient-004', providerId: 'mr-prov-001', appointmentTypeId: 'mr-type-001', appointmentStatus: 2, appointmentIntervalCode: 2, telehealth: true },
+];
+
+/**
+ * Generate mock appointments for a given date (YYYY-MM-DD in practice local time)
+ */
+export function generateMockAppointments(dateStr: string): MedirecordsAppointment[] {
+  return mockAppointmentSeeds.map(seed => ({
+    id: `${seed.id}-${dateStr.replace(/-/g, '')}`, // Unique per day, as real IDs are
+    practiceId: mockPractice.id,
+    patientId: seed.patientId,
+    providerId: seed.providerId,
+    appointmentTypeId: seed.appointmentTypeId,
+    scheduleTime: `${dateStr}T${seed.time}`,
+    appointmentStatus: seed.appointmentStatus,
+    appointmentIntervalCode: seed.appointmentIntervalCode,
+    roomId: null,
+    referralId: null,
+    notes: seed.notes ?? null,
+    urgency: 1,
+    walkIn: false,
+    telehealthLinkForProvider: seed.telehealth
+      ? `https://coviu.com/session/${seed.id}?role=host`
+      : null,
+    telehealthLinkForPatient: seed.telehealth
+      ? `https://coviu.com/session/${seed.id}`
+      : null,
+    confirmationLink: null,
+    createdDateTime: `${dateStr}T07:00:00.000+0000`,
+    updatedDateTime: `${dateStr}T07:00:00.000+0000`,
+  }));
+}
@@ -0,0 +1,93 @@
+// Medirecords-specific types based on their API
+
+export interface MedirecordsTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+// Page-based pagination wrapper (0-indexed pages)
+export interface MedirecordsPage<T> {
+  content: T[];
+  first: boolean;
+  last: boolean;
+  number: number;
+  size: number;
+  totalPages: number;
+  totalElements: number;
+}
+
+/**
+ * Appointment status codes
+ * 2=Booked, 3=Confirmed, 4=Waiting Room, 5=With Doctor,
+ * 6=At Billing, 7=Completed, 8=Cancelled
+ */
+export type MedirecordsAppointmentStatus = 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface MedirecordsAppointment {
+  id: string;
+  practiceId: string;
+  patientId: string;
+  providerId: string | null;
+  appointmentTypeId: string;
+  scheduleTime: string;  // YYYY-MM-DDThh:mm in practice local time (no offset)
+  appointmentStatus: MedirecordsAppointmentStatus;
+  appointmentIntervalCode: number | null;
+  roomId: string | null;
+  referralId: string | null;
+  notes: string | null;
+  urgency: 1 | 2 | null;
+  walkIn: boolean | null;
+  telehealthLinkForProvider: string | null;
+  telehealthLinkForPatient: string | null;
+  confirmationLink: string | null;
+  createdDateTime: string;
+  updatedDateTime: string;
+}
+
+export interface MedirecordsAppointmentType {
+  id: string;
+  name: string;
+  duration: string | null;  // e.g. "30 mins", "4 hrs"
+  colour: string | null;
+  activeStatus: 1 | 2;      // 1=Active, 2=Inactive
+  community: boolean;
+  telehealth: boolean;
+  description: string | null;
+}
+
+// Entry from /code-system/appointment-Interval-Code
+export interface MedirecordsIntervalCode {
+  code: number;
+  display: string;  // e.g. "15 mins", "1 hr"
+}
+
+export interface MedirecordsPatient {
+  id: string;
+  title: string | null;
+  firstName: string | null;
+  lastName: string;
+  dob: string | null;  // YYYY-MM-DD
+  mobilePhone: string | null;
+  homePhone: string | null;
+  workPhone: string | null;
+  email: string | null;
+}
+
+export interface MedirecordsProvider {
+  id: string;
+  title: string | null;
+  firstName: string | null;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  activeStatus: 1 | 2;
+}
+
+export interface MedirecordsPractice {
+  id: string;
+  name: string;
+  timezone: string | null;
+}
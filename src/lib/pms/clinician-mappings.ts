@@ -0,0 +1,229 @@
+import { eq, and, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+  messageTemplates,
+  pmsClinicianMappings,
+  runSheetAppointments,
+  runSheetClinicians,
+  telehealthInvites,
+} from '@/db/schema';
+import type { PMSAdapter, PMSConnection } from './types';
+import { suggestClinicianMatches, type ClinicianMatch } from './core/clinician-matcher';
+
+export interface PractitionerMappingRow {
+  pmsPractitionerId: string;
+  name: string;
+  active: boolean;
+  inPms: boolean;
+  mapping: {
+    id: string;
+    runSheetClinicianId: string | null;
+    clinicianName: string | null;
+    syncEnabled: boolean;
+    autoCreated: boolean;
+  } | null;
+  suggestions: ClinicianMatch[];
+}
+
+/**
+ * PMS practitioners side by side with their mappings and suggested run sheet clinicians
+ */
+export async function getPractitionerMappings(
+  connection: PMSConnection,
+  adapter: PMSAdapter
+): Promise<{
+  practitioners: PractitionerMappingRow[];
+  clinicians: Array<{ id: string; name: string }>;
+}> {
+  const [practitioners, mappings, clinicians] = await Promise.all([
+    adapter.fetchPractitioners(connection),
+    db.query.pmsClinicianMappings.findMany({
+      where: eq(pmsClinicianMappings.pmsConnectionId, connection.id),
+      with: { runSheetClinician: true },
+    }),
+    db.query.runSheetClinicians.findMany({
+      orderBy: (clinicians, { asc }) => [asc(clinicians.name)],
+    }),
+  ]);
+
+  const mappingsByPractitioner = new Map(mappings.map(m => [m.pmsPractitionerId, m]));
+
+  const toRow = (
+    pmsPractitionerId: string,
+    name: string,
+    active: boolean,
+    inPms: boolean
+  ): PractitionerMappingRow => {
+    const mapping = mappingsByPractitioner.get(pmsPractitionerId);
+
+    return {
+      pmsPractitionerId,
+      name,
+      active,
+      inPms,
+      mapping: mapping
+        ? {
+            id: mapping.id,
+            runSheetClinicianId: mapping.runSheetClinicianId,
+            clinicianName: mapping.runSheetClinician?.name ?? null,
+            syncEnabled: mapping.syncEnabled,
+            autoCreated: mapping.autoCreated,
+          }
+        : null,
+      suggestions: suggestClinicianMatches(
+        name,
+        clinicians.filter(c => c.id !== mapping?.runSheetClinicianId)
+      ),
+    };
+  };
+
+  const rows = practitioners.map(p => toRow(p.id, p.fullName, p.active, true));
+
+  // Mappings for practitioners the PMS no longer returns
+  const seen = new Set(practitioners.map(p => p.id));
+  for (const mapping of mappings) {
+    if (!seen.has(mapping.pmsPractitionerId)) {
+      rows.push(toRow(
+        mapping.pmsPractitionerId,
+        mapping.pmsPractitionerName || mapping.pmsPractitionerId,
+        false,
+        false
+      ));
+    }
+  }
+
+  return {
+    practitioners: rows,
+    clinicians: clinicians.map(c => ({ id: c.id, name: c.name })),
+  };
+}
+
+/**
+ * Create or update the mapping for one PMS practitioner.
+ * runSheetClinicianId: null unlinks; createClinician adds a run sheet clinician named after the practitioner.
+ */
+export async function upsertPractitionerMapping(
+  connectionId: string,
+  pmsPractitionerId: string,
+  changes: {
+    pmsPractitionerName?: string;
+    runSheetClinicianId?: string | null;
+    createClinician?: boolean;
+    syncEnabled?: boolean;
+  }
+): Promise<typeof pmsClinicianMappings.$inferSelect> {
+  let runSheetClinicianId = changes.runSheetClinicianId;
+
+  if (changes.createClinician) {
+    if (!changes.pmsPractitionerName) {
+      throw new Error('pmsPractitionerName is required to create a clinician');
+    }
+
+    const [clinician] = await db
+      .insert(runSheetClinicians)
+      .values({ name: changes.pmsPractitionerName })
+      .returning({ id: runSheetClinicians.id });
+
+    runSheetClinicianId = clinician.id;
+  }
+
+  const set: Partial<typeof pmsClinicianMappings.$inferInsert> = { updatedAt: new Date() };
+  if (changes.pmsPractitionerName !== undefined) set.pmsPractitionerName = changes.pmsPractitionerName;
+  if (runSheetClinicianId !== undefined) {
+    set.runSheetClinicianId = runSheetClinicianId;
+    // Staff have reviewed this mapping now
+    set.autoCreated = false;
+  }
+  if (changes.syncEnabled !== undefined) set.syncEnabled = changes.syncEnabled;
+
+  const [mapping] = await db
+    .insert(pmsClinicianMappings)
+    .values({
+      pmsConnectionId: connectionId,
+      pmsPractitionerId,
+      pmsPractitionerName: changes.pmsPractitionerName ?? null,
+      runSheetClinicianId: runSheetClinicianId ?? null,
+      syncEnabled: changes.syncEnabled ?? true,
+      autoCreated: false,
+    })
+    .onConflictDoUpdate({
+      target: [pmsClinicianMappings.pmsConnectionId, pmsClinicianMappings.pmsPractitionerId],
+      set,
+    })
+    .returning();
+
+  // Existing synced appointments follow the new link
+  if (runSheetClinicianId !== undefined) {
+    await db
+      .update(runSheetAppointments)
+      .set({ clinicianId: runSheetClinicianId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(runSheetAppointments.pmsConnectionId, connectionId),
+          eq(runSheetAppointments.pmsPractitionerId, pmsPractitionerId)
+        )
+      );
+  }
+
+  return mapping;
+}
+
+/**
+ * Merge a duplicate run sheet clinician into another, moving every reference across
+ */
+export async function mergeClinicians(
+  sourceClinicianId: string,
+  targetClinicianId: string
+): Promise<{ appointmentsMoved: number; invitesMoved: number; mappingsMoved: number }> {
+  if (sourceClinicianId === targetClinicianId) {
+    throw new Error('Cannot merge a clinician into itself');
+  }
+
+  const [source, target] = await Promise.all([
+    db.query.runSheetClinicians.findFirst({ where: eq(runSheetClinicians.id, sourceClinicianId) }),
+    db.query.runSheetClinicians.findFirst({ where: eq(runSheetClinicians.id, targetClinicianId) }),
+  ]);
+
+  if (!source || !target) {
+    throw new Error('Clinician not found');
+  }
+
+  // neon-http batches run in a single transaction
+  const [appointments, invites, mappings] = await db.batch([
+    db
+      .update(runSheetAppointments)
+      .set({ clinicianId: targetClinicianId, updatedAt: new Date() })
+      .where(eq(runSheetAppointments.clinicianId, sourceClinicianId))
+      .returning({ id: runSheetAppointments.id }),
+    db
+      .update(telehealthInvites)
+      .set({ clinicianId: targetClinicianId })
+      .where(eq(telehealthInvites.clinicianId, sourceClinicianId))
+      .returning({ id: telehealthInvites.id }),
+    db
+      .update(pmsClinicianMappings)
+      .set({ runSheetClinicianId: targetClinicianId, autoCreated: false, updatedAt: new Date() })
+      .where(eq(pmsClinicianMappings.runSheetClinicianId, sourceClinicianId))
+      .returning({ id: pmsClinicianMappings.id }),
+    // Keep the source's template unless the target has its own; otherwise it cascades away
+    db
+      .update(messageTemplates)
+      .set({ clinicianId: targetClinicianId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(messageTemplates.clinicianId, sourceClinicianId),
+          sql`not exists (select 1 from ${messageTemplates} where ${messageTemplates.clinicianId} = ${targetClinicianId})`
+        )
+      ),
+    db
+      .delete(runSheetClinicians)
+      .where(eq(runSheetClinicians.id, sourceClinicianId)),
+  ]);
+
+  return {
+    appointmentsMoved: appointments.length,
+    invitesMoved: invites.length,
+    mappingsMoved: mappings.length,
+  };
+}
+
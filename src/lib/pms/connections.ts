@@ -0,0 +1,72 @@
+import { eq, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { pmsConnections } from '@/db/schema';
+import type { PMSConnection } from './types';
+import { decryptOptionalToken } from './core/token-crypto';
+
+type ConnectionRow = typeof pmsConnections.$inferSelect;
+
+/**
+ * Connection columns that are safe to return to the browser (no tokens)
+ */
+export const connectionSummaryFields = {
+  id: pmsConnections.id,
+  pmsType: pmsConnections.pmsType,
+  displayName: pmsConnections.displayName,
+  tenantId: pmsConnections.tenantId,
+  practiceId: pmsConnections.practiceId,
+  organizationId: pmsConnections.organizationId,
+  hasAccessToken: sql<boolean>`${pmsConnections.accessToken} is not null`,
+  hasWebhookSecret: sql<boolean>`${pmsConnections.webhookSecret} is not null`,
+  tokenExpiresAt: pmsConnections.tokenExpiresAt,
+  syncEnabled: pmsConnections.syncEnabled,
+  syncFrequencyMinutes: pmsConnections.syncFrequencyMinutes,
+  lastSyncAt: pmsConnections.lastSyncAt,
+  lastSyncStatus: pmsConnections.lastSyncStatus,
+  lastSyncError: pmsConnections.lastSyncError,
+  syncTelehealthOnly: pmsConnections.syncTelehealthOnly,
+  journalRequests: pmsConnections.journalRequests,
+  timezone: pmsConnections.timezone,
+  createdAt: pmsConnections.createdAt,
+  updatedAt: pmsConnections.updatedAt,
+};
+
+/**
+ * Convert a database row to the adapter-facing connection shape, decrypting tokens
+ */
+export function toPMSConnection(row: ConnectionRow): PMSConnection {
+  return {
+    id: row.id,
+    pmsType: row.pmsType,
+    displayName: row.displayName,
+    tenantId: row.tenantId ?? undefined,
+    practiceId: row.practiceId ?? undefined,
+    organizationId: row.organizationId ?? undefined,
+    accessToken: decryptOptionalToken(row.accessToken),
+    refreshToken: decryptOptionalToken(row.refreshToken),
+    tokenExpiresAt: row.tokenExpiresAt ?? undefined,
+    syncEnabled: row.syncEnabled,
+    syncFrequencyMinutes: row.syncFrequencyMinutes,
+    lastSyncAt: row.lastSyncAt ?? undefined,
+    lastSyncStatus: row.lastSyncStatus ?? undefined,
+    lastSyncError: row.lastSyncError ?? undefined,
+    syncTelehealthOnly: row.syncTelehealthOnly,
+    journalRequests: row.journalRequests,
+    timezone: row.timezone,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Load a connection by ID, or null if it doesn't exist
+ */
+export async function getConnection(connectionId: string): Promise<ConnectionRow | null> {
+  const [connection] = await db
+    .select()
+    .from(pmsConnections)
+    .where(eq(pmsConnections.id, connectionId))
+    .limit(1);
+
+  return connection ?? null;
+}
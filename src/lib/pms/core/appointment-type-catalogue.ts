@@ -0,0 +1,137 @@
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { pmsAppointmentTypes } from '@/db/schema';
+import type { PMSAdapter, PMSConnection } from '../types';
+import { suggestTelehealth } from './telehealth-classifier';
+
+type AppointmentTypeRow = typeof pmsAppointmentTypes.$inferSelect;
+
+/**
+ * Pull the appointment type list from the PMS and upsert it for the connection.
+ *
+ * Metadata and suggestions are always refreshed. isTelehealth follows the
+ * suggestion until staff confirm a classification, after which it's left alone.
+ */
+export async function syncAppointmentTypeCatalogue(
+  connection: PMSConnection,
+  adapter: PMSAdapter
+): Promise<{ total: number; created: number; updated: number; needsReview: number }> {
+  const types = await adapter.fetchAppointmentTypes(connection);
+  const now = new Date();
+
+  const existing = await db
+    .select({ pmsTypeId: pmsAppointmentTypes.pmsTypeId })
+    .from(pmsAppointmentTypes)
+    .where(eq(pmsAppointmentTypes.pmsConnectionId, connection.id));
+  const existingIds = new Set(existing.map(t => t.pmsTypeId));
+
+  for (const type of types) {
+    const suggested = suggestTelehealth(type);
+
+    await db
+      .insert(pmsAppointmentTypes)
+      .values({
+        pmsConnectionId: connection.id,
+        pmsTypeId: type.id,
+        pmsTypeName: type.name,
+        defaultDurationMinutes: type.durationMinutes ?? null,
+        colour: type.colour ?? null,
+        isTelehealthSuggested: suggested,
+        isTelehealth: suggested,
+        lastSeenAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [pmsAppointmentTypes.pmsConnectionId, pmsAppointmentTypes.pmsTypeId],
+        set: {
+          pmsTypeName: type.name,
+          defaultDurationMinutes: type.durationMinutes ?? null,
+          colour: type.colour ?? null,
+          isTelehealthSuggested: suggested,
+          isTelehealth: sql`case when ${pmsAppointmentTypes.telehealthConfirmedAt} is null then ${suggested}::boolean else ${pmsAppointmentTypes.isTelehealth} end`,
+          lastSeenAt: now,
+          updatedAt: now,
+        },
+      });
+  }
+
+  const unconfirmed = await db
+    .select({ id: pmsAppointmentTypes.id })
+    .from(pmsAppointmentTypes)
+    .where(
+      and(
+        eq(pmsAppointmentTypes.pmsConnectionId, connection.id),
+        isNull(pmsAppointmentTypes.telehealthConfirmedAt)
+      )
+    );
+
+  const created = types.filter(t => !existingIds.has(t.id)).length;
+
+  return {
+    total: types.length,
+    created,
+    updated: types.length - created,
+    needsReview: unconfirmed.length,
+  };
+}
+
+/**
+ * Stored types for a connection, keyed by PMS type ID
+ */
+export async function getAppointmentTypeCatalogue(
+  connectionId: string
+): Promise<Map<string, AppointmentTypeRow>> {
+  const types = await db
+    .select()
+    .from(pmsAppointmentTypes)
+    .where(eq(pmsAppointmentTypes.pmsConnectionId, connectionId));
+
+  return new Map(types.map(t => [t.pmsTypeId, t]));
+}
+
+/**
+ * Record a staff classification for a type
+ */
+export async function classifyAppointmentType(
+  connectionId: string,
+  appointmentTypeId: string,
+  changes: { isTelehealth?: boolean; syncEnabled?: boolean }
+): Promise<AppointmentTypeRow | null> {
+  const now = new Date();
+
+  const [updated] = await db
+    .update(pmsAppointmentTypes)
+    .set({
+      ...changes,
+      ...(changes.isTelehealth !== undefined ? { telehealthConfirmedAt: now } : {}),
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(pmsAppointmentTypes.id, appointmentTypeId),
+        eq(pmsAppointmentTypes.pmsConnectionId, connectionId)
+      )
+    )
+    .returning();
+
+  return updated ?? null;
+}
+
+/**
+ * Accept the current classification for every type staff haven't reviewed
+ */
+export async function confirmAllAppointmentTypes(connectionId: string): Promise<number> {
+  const now = new Date();
+
+  const confirmed = await db
+    .update(pmsAppointmentTypes)
+    .set({ telehealthConfirmedAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(pmsAppointmentTypes.pmsConnectionId, connectionId),
+        isNull(pmsAppointmentTypes.telehealthConfirmedAt)
+      )
+    )
+    .returning({ id: pmsAppointmentTypes.id });
+
+  return confirmed.length;
+}
@@ -0,0 +1,319 @@
+import { and, eq, lte, or, sql } from 'drizzle-orm';
+import { pmsCircuitBreakers } from '@/db/schema';
+import type { CircuitState, CircuitStatus } from '../types';
+import { RetryableError } from './retry-handler';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  openDurationMs: number;   // How long to fail fast before allowing a trial request
+  probeTimeoutMs: number;   // A trial request older than this is treated as abandoned
+}
+
+export const defaultCircuitBreakerOptions: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  openDurationMs: 5 * 60 * 1000,
+  probeTimeoutMs: 2 * 60 * 1000,
+};
+
+export interface CircuitRecord {
+  state: CircuitState;
+  failureCount: number;
+  stateChangedAt: Date;
+  lastError: string | null;
+}
+
+/**
+ * Thrown instead of calling the PMS while its circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly retryAt: Date
+  ) {
+    super(`PMS circuit open for ${key} - not retrying until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Backing store for circuit state
+ */
+export interface CircuitBreakerStore {
+  get(key: string): Promise<CircuitRecord | null>;
+
+  /**
+   * Move an open circuit whose wait has elapsed (or a stale half-open one)
+   * to half-open. Returns true only for the caller that made the move.
+   */
+  claimProbe(key: string, openedBefore: Date, probeStartedBefore: Date): Promise<boolean>;
+
+  recordSuccess(key: string): Promise<void>;
+
+  recordFailure(key: string, error: string, failureThreshold: number): Promise<void>;
+}
+
+/**
+ * Single-process store. Used in tests and when no database is configured.
+ */
+export class InMemoryCircuitBreakerStore implements CircuitBreakerStore {
+  private records: Map<string, CircuitRecord> = new Map();
+
+  async get(key: string): Promise<CircuitRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async claimProbe(key: string, openedBefore: Date, probeStartedBefore: Date): Promise<boolean> {
+    const record = this.records.get(key);
+    if (!record) return false;
+
+    const claimable =
+      (record.state === 'open' && record.stateChangedAt <= openedBefore) ||
+      (record.state === 'half_open' && record.stateChangedAt <= probeStartedBefore);
+    if (!claimable) return false;
+
+    record.state = 'half_open';
+    record.stateChangedAt = new Date();
+    return true;
+  }
+
+  async recordSuccess(key: string): Promise<void> {
+    const record = this.records.get(key);
+    if (!record || (record.state === 'closed' && record.failureCount === 0)) return;
+
+    this.records.set(key, { ...record, state: 'closed', failureCount: 0, stateChangedAt: new Date() });
+  }
+
+  async recordFailure(key: string, error: string, failureThreshold: number): Promise<void> {
+    const record = this.records.get(key) ?? {
+      state: 'closed' as const,
+      failureCount: 0,
+      stateChangedAt: new Date(),
+      lastError: null,
+    };
+
+    const failureCount = record.failureCount + 1;
+    const opens = record.state === 'half_open' || (record.state === 'closed' && failureCount >= failureThreshold);
+
+    this.records.set(key, {
+      state: opens ? 'open' : record.state,
+      failureCount,
+      stateChangedAt: opens ? new Date() : record.stateChangedAt,
+      lastError: error,
+    });
+  }
+}
+
+/**
+ * Store shared by every process through the pms_circuit_breakers table
+ */
+export class PostgresCircuitBreakerStore implements CircuitBreakerStore {
+  // Loaded lazily so importing the adapters doesn't require DATABASE_URL
+  private async getDb() {
+    return (await import('@/db')).db;
+  }
+
+  async get(key: string): Promise<CircuitRecord | null> {
+    const db = await this.getDb();
+
+    const [record] = await db
+      .select({
+        state: pmsCircuitBreakers.state,
+        failureCount: pmsCircuitBreakers.failureCount,
+        stateChangedAt: pmsCircuitBreakers.stateChangedAt,
+        lastError: pmsCircuitBreakers.lastError,
+      })
+      .from(pmsCircuitBreakers)
+      .where(eq(pmsCircuitBreakers.key, key))
+      .limit(1);
+
+    return record ?? null;
+  }
+
+  async claimProbe(key: string, openedBefore: Date, probeStartedBefore: Date): Promise<boolean> {
+    const db = await this.getDb();
+
+    const claimed = await db
+      .update(pmsCircuitBreakers)
+      .set({ state: 'half_open', stateChangedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(pmsCircuitBreakers.key, key),
+          or(
+            and(eq(pmsCircuitBreakers.state, 'open'), lte(pmsCircuitBreakers.stateChangedAt, openedBefore)),
+            and(eq(pmsCircuitBreakers.state, 'half_open'), lte(pmsCircuitBreakers.stateChangedAt, probeStartedBefore))
+          )
+        )
+      )
+      .returning({ key: pmsCircuitBreakers.key });
+
+    return claimed.length > 0;
+  }
+
+  async recordSuccess(key: string): Promise<void> {
+    const db = await this.getDb();
+
+    await db
+      .update(pmsCircuitBreakers)
+      .set({ state: 'closed', failureCount: 0, stateChangedAt: new Date(), updatedAt: new Date() })
+      .where(eq(pmsCircuitBreakers.key, key));
+  }
+
+  async recordFailure(key: string, error: string, failureThreshold: number): Promise<void> {
+    const db = await this.getDb();
+    const now = new Date();
+    const opens = sql`(${pmsCircuitBreakers.state} = 'half_open' or (${pmsCircuitBreakers.state} = 'closed' and ${pmsCircuitBreakers.failureCount} + 1 >= ${failureThreshold}))`;
+
+    await db
+      .insert(pmsCircuitBreakers)
+      .values({
+        key,
+        state: failureThreshold <= 1 ? 'open' : 'closed',
+        failureCount: 1,
+        stateChangedAt: now,
+        lastFailureAt: now,
+        lastError: error,
+      })
+      .onConflictDoUpdate({
+        target: pmsCircuitBreakers.key,
+        set: {
+          state: sql`case when ${opens} then 'open'::pms_circuit_state else ${pmsCircuitBreakers.state} end`,
+          stateChangedAt: sql`case when ${opens} then now() else ${pmsCircuitBreakers.stateChangedAt} end`,
+          failureCount: sql`${pmsCircuitBreakers.failureCount} + 1`,
+          lastFailureAt: now,
+          lastError: error,
+          updatedAt: now,
+        },
+      });
+  }
+}
+
+/**
+ * Whether an error means the PMS itself is unhealthy (vs. a bad request)
+ */
+function isOutageError(error: unknown): boolean {
+  if (error instanceof RetryableError) {
+    // Rate limiting is handled by the rate limiter, not the breaker
+    return error.statusCode === undefined || error.statusCode >= 500;
+  }
+
+  return error instanceof Error && /ECONNRESET|ETIMEDOUT|ECONNREFUSED|ENOTFOUND|ENETUNREACH|fetch failed|network error/i.test(error.message);
+}
+
+/**
+ * Circuit breaker for PMS calls.
+ *
+ * closed: requests flow; consecutive outage errors are counted.
+ * open: after failureThreshold failures, requests fail fast with CircuitOpenError.
+ * half_open: once openDurationMs has passed, one trial request goes through -
+ * success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+
+  constructor(
+    private store: CircuitBreakerStore = new InMemoryCircuitBreakerStore(),
+    options: Partial<CircuitBreakerOptions> = {}
+  ) {
+    this.options = { ...defaultCircuitBreakerOptions, ...options };
+  }
+
+  /**
+   * Run an operation through the circuit for a key
+   */
+  async execute<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const record = await this.store.get(key);
+
+    if (record && record.state !== 'closed') {
+      const now = Date.now();
+      const claimed = await this.store.claimProbe(
+        key,
+        new Date(now - this.options.openDurationMs),
+        new Date(now - this.options.probeTimeoutMs)
+      );
+
+      if (!claimed) {
+        throw new CircuitOpenError(key, this.getRetryAt(record));
+      }
+    }
+
+    try {
+      const result = await operation();
+
+      if (record && (record.state !== 'closed' || record.failureCount > 0)) {
+        await this.store.recordSuccess(key);
+      }
+
+      return result;
+    } catch (error) {
+      if (isOutageError(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.store.recordFailure(key, message, this.options.failureThreshold);
+      } else if (record && (record.state !== 'closed' || record.failureCount > 0)) {
+        // The PMS answered, even if it didn't like the request
+        await this.store.recordSuccess(key);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Current state for a key, for health checks and the sync runner
+   */
+  async getStatus(key: string): Promise<CircuitStatus> {
+    const record = await this.store.get(key);
+    if (!record) {
+      return { state: 'closed', failureCount: 0 };
+    }
+
+    return {
+      state: record.state,
+      failureCount: record.failureCount,
+      stateChangedAt: record.stateChangedAt,
+      retryAt: record.state === 'closed' ? undefined : this.getRetryAt(record),
+      lastError: record.lastError ?? undefined,
+    };
+  }
+
+  /**
+   * True while an open circuit is still failing fast (no trial request due yet)
+   */
+  async isOpen(key: string): Promise<boolean> {
+    const status = await this.getStatus(key);
+    return status.state !== 'closed' && !!status.retryAt && status.retryAt.getTime() > Date.now();
+  }
+
+  private getRetryAt(record: CircuitRecord): Date {
+    const wait = record.state === 'half_open' ? this.options.probeTimeoutMs : this.options.openDurationMs;
+    return new Date(record.stateChangedAt.getTime() + wait);
+  }
+}
+
+/**
+ * Describe a circuit for display (e.g. appended to a connection's lastSyncError)
+ */
+export function describeCircuit(status: CircuitStatus): string {
+  switch (status.state) {
+    case 'open':
+      return `circuit open after ${status.failureCount} failures${status.retryAt ? `, retrying after ${status.retryAt.toISOString()}` : ''}`;
+    case 'half_open':
+      return 'circuit half-open, testing recovery';
+    default:
+      return status.failureCount > 0 ? `circuit closed, ${status.failureCount} recent failures` : 'circuit closed';
+  }
+}
+
+/**
+ * Postgres when a database is configured, otherwise in-process
+ */
+export function createCircuitBreakerStore(): CircuitBreakerStore {
+  if (process.env.PMS_RATE_LIMIT_STORE === 'memory' || !process.env.DATABASE_URL) {
+    return new InMemoryCircuitBreakerStore();
+  }
+
+  return new PostgresCircuitBreakerStore();
+}
+
+// Singleton instance for use across the application
+export const circuitBreaker = new CircuitBreaker(createCircuitBreakerStore());
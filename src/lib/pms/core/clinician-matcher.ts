@@ -0,0 +1,141 @@
+/**
+ * Fuzzy matching between PMS practitioner names and run sheet clinicians.
+ *
+ * Names arrive in different shapes depending on the source: screenshots
+ * give "Dr Smith" or "Dr John Smith", PMSs give "Smith, John" or
+ * "Dr John A Smith". Matching works on surname + given-name tokens with
+ * titles and punctuation stripped.
+ */
+
+export interface ParsedClinicianName {
+  given: string[];
+  family: string | null;
+}
+
+export interface ClinicianMatch {
+  clinicianId: string;
+  name: string;
+  score: number;
+}
+
+// Exact-token score at or above this is treated as the same person
+export const CONFIDENT_MATCH_SCORE = 0.95;
+
+const TITLES = new Set([
+  'dr', 'doctor', 'prof', 'professor', 'assoc', 'a/prof', 'mr', 'mrs', 'ms', 'miss', 'mx',
+]);
+
+/**
+ * Split a name into given names and surname, handling "Family, Given" order
+ */
+export function parseClinicianName(name: string): ParsedClinicianName {
+  let cleaned = name.trim().toLowerCase();
+
+  // "Smith, John" -> "john smith"
+  const commaIndex = cleaned.indexOf(',');
+  if (commaIndex > 0) {
+    cleaned = `${cleaned.slice(commaIndex + 1)} ${cleaned.slice(0, commaIndex)}`;
+  }
+
+  const tokens = cleaned
+    .replace(/[^a-z\s'/-]/g, ' ')
+    .split(/\s+/)
+    .map(token => token.replace(/^['-]+|['-]+$/g, ''))
+    .filter(token => token && !TITLES.has(token));
+
+  if (tokens.length === 0) {
+    return { given: [], family: null };
+  }
+
+  return {
+    given: tokens.slice(0, -1),
+    family: tokens[tokens.length - 1],
+  };
+}
+
+/**
+ * Canonical form used for exact comparisons ("Smith, John" === "Dr John Smith")
+ */
+export function normalizeClinicianName(name: string): string {
+  const { given, family } = parseClinicianName(name);
+  return [...given, family].filter(Boolean).join(' ');
+}
+
+/**
+ * Score how likely two names refer to the same clinician (0-1)
+ */
+export function scoreNameMatch(a: string, b: string): number {
+  const nameA = parseClinicianName(a);
+  const nameB = parseClinicianName(b);
+
+  if (!nameA.family || !nameB.family) return 0;
+
+  if (nameA.family === nameB.family) {
+    // Surname only on one side ("Dr Smith") - plausible but unconfirmed
+    if (nameA.given.length === 0 || nameB.given.length === 0) return 0.7;
+
+    const firstA = nameA.given[0];
+    const firstB = nameB.given[0];
+
+    if (firstA === firstB) {
+      return nameA.given.join(' ') === nameB.given.join(' ') ? 1 : CONFIDENT_MATCH_SCORE;
+    }
+
+    // Initial vs full name ("J Smith" / "John Smith")
+    if ((firstA.length === 1 || firstB.length === 1) && firstA[0] === firstB[0]) return 0.85;
+
+    // Same surname, different first name - likely a different person
+    return 0.3;
+  }
+
+  // Typos and transliteration differences in the surname
+  const surnameSimilarity = diceCoefficient(nameA.family, nameB.family);
+  const firstMatches = nameA.given[0] && nameB.given[0] && nameA.given[0][0] === nameB.given[0][0];
+
+  return surnameSimilarity >= 0.7
+    ? Math.round(surnameSimilarity * (firstMatches ? 0.8 : 0.6) * 100) / 100
+    : 0;
+}
+
+/**
+ * Rank clinicians by similarity to a PMS practitioner name
+ */
+export function suggestClinicianMatches(
+  name: string,
+  clinicians: Array<{ id: string; name: string }>,
+  options: { minScore?: number; limit?: number } = {}
+): ClinicianMatch[] {
+  const { minScore = 0.5, limit = 3 } = options;
+
+  return clinicians
+    .map(c => ({ clinicianId: c.id, name: c.name, score: scoreNameMatch(name, c.name) }))
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Sørensen-Dice coefficient over character bigrams
+ */
+function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
@@ -1,5 +1,6 @@
 import type { UnifiedAppointment } from '../types';
 import type { NewRunSheetAppointment } from '@/db/schema';
+import { formatZonedDate, formatZonedTime } from './timezone';
 
 /**
  * Maps unified appointments to run sheet appointments
@@ -11,7 +12,8 @@ export class DataMapper {
   mapToRunSheetAppointment(
     appointment: UnifiedAppointment,
     runSheetId: string,
-    clinicianMapping: { runSheetClinicianId: string } | null
+    clinicianMapping: { runSheetClinicianId: string } | null,
+    timezone: string
   ): Omit<NewRunSheetAppointment, 'id' | 'createdAt' | 'updatedAt'> {
     return {
       runSheetId,
@@ -21,8 +23,9 @@ export class DataMapper {
         appointment.patient.firstName,
         appointment.patient.lastName
       ),
-      patientPhone: appointment.patient.phone ?? null,
-      appointmentTime: this.formatAppointmentTime(appointment.startTime),
+      patientPhone: this.normalizePhone(appointment.patient.phone),
+      appointmentTime: this.formatAppointmentTime(appointment.startTime, timezone),
+      appointmentStartAt: appointment.startTime,
       appointmentType: appointment.appointmentTypeName,
       confidence: 1.0, // 100% confidence for PMS data
       isManualEntry: false,
@@ -30,6 +33,7 @@ export class DataMapper {
       // PMS fields
       pmsConnectionId: appointment.pmsConnectionId,
       pmsAppointmentId: appointment.pmsAppointmentId,
+      pmsPractitionerId: appointment.practitioner.pmsPractitionerId,
       pmsLastSyncedAt: appointment.fetchedAt,
       isTelehealth: appointment.isTelehealth,
       appointmentStatus: appointment.status,
@@ -50,55 +54,69 @@ export class DataMapper {
   }
 
   /**
-   * Extract phone from contacts array
+   * Extract phone from contacts array, normalised for SMS
    */
   extractPhone(
-    contacts: Array<{ system: string; value: string; use?: string }>
+    contacts: Array<{ system: string; value?: string | null; use?: string }>
   ): string | null {
-    // Prioritize mobile, then work, then home
-    const priorities = ['mobile', 'work', 'home'];
-
-    for (const priority of priorities) {
-      const contact = contacts.find(
-        c => c.system === 'phone' && c.value && c.use === priority
-      );
-      if (contact) {
-        return contact.value;
-      }
-    }
+    const phones = contacts.filter(c => (c.system === 'phone' || c.system === 'sms') && c.value);
+
+    // Prioritize SMS/mobile contacts, then anything that is an AU mobile number,
+    // then work, then home
+    const contact = phones.find(c => c.system === 'sms' || c.use === 'mobile')
+      ?? phones.find(c => this.isAustralianMobile(c.value))
+      ?? phones.find(c => c.use === 'work')
+      ?? phones.find(c => c.use === 'home')
+      ?? phones[0];
 
-    // Fallback to any phone
-    const anyPhone = contacts.find(c => c.system === 'phone' && c.value);
-    return anyPhone?.value ?? null;
+    return this.normalizePhone(contact?.value);
+  }
+
+  /**
+   * Normalise Australian mobile numbers to E.164 (+614XXXXXXXX), accepting
+   * 04xx xxx xxx, +61 4xx, +61 (0) 4xx, 0011 61 4xx and a dropped leading zero.
+   * Other numbers are returned trimmed.
+   */
+  normalizePhone(value?: string | null): string | null {
+    const trimmed = value?.trim();
+    if (!trimmed) return null;
+
+    const compact = trimmed.replace(/\(0\)/g, '').replace(/[\s().-]/g, '');
+    const mobile = compact.match(/^(?:\+61|001161|61|0)?(4\d{8})$/);
+
+    return mobile ? `+61${mobile[1]}` : trimmed;
+  }
+
+  /**
+   * Whether a number can receive SMS (Australian mobile)
+   */
+  isAustralianMobile(value?: string | null): boolean {
+    return this.normalizePhone(value)?.startsWith('+614') ?? false;
   }
 
   /**
    * Extract email from contacts array
    */
   extractEmail(
-    contacts: Array<{ system: string; value: string }>
+    contacts: Array<{ system: string; value?: string | null }>
   ): string | null {
     const email = contacts.find(c => c.system === 'email' && c.value);
     return email?.value ?? null;
   }
 
   /**
-   * Format time for run sheet (HH:MM)
+   * Format time for run sheet (HH:MM) in the practice timezone
    */
-  formatAppointmentTime(date: Date): string {
-    const hours = date.getHours().toString().padStart(2, '0');
-    const minutes = date.getMinutes().toString().padStart(2, '0');
-    return `${hours}:${minutes}`;
+  formatAppointmentTime(date: Date, timezone: string): string {
+    return formatZonedTime(date, timezone);
   }
 
   /**
-   * Format date as YYYY-MM-DD string
+   * Format date as YYYY-MM-DD string. Date-only values (e.g. birth dates)
+   * are parsed as UTC midnight, so they're formatted in UTC by default.
    */
-  formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  formatDate(date: Date, timezone: string = 'UTC'): string {
+    return formatZonedDate(date, timezone);
   }
 
   /**
@@ -122,23 +140,28 @@ export class DataMapper {
     existing: {
       patientName?: string | null;
       patientPhone?: string | null;
+      patientEmail?: string | null;
       appointmentTime?: string | null;
       appointmentType?: string | null;
       appointmentStatus?: string | null;
       isTelehealth?: boolean | null;
+      appointmentStartAt?: Date | null;
     },
-    updated: UnifiedAppointment
+    updated: UnifiedAppointment,
+    timezone: string
   ): boolean {
     const updatedName = this.formatPatientName(
       updated.patient.firstName,
       updated.patient.lastName
     );
-    const updatedTime = this.formatAppointmentTime(updated.startTime);
+    const updatedTime = this.formatAppointmentTime(updated.startTime, timezone);
 
     // Check if any key fields have changed
     if (existing.patientName !== updatedName) return true;
-    if (existing.patientPhone !== (updated.patient.phone ?? null)) return true;
+    if (existing.patientPhone !== this.normalizePhone(updated.patient.phone)) return true;
+    if ((existing.patientEmail ?? null) !== (updated.patient.email ?? null)) return true;
     if (existing.appointmentTime !== updatedTime) return true;
+    if (existing.appointmentStartAt?.getTime() !== updated.startTime.getTime()) return true;
     if (existing.appointmentType !== updated.appointmentTypeName) return true;
     if (existing.appointmentStatus !== updated.status) return true;
     if (existing.isTelehealth !== updated.isTelehealth) return true;
@@ -151,7 +174,8 @@ export class DataMapper {
    */
   getAppointmentChanges(
     existing: Record<string, unknown>,
-    updated: UnifiedAppointment
+    updated: UnifiedAppointment,
+    timezone: string
   ): Record<string, { old: unknown; new: unknown }> {
     const changes: Record<string, { old: unknown; new: unknown }> = {};
 
@@ -159,13 +183,18 @@ export class DataMapper {
       updated.patient.firstName,
       updated.patient.lastName
     );
-    const updatedTime = this.formatAppointmentTime(updated.startTime);
+    const updatedTime = this.formatAppointmentTime(updated.startTime, timezone);
 
     if (existing.patientName !== updatedName) {
       changes.patientName = { old: existing.patientName, new: updatedName };
     }
-    if (existing.patientPhone !== (updated.patient.phone ?? null)) {
-      changes.patientPhone = { old: existing.patientPhone, new: updated.patient.phone ?? null };
+    const updatedPhone = this.normalizePhone(updated.patient.phone);
+    if (existing.patientPhone !== updatedPhone) {
+      changes.patientPhone = { old: existing.patientPhone, new: updatedPhone };
+    }
+    const updatedEmail = updated.patient.email ?? null;
+    if ((existing.patientEmail ?? null) !== updatedEmail) {
+      changes.patientEmail = { old: existing.patientEmail, new: updatedEmail };
     }
     if (existing.appointmentTime !== updatedTime) {
       changes.appointmentTime = { old: existing.appointmentTime, new: updatedTime };
@@ -1,5 +1,7 @@
 import type { PMSType } from '../types';
+import { CircuitBreaker, circuitBreaker } from './circuit-breaker';
 import { RateLimiter, rateLimiter } from './rate-limiter';
+import { isRequestJournalEnabled, parseRequestBody, recordPMSRequest } from './request-journal';
 import { withRetry, RetryableError, defaultRetryOptions, type RetryOptions } from './retry-handler';
 
 export interface HttpClientOptions {
@@ -10,32 +12,53 @@ export interface HttpClientOptions {
 
 export interface RequestOptions extends RequestInit {
   token?: string;
+  rateLimitKey?: string; // Tenant/connection the request counts against (defaults to the PMS type)
+  circuitKey?: string;   // Circuit the request trips on failure (defaults to rateLimitKey)
   skipRateLimit?: boolean;
   skipRetry?: boolean;
 }
 
 /**
- * HTTP client wrapper with retry and rate limiting for PMS APIs
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+
+  return undefined;
+}
+
+/**
+ * HTTP client wrapper with retry, rate limiting and a circuit breaker for PMS APIs
  */
 export class PMSHttpClient {
   private rateLimiterInstance: RateLimiter;
+  private circuitBreakerInstance: CircuitBreaker;
 
   constructor(
     private pmsType: PMSType,
     private options: HttpClientOptions = {},
-    rateLimiterOverride?: RateLimiter
+    rateLimiterOverride?: RateLimiter,
+    circuitBreakerOverride?: CircuitBreaker
   ) {
     this.rateLimiterInstance = rateLimiterOverride ?? rateLimiter;
+    this.circuitBreakerInstance = circuitBreakerOverride ?? circuitBreaker;
   }
 
   /**
-   * Make an HTTP request with retry and rate limiting
+   * Make an HTTP request with retry and rate limiting.
+   * Fails fast with CircuitOpenError while the PMS is marked as down.
    */
   async request<T>(
     url: string,
     options: RequestOptions = {}
   ): Promise<T> {
-    const { token, skipRateLimit, skipRetry, ...fetchOptions } = options;
+    const { token, rateLimitKey = this.pmsType, circuitKey = rateLimitKey, skipRateLimit, skipRetry, ...fetchOptions } = options;
 
     // Build full URL if base URL is set
     const fullUrl = this.options.baseUrl && !url.startsWith('http')
@@ -59,20 +82,34 @@ export class PMSHttpClient {
       headers,
     };
 
+    let attempt = 0;
+
     // The actual fetch operation
     const doFetch = async (): Promise<T> => {
+      attempt++;
+
       // Apply rate limiting
       if (!skipRateLimit) {
-        await this.rateLimiterInstance.acquire(this.pmsType);
+        await this.rateLimiterInstance.acquire(this.pmsType, rateLimitKey);
       }
 
+      // What the journal (if enabled for this sync) records about the attempt
+      const startedAt = Date.now();
+      let status: number | undefined;
+      let responseBody: unknown;
+      let failure: unknown;
+
       try {
         const response = await fetch(fullUrl, requestInit);
+        status = response.status;
 
-        // Handle rate limit response
+        // Handle rate limit response - back off every caller sharing this key
         if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
+          const retryAfterSeconds = parseRetryAfter(response.headers.get('Retry-After'));
+
+          if (!skipRateLimit) {
+            await this.rateLimiterInstance.handleRateLimitResponse(this.pmsType, retryAfterSeconds, rateLimitKey);
+          }
 
           throw new RetryableError(
             'Rate limit exceeded',
@@ -84,12 +121,23 @@ export class PMSHttpClient {
         // Handle other error responses
         if (!response.ok) {
           const errorBody = await response.text().catch(() => 'Unknown error');
+          responseBody = errorBody;
 
           // Server errors are retryable
           if (response.status >= 500) {
+            // 503 may also say how long the PMS wants us to stay away
+            const retryAfterSeconds = response.status === 503
+              ? parseRetryAfter(response.headers.get('Retry-After'))
+              : undefined;
+
+            if (retryAfterSeconds !== undefined && !skipRateLimit) {
+              await this.rateLimiterInstance.handleRateLimitResponse(this.pmsType, retryAfterSeconds, rateLimitKey);
+            }
+
             throw new RetryableError(
               `Server error: ${response.status} - ${errorBody}`,
-              response.status
+              response.status,
+              retryAfterSeconds
             );
           }
 
@@ -100,12 +148,16 @@ export class PMSHttpClient {
         // Parse response
         const contentType = response.headers.get('Content-Type');
         if (contentType?.includes('application/json')) {
-          return await response.json() as T;
+          responseBody = await response.json();
+          return responseBody as T;
         }
 
         // Return text for non-JSON responses
-        return await response.text() as T;
+        responseBody = await response.text();
+        return responseBody as T;
       } catch (error) {
+        failure = error;
+
         // Re-throw if already a RetryableError
         if (error instanceof RetryableError) {
           throw error;
@@ -117,22 +169,37 @@ export class PMSHttpClient {
         }
 
         throw error;
+      } finally {
+        if (isRequestJournalEnabled()) {
+          await recordPMSRequest({
+            method: requestInit.method ?? 'GET',
+            url: fullUrl,
+            attempt,
+            status,
+            latencyMs: Date.now() - startedAt,
+            requestBody: parseRequestBody(requestInit.body),
+            responseBody,
+            error: failure instanceof Error ? failure.message : undefined,
+          });
+        }
       }
     };
 
-    // Apply retry logic
-    if (skipRetry) {
-      return doFetch();
-    }
+    // Apply retry logic; the breaker sees one outcome per request, after retries
+    return this.circuitBreakerInstance.execute(circuitKey, () => {
+      if (skipRetry) {
+        return doFetch();
+      }
 
-    return withRetry(doFetch, {
-      ...defaultRetryOptions,
-      ...this.options.retryOptions,
-      onRetry: (attempt, error) => {
-        console.warn(
-          `[${this.pmsType}] Request to ${fullUrl} failed, attempt ${attempt}: ${error.message}`
-        );
-      },
+      return withRetry(doFetch, {
+        ...defaultRetryOptions,
+        ...this.options.retryOptions,
+        onRetry: (attempt, error) => {
+          console.warn(
+            `[${this.pmsType}] Request to ${fullUrl} failed, attempt ${attempt}: ${error.message}`
+          );
+        },
+      });
     });
   }
 
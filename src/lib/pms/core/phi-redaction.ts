@@ -0,0 +1,134 @@
+/**
+ * Redaction of patient identifiers from PMS payloads before they're stored.
+ *
+ * Values are matched by field name (covering the Gentu, Medirecords and
+ * Halaxy shapes), by FHIR ContactPoint system, and as the value of any
+ * identifier entry (Medicare, IHI, DVA and the like). Free-text fields such as
+ * notes are dropped whole, since staff write anything in them; other
+ * strings are masked by pattern for emails, phone numbers, dates of birth
+ * and Medicare/IHI numbers. IDs, statuses and ISO times are kept so a
+ * journal entry can still be matched to an appointment.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// Patient name fields. `name` is only redacted when it's a structured
+// HumanName - plain string names belong to appointment types and locations.
+const NAME_KEYS = /^(given|family|prefix|suffix|first_?name|last_?name|middle_?name|preferred_?name|full_?name|patient_?name|surname|display)$/i;
+const DOB_KEYS = /^(birth_?date|dob|date_?of_?birth)$/i;
+const PHONE_KEYS = /(phone|mobile|fax|telecom)/i;
+const EMAIL_KEYS = /email/i;
+const ADDRESS_KEYS = /^(address|line|postal_?code)$/i;
+const GOVERNMENT_ID_KEYS = /^(medicare|ihi|dva)_?(no|num|number|card_?number|file_?number|irn)?$/i;
+const IDENTIFIER_KEYS = /^identifiers?$/i;
+const FREE_TEXT_KEYS = /^(notes?|comments?|description|reason|reason_?text|clinical_?notes?|message|instructions?)$/i;
+
+// Credentials in token requests and responses
+const SECRET_KEYS = /^(client_?secret|access_?token|refresh_?token|id_?token|password|authorization)$/i;
+
+const CONTACT_POINT_SYSTEMS = new Set(['phone', 'sms', 'fax', 'email', 'pager']);
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// Australian landline/mobile numbers, with or without +61 and spacing
+const PHONE_PATTERN = /(?:\+?61[ -]?|\b0)[2-478](?:[ -]?\d){8}\b/g;
+// Day-first dates as people write them (d/m/yyyy); ISO timestamps are left alone
+const DOB_PATTERN = /\b\d{1,2}[/.-]\d{1,2}[/.-](?:19|20)\d{2}\b/g;
+// Medicare: 10 digits plus optional IRN, spaced 4-5-1, or bare after the word "Medicare"
+const MEDICARE_PATTERN = /\b[2-6]\d{3} \d{5} \d(?: ?\d)?\b|(medicare(?: (?:no|number|#))?[:.]? *)[2-6]\d{9,10}\b/gi;
+// IHI: 16 digits starting 800360
+const IHI_PATTERN = /\b8003 ?60\d{2} ?\d{4} ?\d{4}\b/g;
+
+function isSensitiveKey(key: string, value: unknown): boolean {
+  if (key === 'name') return typeof value === 'object' && value !== null;
+
+  return NAME_KEYS.test(key)
+    || DOB_KEYS.test(key)
+    || PHONE_KEYS.test(key)
+    || EMAIL_KEYS.test(key)
+    || ADDRESS_KEYS.test(key)
+    || GOVERNMENT_ID_KEYS.test(key)
+    || FREE_TEXT_KEYS.test(key)
+    || SECRET_KEYS.test(key);
+}
+
+/**
+ * Mask emails, phone numbers, dates of birth and Medicare/IHI numbers inside a string
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, REDACTED)
+    .replace(IHI_PATTERN, REDACTED)
+    .replace(MEDICARE_PATTERN, (_match, label?: string) => `${label ?? ''}${REDACTED}`)
+    .replace(PHONE_PATTERN, REDACTED)
+    .replace(DOB_PATTERN, REDACTED);
+}
+
+/**
+ * FHIR Identifier / Gentu identifier entries: { type, system, value }. The
+ * type and system say which number it was; the value is the number itself.
+ */
+function redactIdentifiers(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactIdentifiers);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return typeof value === 'string' ? REDACTED : value;
+  }
+
+  const { value: identifierValue, ...rest } = value as Record<string, unknown>;
+  const redacted = redactPHI(rest) as Record<string, unknown>;
+  return identifierValue === undefined ? redacted : { ...redacted, value: identifierValue === null ? null : REDACTED };
+}
+
+/**
+ * Deep-copy a parsed payload with patient identifiers replaced
+ */
+export function redactPHI(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redactPHI);
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+
+  // FHIR ContactPoint / Gentu contact: { system: 'phone', value: '...' }
+  const isContactPoint = typeof record.system === 'string'
+    && CONTACT_POINT_SYSTEMS.has(record.system.toLowerCase());
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(record)) {
+    if (fieldValue === null || fieldValue === undefined) {
+      redacted[key] = fieldValue;
+    } else if (isSensitiveKey(key, fieldValue) || (isContactPoint && key === 'value')) {
+      redacted[key] = REDACTED;
+    } else if (IDENTIFIER_KEYS.test(key)) {
+      redacted[key] = redactIdentifiers(fieldValue);
+    } else {
+      redacted[key] = redactPHI(fieldValue);
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Redact sensitive query parameters (e.g. patient searches) from a URL
+ */
+export function redactUrl(url: string): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return redactText(url);
+
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  for (const [key, value] of [...params.entries()]) {
+    params.set(key, isSensitiveKey(key, value) || key === 'name' ? REDACTED : redactText(value));
+  }
+
+  return `${redactText(url.slice(0, queryStart))}?${params.toString()}`;
+}
@@ -0,0 +1,241 @@
+import { eq, sql } from 'drizzle-orm';
+import { pmsRateLimits } from '@/db/schema';
+
+export interface RateLimitConfig {
+  requestsPerMinute: number;
+  requestsPerHour: number;
+}
+
+export interface RateLimitUsage {
+  minuteRequests: number;
+  hourRequests: number;
+  blockedUntil: Date | null;
+}
+
+export type AcquireResult =
+  | { acquired: true }
+  | { acquired: false; waitMs: number };
+
+/**
+ * Backing store for rate limit counters.
+ *
+ * Counters use fixed minute and hour windows per key, so a store only has to
+ * keep two counts and a block-until time per key and can update them atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Count a request against the key if it's within limits and not blocked,
+   * otherwise report how long until a slot opens
+   */
+  tryAcquire(key: string, limits: RateLimitConfig): Promise<AcquireResult>;
+
+  /**
+   * Give back the most recent slot (the request didn't count upstream)
+   */
+  release(key: string): Promise<void>;
+
+  /**
+   * Block the key until the given time (e.g. from a Retry-After header)
+   */
+  blockUntil(key: string, until: Date): Promise<void>;
+
+  getUsage(key: string): Promise<RateLimitUsage>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Floor for waits reported while a window is rolling over
+const MIN_WAIT_MS = 50;
+
+interface WindowState {
+  minuteWindowStart: number;
+  minuteCount: number;
+  hourWindowStart: number;
+  hourCount: number;
+  blockedUntil: number | null;
+}
+
+/**
+ * Single-process store. Used in tests and when no database is configured.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private state: Map<string, WindowState> = new Map();
+
+  constructor(private now: () => number = Date.now) {}
+
+  private getState(key: string): WindowState {
+    const now = this.now();
+    const minuteWindowStart = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+    const hourWindowStart = Math.floor(now / HOUR_MS) * HOUR_MS;
+    const state = this.state.get(key);
+
+    const current: WindowState = {
+      minuteWindowStart,
+      minuteCount: state?.minuteWindowStart === minuteWindowStart ? state.minuteCount : 0,
+      hourWindowStart,
+      hourCount: state?.hourWindowStart === hourWindowStart ? state.hourCount : 0,
+      blockedUntil: state?.blockedUntil && state.blockedUntil > now ? state.blockedUntil : null,
+    };
+
+    this.state.set(key, current);
+    return current;
+  }
+
+  async tryAcquire(key: string, limits: RateLimitConfig): Promise<AcquireResult> {
+    const now = this.now();
+    const state = this.getState(key);
+
+    let waitMs = 0;
+    if (state.blockedUntil) {
+      waitMs = Math.max(waitMs, state.blockedUntil - now);
+    }
+    if (state.minuteCount >= limits.requestsPerMinute) {
+      waitMs = Math.max(waitMs, state.minuteWindowStart + MINUTE_MS - now);
+    }
+    if (state.hourCount >= limits.requestsPerHour) {
+      waitMs = Math.max(waitMs, state.hourWindowStart + HOUR_MS - now);
+    }
+
+    if (waitMs > 0) {
+      return { acquired: false, waitMs };
+    }
+
+    state.minuteCount++;
+    state.hourCount++;
+    return { acquired: true };
+  }
+
+  async release(key: string): Promise<void> {
+    const state = this.getState(key);
+    state.minuteCount = Math.max(0, state.minuteCount - 1);
+    state.hourCount = Math.max(0, state.hourCount - 1);
+  }
+
+  async blockUntil(key: string, until: Date): Promise<void> {
+    const state = this.getState(key);
+    state.blockedUntil = Math.max(state.blockedUntil ?? 0, until.getTime());
+  }
+
+  async getUsage(key: string): Promise<RateLimitUsage> {
+    const state = this.getState(key);
+    return {
+      minuteRequests: state.minuteCount,
+      hourRequests: state.hourCount,
+      blockedUntil: state.blockedUntil ? new Date(state.blockedUntil) : null,
+    };
+  }
+}
+
+/**
+ * Store shared by every process through the pms_rate_limits table.
+ * Each acquire is a single conditional upsert, so concurrent callers
+ * can't both take the last slot. Window times come from the database clock.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  // Loaded lazily so importing the adapters doesn't require DATABASE_URL
+  private async getDb() {
+    return (await import('@/db')).db;
+  }
+
+  async tryAcquire(key: string, limits: RateLimitConfig): Promise<AcquireResult> {
+    const db = await this.getDb();
+    const minuteStart = sql`date_trunc('minute', now())`;
+    const hourStart = sql`date_trunc('hour', now())`;
+
+    const acquired = await db
+      .insert(pmsRateLimits)
+      .values({
+        key,
+        minuteWindowStart: minuteStart,
+        minuteCount: 1,
+        hourWindowStart: hourStart,
+        hourCount: 1,
+      })
+      .onConflictDoUpdate({
+        target: pmsRateLimits.key,
+        set: {
+          minuteCount: sql`case when ${pmsRateLimits.minuteWindowStart} = excluded.minute_window_start then ${pmsRateLimits.minuteCount} + 1 else 1 end`,
+          minuteWindowStart: sql`excluded.minute_window_start`,
+          hourCount: sql`case when ${pmsRateLimits.hourWindowStart} = excluded.hour_window_start then ${pmsRateLimits.hourCount} + 1 else 1 end`,
+          hourWindowStart: sql`excluded.hour_window_start`,
+          updatedAt: sql`now()`,
+        },
+        setWhere: sql`(${pmsRateLimits.blockedUntil} is null or ${pmsRateLimits.blockedUntil} <= now())
+          and (${pmsRateLimits.minuteWindowStart} <> excluded.minute_window_start or ${pmsRateLimits.minuteCount} < ${limits.requestsPerMinute})
+          and (${pmsRateLimits.hourWindowStart} <> excluded.hour_window_start or ${pmsRateLimits.hourCount} < ${limits.requestsPerHour})`,
+      })
+      .returning({ key: pmsRateLimits.key });
+
+    if (acquired.length > 0) {
+      return { acquired: true };
+    }
+
+    const [row] = await db
+      .select({
+        waitMs: sql<number>`ceil(greatest(
+          coalesce(extract(epoch from (${pmsRateLimits.blockedUntil} - now())), 0),
+          case when ${pmsRateLimits.minuteWindowStart} = date_trunc('minute', now()) and ${pmsRateLimits.minuteCount} >= ${limits.requestsPerMinute}
+            then extract(epoch from (${pmsRateLimits.minuteWindowStart} + interval '1 minute' - now())) else 0 end,
+          case when ${pmsRateLimits.hourWindowStart} = date_trunc('hour', now()) and ${pmsRateLimits.hourCount} >= ${limits.requestsPerHour}
+            then extract(epoch from (${pmsRateLimits.hourWindowStart} + interval '1 hour' - now())) else 0 end
+        ) * 1000)::int`,
+      })
+      .from(pmsRateLimits)
+      .where(eq(pmsRateLimits.key, key));
+
+    return { acquired: false, waitMs: Math.max(Number(row?.waitMs ?? 0), MIN_WAIT_MS) };
+  }
+
+  async release(key: string): Promise<void> {
+    const db = await this.getDb();
+
+    await db
+      .update(pmsRateLimits)
+      .set({
+        minuteCount: sql`greatest(${pmsRateLimits.minuteCount} - 1, 0)`,
+        hourCount: sql`greatest(${pmsRateLimits.hourCount} - 1, 0)`,
+        updatedAt: sql`now()`,
+      })
+      .where(eq(pmsRateLimits.key, key));
+  }
+
+  async blockUntil(key: string, until: Date): Promise<void> {
+    const db = await this.getDb();
+
+    await db
+      .insert(pmsRateLimits)
+      .values({
+        key,
+        minuteWindowStart: sql`date_trunc('minute', now())`,
+        hourWindowStart: sql`date_trunc('hour', now())`,
+        blockedUntil: until,
+      })
+      .onConflictDoUpdate({
+        target: pmsRateLimits.key,
+        set: {
+          blockedUntil: sql`greatest(coalesce(${pmsRateLimits.blockedUntil}, excluded.blocked_until), excluded.blocked_until)`,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+
+  async getUsage(key: string): Promise<RateLimitUsage> {
+    const db = await this.getDb();
+
+    const [row] = await db
+      .select({
+        minuteRequests: sql<number>`case when ${pmsRateLimits.minuteWindowStart} = date_trunc('minute', now()) then ${pmsRateLimits.minuteCount} else 0 end`,
+        hourRequests: sql<number>`case when ${pmsRateLimits.hourWindowStart} = date_trunc('hour', now()) then ${pmsRateLimits.hourCount} else 0 end`,
+        blockedUntil: sql<Date | null>`case when ${pmsRateLimits.blockedUntil} > now() then ${pmsRateLimits.blockedUntil} end`.mapWith(pmsRateLimits.blockedUntil),
+      })
+      .from(pmsRateLimits)
+      .where(eq(pmsRateLimits.key, key));
+
+    return {
+      minuteRequests: Number(row?.minuteRequests ?? 0),
+      hourRequests: Number(row?.hourRequests ?? 0),
+      blockedUntil: row?.blockedUntil ?? null,
+    };
+  }
+}
@@ -1,14 +1,10 @@
-import type { PMSType } from '../types';
-
-interface RateLimitConfig {
-  requestsPerMinute: number;
-  requestsPerHour: number;
-}
-
-interface RateLimitState {
-  minuteRequests: number[];
-  hourRequests: number[];
-}
+import type { PMSConnection, PMSType } from '../types';
+import {
+  InMemoryRateLimitStore,
+  PostgresRateLimitStore,
+  type RateLimitConfig,
+  type RateLimitStore,
+} from './rate-limit-store';
 
 const rateLimits: Record<PMSType, RateLimitConfig> = {
   gentu: { requestsPerMinute: 60, requestsPerHour: 1000 },
@@ -16,153 +12,113 @@ const rateLimits: Record<PMSType, RateLimitConfig> = {
   halaxy: { requestsPerMinute: 60, requestsPerHour: 1000 },
 };
 
+// Longest single sleep while waiting for a slot; the store is re-checked after each
+const MAX_WAIT_SLICE_MS = 60 * 1000;
+
 /**
- * Rate limiter for PMS API requests
- * Uses sliding window algorithm to track requests per minute and hour
+ * Limit key for a PMS tenant (e.g. a Gentu tenant or Medirecords practice).
+ * Without a scope the key covers app-level calls such as token requests.
  */
-export class RateLimiter {
-  private state: Map<PMSType, RateLimitState> = new Map();
-
-  constructor() {
-    // Initialize state for all PMS types
-    for (const pmsType of Object.keys(rateLimits) as PMSType[]) {
-      this.state.set(pmsType, {
-        minuteRequests: [],
-        hourRequests: [],
-      });
-    }
-  }
-
-  /**
-   * Clean up old request timestamps from the state
-   */
-  private cleanupState(state: RateLimitState): void {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60 * 1000;
-    const oneHourAgo = now - 60 * 60 * 1000;
-
-    // Remove timestamps older than 1 minute
-    state.minuteRequests = state.minuteRequests.filter(ts => ts > oneMinuteAgo);
+export function getRateLimitKey(pmsType: PMSType, scopeId?: string | null): string {
+  return scopeId ? `${pmsType}:${scopeId}` : pmsType;
+}
 
-    // Remove timestamps older than 1 hour
-    state.hourRequests = state.hourRequests.filter(ts => ts > oneHourAgo);
+/**
+ * Limit key for a connection, scoped to its tenant where the PMS has one
+ */
+export function getConnectionRateLimitKey(
+  connection: Pick<PMSConnection, 'id' | 'pmsType'> & {
+    tenantId?: string | null;
+    practiceId?: string | null;
+    organizationId?: string | null;
   }
+): string {
+  return getRateLimitKey(
+    connection.pmsType,
+    connection.tenantId ?? connection.practiceId ?? connection.organizationId ?? connection.id
+  );
+}
 
-  /**
-   * Calculate time to wait before next request is allowed
-   */
-  private getWaitTime(pmsType: PMSType): number {
-    const config = rateLimits[pmsType];
-    const state = this.state.get(pmsType);
-
-    if (!state) {
-      return 0;
-    }
-
-    this.cleanupState(state);
-
-    const now = Date.now();
-
-    // Check minute limit
-    if (state.minuteRequests.length >= config.requestsPerMinute) {
-      const oldestMinuteRequest = state.minuteRequests[0];
-      const waitForMinute = oldestMinuteRequest + 60 * 1000 - now;
-
-      if (waitForMinute > 0) {
-        return waitForMinute;
-      }
-    }
-
-    // Check hour limit
-    if (state.hourRequests.length >= config.requestsPerHour) {
-      const oldestHourRequest = state.hourRequests[0];
-      const waitForHour = oldestHourRequest + 60 * 60 * 1000 - now;
-
-      if (waitForHour > 0) {
-        return waitForHour;
-      }
-    }
-
-    return 0;
-  }
+/**
+ * Rate limiter for PMS API requests.
+ * Limits come from the PMS type and are applied per key (tenant or connection),
+ * with counters kept in a pluggable store so they can be shared across processes.
+ */
+export class RateLimiter {
+  constructor(private store: RateLimitStore = new InMemoryRateLimitStore()) {}
 
   /**
    * Acquire a slot to make a request
-   * Waits if rate limit is exceeded
+   * Waits if rate limit is exceeded or the key is blocked by a 429
    */
-  async acquire(pmsType: PMSType): Promise<void> {
-    const waitTime = this.getWaitTime(pmsType);
+  async acquire(pmsType: PMSType, key: string = pmsType): Promise<void> {
+    for (;;) {
+      const result = await this.store.tryAcquire(key, rateLimits[pmsType]);
+      if (result.acquired) return;
 
-    if (waitTime > 0) {
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-
-    // Record this request
-    const state = this.state.get(pmsType);
-    if (state) {
-      const now = Date.now();
-      state.minuteRequests.push(now);
-      state.hourRequests.push(now);
+      await new Promise(resolve => setTimeout(resolve, Math.min(result.waitMs, MAX_WAIT_SLICE_MS)));
     }
   }
 
   /**
    * Release a slot (call if request failed and shouldn't count against limit)
    */
-  release(pmsType: PMSType): void {
-    const state = this.state.get(pmsType);
-    if (state) {
-      // Remove the most recent request from both arrays
-      state.minuteRequests.pop();
-      state.hourRequests.pop();
-    }
+  async release(pmsType: PMSType, key: string = pmsType): Promise<void> {
+    await this.store.release(key);
   }
 
   /**
-   * Handle rate limit response from server (e.g., 429 Too Many Requests)
+   * Handle rate limit response from server (e.g., 429 Too Many Requests).
+   * Blocks the key for everyone sharing the store; later acquires wait it out.
    */
-  async handleRateLimitResponse(pmsType: PMSType, retryAfter?: number): Promise<void> {
+  async handleRateLimitResponse(
+    pmsType: PMSType,
+    retryAfter?: number,
+    key: string = pmsType
+  ): Promise<void> {
     // Default to 60 seconds if no retry-after header
     const waitMs = (retryAfter ?? 60) * 1000;
 
     // Release the failed request (it shouldn't count against limit)
-    this.release(pmsType);
+    await this.release(pmsType, key);
 
-    // Wait for the specified time
-    await new Promise(resolve => setTimeout(resolve, waitMs));
+    await this.store.blockUntil(key, new Date(Date.now() + waitMs));
   }
 
   /**
    * Get current rate limit status
    */
-  getStatus(pmsType: PMSType): {
+  async getStatus(pmsType: PMSType, key: string = pmsType): Promise<{
     minuteRequests: number;
     hourRequests: number;
     minuteLimit: number;
     hourLimit: number;
-  } {
+    blockedUntil: Date | null;
+  }> {
     const config = rateLimits[pmsType];
-    const state = this.state.get(pmsType);
-
-    if (!state) {
-      return {
-        minuteRequests: 0,
-        hourRequests: 0,
-        minuteLimit: config.requestsPerMinute,
-        hourLimit: config.requestsPerHour,
-      };
-    }
-
-    this.cleanupState(state);
+    const usage = await this.store.getUsage(key);
 
     return {
-      minuteRequests: state.minuteRequests.length,
-      hourRequests: state.hourRequests.length,
+      minuteRequests: usage.minuteRequests,
+      hourRequests: usage.hourRequests,
       minuteLimit: config.requestsPerMinute,
       hourLimit: config.requestsPerHour,
+      blockedUntil: usage.blockedUntil,
     };
   }
 }
 
+/**
+ * Postgres when a database is configured, so limits hold across workers and
+ * serverless invocations. PMS_RATE_LIMIT_STORE=memory forces the in-process store.
+ */
+export function createRateLimitStore(): RateLimitStore {
+  if (process.env.PMS_RATE_LIMIT_STORE === 'memory' || !process.env.DATABASE_URL) {
+    return new InMemoryRateLimitStore();
+  }
+
+  return new PostgresRateLimitStore();
+}
+
 // Singleton instance for use across the application
-export const rateLimiter = new RateLimiter();
+export const rateLimiter = new RateLimiter(createRateLimitStore());
@@ -0,0 +1,124 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { asc, eq } from 'drizzle-orm';
+import { pmsRequestJournal } from '@/db/schema';
+import { redactPHI, redactText, redactUrl } from './phi-redaction';
+
+/**
+ * Opt-in journal of PMS requests made during a sync.
+ *
+ * The orchestrator runs each sync inside a journal context; PMSHttpClient
+ * records every attempt it makes while a context with `enabled` is active.
+ * Bodies are redacted before they're written and the entries hang off the
+ * pms_sync_log row, so they're removed with it.
+ */
+
+export interface RequestJournalContext {
+  connectionId: string;
+  syncLogId?: string;
+  enabled: boolean;
+}
+
+export interface PMSRequestRecord {
+  method: string;
+  url: string;
+  attempt: number;
+  status?: number;
+  latencyMs: number;
+  requestBody?: unknown;
+  responseBody?: unknown;
+  error?: string;
+}
+
+// Larger bodies are stored as a truncated preview
+const MAX_BODY_CHARS = 64 * 1024;
+
+const storage = new AsyncLocalStorage<RequestJournalContext>();
+
+/**
+ * Run an operation with PMS requests journalled to the given context
+ */
+export function runWithRequestJournal<T>(
+  context: RequestJournalContext,
+  operation: () => Promise<T>
+): Promise<T> {
+  return storage.run(context, operation);
+}
+
+/**
+ * Whether requests made right now should be journalled
+ */
+export function isRequestJournalEnabled(): boolean {
+  return storage.getStore()?.enabled === true;
+}
+
+/**
+ * Parse a request body into something worth storing: JSON, form fields or text
+ */
+export function parseRequestBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string') {
+    return body == null ? undefined : '[binary body]';
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    const params = new URLSearchParams(body);
+    return body.includes('=') ? Object.fromEntries(params.entries()) : body;
+  }
+}
+
+function prepareBody(body: unknown): unknown {
+  if (body === undefined) return null;
+
+  const redacted = redactPHI(body);
+  const serialised = JSON.stringify(redacted);
+  if (serialised.length <= MAX_BODY_CHARS) return redacted;
+
+  return {
+    truncated: true,
+    length: serialised.length,
+    preview: serialised.slice(0, MAX_BODY_CHARS),
+  };
+}
+
+/**
+ * Write a redacted journal entry for the current context.
+ * Failures are logged and swallowed - the journal must never break a sync.
+ */
+export async function recordPMSRequest(record: PMSRequestRecord): Promise<void> {
+  const context = storage.getStore();
+  if (!context?.enabled) return;
+
+  try {
+    // Loaded lazily so importing the adapters doesn't require DATABASE_URL
+    const { db } = await import('@/db');
+
+    await db.insert(pmsRequestJournal).values({
+      pmsConnectionId: context.connectionId,
+      syncLogId: context.syncLogId,
+      method: record.method,
+      url: redactUrl(record.url),
+      attempt: record.attempt,
+      status: record.status,
+      latencyMs: record.latencyMs,
+      requestBody: prepareBody(record.requestBody),
+      responseBody: prepareBody(record.responseBody),
+      error: record.error ? redactText(record.error) : undefined,
+    });
+  } catch (error) {
+    console.error('Error writing PMS request journal:', error);
+  }
+}
+
+/**
+ * Journal entries for a sync run, in the order the requests were made
+ */
+export async function getRequestJournal(syncLogId: string) {
+  const { db } = await import('@/db');
+
+  return db
+    .select()
+    .from(pmsRequestJournal)
+    .where(eq(pmsRequestJournal.syncLogId, syncLogId))
+    .orderBy(asc(pmsRequestJournal.createdAt));
+}
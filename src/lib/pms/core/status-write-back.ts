@@ -0,0 +1,69 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { runSheetAppointments } from '@/db/schema';
+import type { AppointmentStatus } from '../types';
+import { getAdapter } from '../adapters';
+import { getConnection, toPMSConnection } from '../connections';
+import { TokenManager } from './token-manager';
+
+export type StatusWriteBackOutcome =
+  | { status: 'success' }
+  | { status: 'failed'; error: string }
+  | { status: 'skipped'; reason: string };
+
+/**
+ * Push a run sheet appointment's status to the PMS it was synced from and
+ * record the outcome on the row. Manual entries and PMSs without write-back
+ * are skipped; a rejected update is recorded rather than thrown so the local
+ * status change still stands.
+ */
+export async function writeBackAppointmentStatus(
+  runSheetAppointmentId: string,
+  status: AppointmentStatus,
+  tokenManager: TokenManager = new TokenManager()
+): Promise<StatusWriteBackOutcome> {
+  const [appointment] = await db
+    .select({
+      pmsConnectionId: runSheetAppointments.pmsConnectionId,
+      pmsAppointmentId: runSheetAppointments.pmsAppointmentId,
+    })
+    .from(runSheetAppointments)
+    .where(eq(runSheetAppointments.id, runSheetAppointmentId))
+    .limit(1);
+
+  if (!appointment?.pmsConnectionId || !appointment.pmsAppointmentId) {
+    return { status: 'skipped', reason: 'Appointment is not linked to a PMS' };
+  }
+
+  const row = await getConnection(appointment.pmsConnectionId);
+  if (!row) {
+    return { status: 'skipped', reason: 'PMS connection not found' };
+  }
+
+  const adapter = getAdapter(row.pmsType);
+  if (!adapter.updateAppointmentStatus) {
+    return { status: 'skipped', reason: `${row.displayName} does not support status updates` };
+  }
+
+  let outcome: StatusWriteBackOutcome;
+  try {
+    const connection = toPMSConnection(row);
+    await tokenManager.refreshIfNeeded(connection, adapter);
+    await adapter.updateAppointmentStatus(connection, appointment.pmsAppointmentId, status);
+    outcome = { status: 'success' };
+  } catch (error) {
+    outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await db
+    .update(runSheetAppointments)
+    .set({
+      pmsWriteBackStatus: outcome.status,
+      pmsWriteBackError: outcome.status === 'failed' ? outcome.error : null,
+      pmsWriteBackAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(runSheetAppointments.id, runSheetAppointmentId));
+
+  return outcome;
+}
@@ -1,23 +1,48 @@
-import { eq, and } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { eq, and, desc, inArray, isNull, lt, or } from 'drizzle-orm';
 import { db } from '@/db';
 import {
   pmsConnections,
   pmsClinicianMappings,
-  pmsAppointmentTypes,
   pmsSyncLog,
   runSheets,
   runSheetAppointments,
   runSheetClinicians,
+  telehealthInvites,
 } from '@/db/schema';
 import type {
   PMSConnection,
   UnifiedAppointment,
+  UnifiedPatient,
   SyncResult,
   SyncType,
   PMSAdapter,
+  PMSWebhookEvent,
+  FetchOptions,
 } from '../types';
+import { toPMSConnection } from '../connections';
 import { TokenManager } from './token-manager';
+import { circuitBreaker, describeCircuit, CircuitOpenError } from './circuit-breaker';
+import { getConnectionRateLimitKey } from './rate-limiter';
+import { runWithRequestJournal, type RequestJournalContext } from './request-journal';
 import { DataMapper } from './data-mapper';
+import { suggestClinicianMatches, CONFIDENT_MATCH_SCORE } from './clinician-matcher';
+import { getAppointmentTypeCatalogue, syncAppointmentTypeCatalogue } from './appointment-type-catalogue';
+import { addDays, datesBetween, endOfZonedDay, formatZonedDate, startOfZonedDay } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound for range syncs, to keep a single adapter pass reasonable
+const MAX_RANGE_DAYS = 31;
+
+// Incremental cursors start this far before the previous run, to cover clock skew
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+// Incremental runs can't see deletions, so fall back to a full run (and reconcile
+// removed appointments) at least this often, however fresh the cursor is
+const MAX_CURSOR_AGE_MS = DAY_MS;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 /**
  * Orchestrates the sync process between PMS and run sheet
@@ -32,25 +57,104 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Main sync function - syncs today's appointments
+   * Main sync function - syncs today's appointments (today at the practice)
    */
   async syncTodayRunSheet(
     connectionId: string,
-    adapter: PMSAdapter
+    adapter: PMSAdapter,
+    syncType: SyncType = 'incremental'
   ): Promise<SyncResult> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = await this.getPracticeToday(connectionId);
 
-    return this.syncAppointmentsForDate(connectionId, today, adapter);
+    return this.syncAppointmentsForDate(connectionId, today, adapter, syncType);
   }
 
   /**
-   * Sync appointments for a specific date
+   * Sync appointments for a practice-local YYYY-MM-DD date
    */
   async syncAppointmentsForDate(
     connectionId: string,
-    date: Date,
-    adapter: PMSAdapter
+    date: string,
+    adapter: PMSAdapter,
+    syncType: SyncType = 'incremental'
+  ): Promise<SyncResult> {
+    return this.syncAppointmentsForRange(connectionId, date, date, adapter, syncType);
+  }
+
+  /**
+   * Sync every practice-local day from dateFrom to dateTo (YYYY-MM-DD, inclusive)
+   * in one adapter pass. Appointments are split into per-date run sheets and
+   * logged as a single run.
+   */
+  async syncAppointmentsForRange(
+    connectionId: string,
+    dateFrom: string,
+    dateTo: string,
+    adapter: PMSAdapter,
+    syncType: SyncType = 'full'
+  ): Promise<SyncResult> {
+    if (!DATE_PATTERN.test(dateFrom) || !DATE_PATTERN.test(dateTo)) {
+      throw new Error('Dates must be YYYY-MM-DD');
+    }
+    if (dateTo < dateFrom) {
+      throw new Error('dateTo must not be before dateFrom');
+    }
+    if (datesBetween(dateFrom, dateTo).length > MAX_RANGE_DAYS) {
+      throw new Error(`Date range is limited to ${MAX_RANGE_DAYS} days`);
+    }
+
+    return this.syncAppointments(connectionId, dateFrom, dateTo, adapter, syncType);
+  }
+
+  /**
+   * Sync today plus the following days, so invites can be scheduled ahead
+   */
+  async syncUpcomingRunSheets(
+    connectionId: string,
+    adapter: PMSAdapter,
+    days: number = 7,
+    syncType: SyncType = 'full'
+  ): Promise<SyncResult> {
+    const dateFrom = await this.getPracticeToday(connectionId);
+    const dateTo = addDays(dateFrom, days - 1);
+
+    return this.syncAppointmentsForRange(connectionId, dateFrom, dateTo, adapter, syncType);
+  }
+
+  /**
+   * Fetch a date range from the PMS and persist it to the run sheets
+   */
+  private async syncAppointments(
+    connectionId: string,
+    dateFrom: string,
+    dateTo: string,
+    adapter: PMSAdapter,
+    syncType: SyncType
+  ): Promise<SyncResult> {
+    // Log sync start
+    const syncLogEntry = await this.createSyncLogEntry(connectionId, syncType);
+
+    // PMS calls made during the run are journalled against the log entry
+    // once we know the connection has opted in
+    const journal: RequestJournalContext = {
+      connectionId,
+      syncLogId: syncLogEntry.id,
+      enabled: false,
+    };
+
+    return runWithRequestJournal(journal, () =>
+      this.runSync(syncLogEntry.id, journal, connectionId, dateFrom, dateTo, adapter, syncType)
+    );
+  }
+
+  private async runSync(
+    syncLogId: string,
+    journal: RequestJournalContext,
+    connectionId: string,
+    dateFrom: string,
+    dateTo: string,
+    adapter: PMSAdapter,
+    syncType: SyncType
   ): Promise<SyncResult> {
     const startTime = Date.now();
     const errors: Array<{ message: string; details?: unknown }> = [];
@@ -58,17 +162,18 @@ export class SyncOrchestrator {
     // Initialize result
     const result: SyncResult = {
       success: false,
-      syncType: 'incremental',
+      syncType,
       appointmentsFetched: 0,
       appointmentsCreated: 0,
       appointmentsUpdated: 0,
       appointmentsSkipped: 0,
+      appointmentsRemoved: 0,
       errors: [],
       durationMs: 0,
+      syncMode: 'full',
     };
 
-    // Log sync start
-    const syncLogEntry = await this.createSyncLogEntry(connectionId, 'incremental');
+    let circuitKey: string | undefined;
 
     try {
       // Get connection
@@ -78,113 +183,182 @@ export class SyncOrchestrator {
         .where(eq(pmsConnections.id, connectionId))
         .limit(1);
 
-      const connection = connections[0];
-      if (!connection) {
+      if (!connections[0]) {
         throw new Error(`Connection not found: ${connectionId}`);
       }
 
-      // Validate connection
-      await this.tokenManager.refreshIfNeeded(connection as PMSConnection, adapter);
+      // Decrypts stored tokens for the adapter
+      const connection = toPMSConnection(connections[0]);
+      circuitKey = getConnectionRateLimitKey(connection);
+      journal.enabled = connection.journalRequests;
 
-      // Get or create run sheet
-      const runSheetId = await this.getOrCreateRunSheet(date);
+      // Validate connection
+      await this.tokenManager.refreshIfNeeded(connection, adapter);
 
-      // Get clinician mappings for this connection
+      // Get clinician mappings for this connection (disabled ones mark practitioners to skip)
       const clinicianMappingsData = await db
         .select()
         .from(pmsClinicianMappings)
-        .where(
-          and(
-            eq(pmsClinicianMappings.pmsConnectionId, connectionId),
-            eq(pmsClinicianMappings.syncEnabled, true)
-          )
-        );
+        .where(eq(pmsClinicianMappings.pmsConnectionId, connectionId));
 
       const clinicianMap = new Map(
         clinicianMappingsData.map(m => [m.pmsPractitionerId, m])
       );
 
-      // Get telehealth appointment type IDs
-      const telehealthTypes = await db
-        .select()
-        .from(pmsAppointmentTypes)
-        .where(
-          and(
-            eq(pmsAppointmentTypes.pmsConnectionId, connectionId),
-            eq(pmsAppointmentTypes.isTelehealth, true)
-          )
-        );
+      // Load the type catalogue, pulling it from the PMS on first sync
+      let typeCatalogue = await getAppointmentTypeCatalogue(connectionId);
+      if (typeCatalogue.size === 0) {
+        await syncAppointmentTypeCatalogue(connection, adapter);
+        typeCatalogue = await getAppointmentTypeCatalogue(connectionId);
+      }
 
-      const telehealthTypeIds = new Set(telehealthTypes.map(t => t.pmsTypeId));
+      const telehealthTypeIds = new Set(
+        [...typeCatalogue.values()].filter(t => t.isTelehealth).map(t => t.pmsTypeId)
+      );
 
-      // Prepare fetch options
-      const dateEnd = new Date(date);
-      dateEnd.setHours(23, 59, 59, 999);
+      // Prepare fetch options - days run midnight to midnight at the practice
+      const rangeStart = startOfZonedDay(dateFrom, connection.timezone);
+      const rangeEnd = endOfZonedDay(dateTo, connection.timezone);
 
-      const fetchOptions = {
-        dateFrom: date,
-        dateTo: dateEnd,
+      // Incremental runs fetch only what changed since the last cursor, if it's usable
+      const fingerprint = this.getSyncFingerprint(connection, typeCatalogue, clinicianMappingsData);
+      if (syncType === 'incremental') {
+        const cursor = this.resolveSyncCursor(connections[0].syncCursor, adapter, dateFrom, dateTo, fingerprint);
+        result.syncCursor = cursor.updatedSince;
+        result.syncModeReason = cursor.reason;
+      }
+
+      const fetchOptions: FetchOptions = {
+        dateFrom: rangeStart,
+        dateTo: rangeEnd,
         telehealthOnly: connection.syncTelehealthOnly,
         includePatients: true,
         includePractitioners: true,
+        // Stored classification replaces adapter guesses once the catalogue exists
+        telehealthTypeIds: typeCatalogue.size > 0 ? [...telehealthTypeIds] : undefined,
       };
 
       // Fetch appointments from PMS
-      const allAppointments: UnifiedAppointment[] = [];
-      for await (const batch of adapter.fetchAppointments(
-        connection as PMSConnection,
-        fetchOptions
-      )) {
-        // Mark telehealth based on our configured types
-        const processedBatch = batch.map(appt => ({
-          ...appt,
-          isTelehealth: appt.isTelehealth || telehealthTypeIds.has(appt.appointmentTypeId ?? ''),
-        }));
-
-        allAppointments.push(...processedBatch);
-        result.appointmentsFetched += batch.length;
+      let allAppointments: UnifiedAppointment[];
+      if (result.syncCursor) {
+        result.syncMode = 'incremental';
+
+        try {
+          allAppointments = await this.fetchAllAppointments(
+            adapter,
+            connection,
+            { ...fetchOptions, updatedSince: result.syncCursor },
+            telehealthTypeIds
+          );
+        } catch (error) {
+          // A cursor the PMS won't accept means refetching everything
+          if (!(error instanceof Error && /^Request failed: (400|410|422)/.test(error.message))) {
+            throw error;
+          }
+
+          result.syncMode = 'full';
+          result.syncCursor = undefined;
+          result.syncModeReason = `PMS rejected the sync cursor: ${error.message}`;
+          allAppointments = await this.fetchAllAppointments(adapter, connection, fetchOptions, telehealthTypeIds);
+        }
+      } else {
+        allAppointments = await this.fetchAllAppointments(adapter, connection, fetchOptions, telehealthTypeIds);
       }
+      result.appointmentsFetched = allAppointments.length;
+
+      // Filter to telehealth only if configured, and drop types staff turned off
+      const filteredAppointments = allAppointments.filter(a =>
+        this.shouldSyncAppointment(a, connection, typeCatalogue)
+      );
+      result.appointmentsSkipped += allAppointments.length - filteredAppointments.length;
+
+      // Look up contact details the appointments didn't carry, once per patient per run
+      const appointmentsToSync = await this.enrichPatients(adapter, connection, filteredAppointments, new Map());
 
-      // Filter to telehealth only if configured
-      const appointmentsToSync = connection.syncTelehealthOnly
-        ? allAppointments.filter(a => a.isTelehealth)
-        : allAppointments;
+      // Split by day so each lands on its own run sheet
+      const appointmentsByDate = new Map<string, UnifiedAppointment[]>();
+      for (const appointment of appointmentsToSync) {
+        const dateStr = formatZonedDate(appointment.startTime, connection.timezone);
+        const dayAppointments = appointmentsByDate.get(dateStr) ?? [];
+        dayAppointments.push(appointment);
+        appointmentsByDate.set(dateStr, dayAppointments);
+      }
+
+      // A single-day sync always has its run sheet, even when empty
+      if (dateFrom === dateTo && appointmentsByDate.size === 0) {
+        appointmentsByDate.set(dateFrom, []);
+      }
+
+      result.runSheetDates = [...appointmentsByDate.keys()].sort();
 
       // Persist appointments
-      const persistResult = await this.persistAppointments(
-        runSheetId,
-        appointmentsToSync,
-        connection as PMSConnection,
-        clinicianMap
-      );
+      for (const dateStr of result.runSheetDates) {
+        const runSheetId = await this.getOrCreateRunSheet(dateStr);
+        const persistResult = await this.persistAppointments(
+          runSheetId,
+          appointmentsByDate.get(dateStr) ?? [],
+          connection,
+          clinicianMap
+        );
 
-      result.appointmentsCreated = persistResult.created;
-      result.appointmentsUpdated = persistResult.updated;
-      result.appointmentsSkipped = persistResult.skipped;
+        result.appointmentsCreated += persistResult.created;
+        result.appointmentsUpdated += persistResult.updated;
+        result.appointmentsSkipped += persistResult.skipped;
+      }
+
+      // Anything on these dates the PMS didn't return has been deleted or moved out of range.
+      // An incremental fetch only returns changes, so absence means nothing there.
+      if (result.syncMode === 'full') {
+        result.appointmentsRemoved = await this.reconcileRemovedAppointments(
+          connectionId,
+          datesBetween(dateFrom, dateTo),
+          new Set(allAppointments.map(a => a.pmsAppointmentId))
+        );
+      }
       result.success = true;
 
-      // Update connection last sync
+      // Update connection last sync, moving the cursor to this run's start
+      // (less an overlap for clock skew between us and the PMS). Incremental
+      // runs carry the last full run's time forward so it still comes due.
+      const fullSyncAt = result.syncMode === 'full'
+        ? new Date(startTime).toISOString()
+        : connections[0].syncCursor?.fullSyncAt;
       await db
         .update(pmsConnections)
         .set({
           lastSyncAt: new Date(),
           lastSyncStatus: 'success',
           lastSyncError: null,
+          syncCursor: {
+            updatedSince: new Date(startTime - CURSOR_OVERLAP_MS).toISOString(),
+            fullSyncAt,
+            dateFrom,
+            dateTo,
+            fingerprint,
+          },
           updatedAt: new Date(),
         })
         .where(eq(pmsConnections.id, connectionId));
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      errors.push({ message: errorMessage, details: error });
+      // Error instances serialise to {} in the sync log, so keep what's useful
+      errors.push({
+        message: errorMessage,
+        details: error instanceof Error ? { name: error.name, stack: error.stack } : error,
+      });
+
+      // Update connection with error, noting if the PMS circuit has tripped
+      const circuit = circuitKey ? await circuitBreaker.getStatus(circuitKey) : undefined;
 
-      // Update connection with error
       await db
         .update(pmsConnections)
         .set({
           lastSyncAt: new Date(),
           lastSyncStatus: 'failed',
-          lastSyncError: errorMessage,
+          lastSyncError: circuit && circuit.state !== 'closed' && !(error instanceof CircuitOpenError)
+            ? `${errorMessage} (${describeCircuit(circuit)})`
+            : errorMessage,
           updatedAt: new Date(),
         })
         .where(eq(pmsConnections.id, connectionId));
@@ -197,13 +371,281 @@ export class SyncOrchestrator {
 
     // Update sync log
     await this.completeSyncLogEntry(
-      syncLogEntry.id,
+      syncLogId,
       result
     );
 
     return result;
   }
 
+  /**
+   * Apply one appointment change pushed by the PMS (webhook), through the
+   * same filters and upsert path as a sync. Webhooks can arrive out of order,
+   * so a change older than the last one applied to the appointment is skipped.
+   */
+  async applyWebhookEvent(
+    connectionId: string,
+    adapter: PMSAdapter,
+    event: PMSWebhookEvent
+  ): Promise<'created' | 'updated' | 'skipped' | 'removed'> {
+    if (!adapter.mapWebhookAppointment) {
+      throw new Error(`${adapter.pmsType} adapter doesn't support webhooks`);
+    }
+
+    const [row] = await db
+      .select()
+      .from(pmsConnections)
+      .where(eq(pmsConnections.id, connectionId))
+      .limit(1);
+
+    if (!row) {
+      throw new Error(`Connection not found: ${connectionId}`);
+    }
+
+    const connection = toPMSConnection(row);
+    await this.tokenManager.refreshIfNeeded(connection, adapter);
+
+    const typeCatalogue = await getAppointmentTypeCatalogue(connectionId);
+    const telehealthTypeIds = new Set(
+      [...typeCatalogue.values()].filter(t => t.isTelehealth).map(t => t.pmsTypeId)
+    );
+
+    if (event.occurredAt) {
+      const [current] = await db
+        .select({ pmsChangedAt: runSheetAppointments.pmsChangedAt })
+        .from(runSheetAppointments)
+        .where(
+          and(
+            eq(runSheetAppointments.pmsConnectionId, connectionId),
+            eq(runSheetAppointments.pmsAppointmentId, event.appointmentId)
+          )
+        )
+        .limit(1);
+
+      if (current?.pmsChangedAt && current.pmsChangedAt > event.occurredAt) {
+        return 'skipped';
+      }
+    }
+
+    const mapped = await adapter.mapWebhookAppointment(connection, event, {
+      telehealthTypeIds: typeCatalogue.size > 0 ? [...telehealthTypeIds] : undefined,
+    });
+
+    // Deleted in the PMS
+    if (!mapped) {
+      const existing = await db
+        .select({ id: runSheetAppointments.id })
+        .from(runSheetAppointments)
+        .where(
+          and(
+            eq(runSheetAppointments.pmsConnectionId, connectionId),
+            eq(runSheetAppointments.pmsAppointmentId, event.appointmentId),
+            isNull(runSheetAppointments.pmsRemovedAt)
+          )
+        );
+
+      await this.markAppointmentsRemoved(existing.map(a => a.id));
+      await this.recordWebhookChange(connectionId, event);
+      return existing.length > 0 ? 'removed' : 'skipped';
+    }
+
+    const mappedAppointment = {
+      ...mapped,
+      isTelehealth: mapped.isTelehealth || telehealthTypeIds.has(mapped.appointmentTypeId ?? ''),
+    };
+
+    if (!this.shouldSyncAppointment(mappedAppointment, connection, typeCatalogue)) {
+      return 'skipped';
+    }
+
+    const [appointment] = await this.enrichPatients(adapter, connection, [mappedAppointment], new Map());
+
+    const clinicianMappingsData = await db
+      .select()
+      .from(pmsClinicianMappings)
+      .where(eq(pmsClinicianMappings.pmsConnectionId, connectionId));
+
+    const runSheetId = await this.getOrCreateRunSheet(formatZonedDate(appointment.startTime, connection.timezone));
+    const persistResult = await this.persistAppointments(
+      runSheetId,
+      [appointment],
+      connection,
+      new Map(clinicianMappingsData.map(m => [m.pmsPractitionerId, m]))
+    );
+    await this.recordWebhookChange(connectionId, event);
+
+    if (persistResult.created > 0) return 'created';
+    if (persistResult.updated > 0) return 'updated';
+    return 'skipped';
+  }
+
+  /**
+   * Note when the PMS made the change just applied, so older events
+   * delivered after it are ignored
+   */
+  private async recordWebhookChange(connectionId: string, event: PMSWebhookEvent): Promise<void> {
+    if (!event.occurredAt) return;
+
+    await db
+      .update(runSheetAppointments)
+      .set({ pmsChangedAt: event.occurredAt })
+      .where(
+        and(
+          eq(runSheetAppointments.pmsConnectionId, connectionId),
+          eq(runSheetAppointments.pmsAppointmentId, event.appointmentId),
+          or(
+            isNull(runSheetAppointments.pmsChangedAt),
+            lt(runSheetAppointments.pmsChangedAt, event.occurredAt)
+          )
+        )
+      );
+  }
+
+  /**
+   * Telehealth-only filter and types staff have turned off
+   */
+  private shouldSyncAppointment(
+    appointment: UnifiedAppointment,
+    connection: PMSConnection,
+    typeCatalogue: Map<string, { syncEnabled: boolean }>
+  ): boolean {
+    if (connection.syncTelehealthOnly && !appointment.isTelehealth) return false;
+    const type = appointment.appointmentTypeId ? typeCatalogue.get(appointment.appointmentTypeId) : undefined;
+    return type?.syncEnabled !== false;
+  }
+
+  /**
+   * Drain the adapter's pages for a fetch
+   */
+  private async fetchAllAppointments(
+    adapter: PMSAdapter,
+    connection: PMSConnection,
+    fetchOptions: FetchOptions,
+    telehealthTypeIds: Set<string>
+  ): Promise<UnifiedAppointment[]> {
+    const appointments: UnifiedAppointment[] = [];
+
+    for await (const batch of adapter.fetchAppointments(connection, fetchOptions)) {
+      // Mark telehealth based on our configured types
+      appointments.push(...batch.map(appt => ({
+        ...appt,
+        isTelehealth: appt.isTelehealth || telehealthTypeIds.has(appt.appointmentTypeId ?? ''),
+      })));
+    }
+
+    return appointments;
+  }
+
+  /**
+   * Fill in phone and email from the patient record when the appointment
+   * payload didn't include them. A failed lookup leaves the appointment as
+   * fetched - missing contact details shouldn't fail the sync.
+   */
+  private async enrichPatients(
+    adapter: PMSAdapter,
+    connection: PMSConnection,
+    appointments: UnifiedAppointment[],
+    patientCache: Map<string, UnifiedPatient | null>
+  ): Promise<UnifiedAppointment[]> {
+    if (!adapter.fetchPatient) return appointments;
+
+    const enriched: UnifiedAppointment[] = [];
+
+    for (const appointment of appointments) {
+      const { patient } = appointment;
+      if ((patient.phone && patient.email) || patient.pmsPatientId === 'unknown') {
+        enriched.push(appointment);
+        continue;
+      }
+
+      if (!patientCache.has(patient.pmsPatientId)) {
+        try {
+          patientCache.set(patient.pmsPatientId, await adapter.fetchPatient(connection, patient.pmsPatientId));
+        } catch (error) {
+          console.warn(
+            `Patient lookup failed for ${patient.pmsPatientId}:`,
+            error instanceof Error ? error.message : error
+          );
+          patientCache.set(patient.pmsPatientId, null);
+        }
+      }
+
+      const record = patientCache.get(patient.pmsPatientId);
+      enriched.push(record
+        ? {
+            ...appointment,
+            patient: {
+              ...patient,
+              phone: patient.phone || record.phone,
+              email: patient.email || record.email,
+            },
+          }
+        : appointment);
+    }
+
+    return enriched;
+  }
+
+  /**
+   * Hash of the settings that decide which appointments a sync keeps.
+   * A cursor taken under different settings would miss appointments that
+   * are now in scope without having changed in the PMS.
+   */
+  private getSyncFingerprint(
+    connection: PMSConnection,
+    typeCatalogue: Map<string, { pmsTypeId: string; isTelehealth: boolean; syncEnabled: boolean }>,
+    clinicianMappings: Array<{ pmsPractitionerId: string; syncEnabled: boolean }>
+  ): string {
+    const types = [...typeCatalogue.values()];
+    const settings = {
+      telehealthOnly: connection.syncTelehealthOnly,
+      timezone: connection.timezone,
+      telehealthTypes: types.filter(t => t.isTelehealth).map(t => t.pmsTypeId).sort(),
+      disabledTypes: types.filter(t => !t.syncEnabled).map(t => t.pmsTypeId).sort(),
+      disabledPractitioners: clinicianMappings.filter(m => !m.syncEnabled).map(m => m.pmsPractitionerId).sort(),
+    };
+
+    return createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+  }
+
+  /**
+   * Work out whether an incremental run can use the stored cursor,
+   * and if not, why it has to fetch everything
+   */
+  private resolveSyncCursor(
+    cursor: { updatedSince: string; fullSyncAt?: string; dateFrom: string; dateTo: string; fingerprint: string } | null,
+    adapter: PMSAdapter,
+    dateFrom: string,
+    dateTo: string,
+    fingerprint: string
+  ): { updatedSince?: Date; reason?: string } {
+    if (!adapter.supportsIncrementalSync) {
+      return { reason: `${adapter.pmsType} doesn't support change cursors` };
+    }
+    if (!cursor) {
+      return { reason: 'No sync cursor yet' };
+    }
+
+    const updatedSince = new Date(cursor.updatedSince);
+    if (isNaN(updatedSince.getTime()) || updatedSince.getTime() > Date.now()) {
+      return { reason: 'Sync cursor is invalid' };
+    }
+    const fullSyncAt = cursor.fullSyncAt ? new Date(cursor.fullSyncAt) : undefined;
+    if (!fullSyncAt || isNaN(fullSyncAt.getTime()) || Date.now() - fullSyncAt.getTime() > MAX_CURSOR_AGE_MS) {
+      return { reason: 'Due for a periodic full sync' };
+    }
+    if (cursor.fingerprint !== fingerprint) {
+      return { reason: 'Sync settings changed since the cursor was taken' };
+    }
+
+    // Dates outside the last run were never fetched in full
+    if (cursor.dateFrom > dateFrom || cursor.dateTo < dateTo) {
+      return { reason: `Sync cursor covers ${cursor.dateFrom} to ${cursor.dateTo}, not ${dateFrom} to ${dateTo}` };
+    }
+
+    return { updatedSince };
+  }
+
   /**
    * Upsert appointments to run sheet
    */
@@ -211,7 +653,7 @@ export class SyncOrchestrator {
     runSheetId: string,
     appointments: UnifiedAppointment[],
     connection: PMSConnection,
-    clinicianMap: Map<string, { runSheetClinicianId: string | null; pmsPractitionerName: string | null }>
+    clinicianMap: Map<string, { runSheetClinicianId: string | null; pmsPractitionerName: string | null; syncEnabled: boolean }>
   ): Promise<{ created: number; updated: number; skipped: number }> {
     let created = 0;
     let updated = 0;
@@ -222,6 +664,12 @@ export class SyncOrchestrator {
         // Get clinician mapping
         const clinicianMapping = clinicianMap.get(appointment.practitioner.pmsPractitionerId);
 
+        // Practitioner switched off in the clinician mapping admin
+        if (clinicianMapping && !clinicianMapping.syncEnabled) {
+          skipped++;
+          continue;
+        }
+
         // Auto-create clinician if needed and mapping doesn't exist
         let finalClinicianId: string | null = clinicianMapping?.runSheetClinicianId ?? null;
 
@@ -233,6 +681,13 @@ export class SyncOrchestrator {
             appointment.practitioner.pmsPractitionerId
           );
           finalClinicianId = newClinician.clinicianId;
+
+          // Later appointments for this practitioner reuse the new mapping
+          clinicianMap.set(appointment.practitioner.pmsPractitionerId, {
+            runSheetClinicianId: newClinician.clinicianId,
+            pmsPractitionerName: appointment.practitioner.fullName,
+            syncEnabled: true,
+          });
         }
 
         // Check if appointment already exists
@@ -248,22 +703,35 @@ export class SyncOrchestrator {
           .limit(1);
 
         if (existing.length > 0) {
-          // Update existing
-          if (this.dataMapper.appointmentHasChanged(existing[0], appointment)) {
+          // Update existing (including clinician re-links, reschedules to another
+          // day and appointments that reappear after being marked removed)
+          if (
+            this.dataMapper.appointmentHasChanged(existing[0], appointment, connection.timezone) ||
+            existing[0].clinicianId !== finalClinicianId ||
+            existing[0].runSheetId !== runSheetId ||
+            existing[0].pmsRemovedAt !== null
+          ) {
             const mappedData = this.dataMapper.mapToRunSheetAppointment(
               appointment,
               runSheetId,
-              finalClinicianId ? { runSheetClinicianId: finalClinicianId } : null
+              finalClinicianId ? { runSheetClinicianId: finalClinicianId } : null,
+              connection.timezone
             );
 
             await db
               .update(runSheetAppointments)
               .set({
                 ...mappedData,
+                pmsRemovedAt: null,
                 updatedAt: new Date(),
               })
               .where(eq(runSheetAppointments.id, existing[0].id));
 
+            const staleReason = this.getStaleInviteReason(existing[0], appointment, runSheetId, connection.timezone);
+            if (staleReason) {
+              await this.flagStaleInvites([existing[0].id], staleReason);
+            }
+
             updated++;
           } else {
             // Just update sync timestamp
@@ -282,7 +750,8 @@ export class SyncOrchestrator {
           const mappedData = this.dataMapper.mapToRunSheetAppointment(
             appointment,
             runSheetId,
-            finalClinicianId ? { runSheetClinicianId: finalClinicianId } : null
+            finalClinicianId ? { runSheetClinicianId: finalClinicianId } : null,
+            connection.timezone
           );
 
           await db.insert(runSheetAppointments).values(mappedData);
@@ -298,38 +767,160 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Auto-create a clinician from PMS data
+   * Why queued invites for an updated appointment no longer match it, if they don't
+   */
+  private getStaleInviteReason(
+    existing: { runSheetId: string; appointmentTime: string | null; appointmentStatus: string | null },
+    appointment: UnifiedAppointment,
+    runSheetId: string,
+    timezone: string
+  ): string | null {
+    const time = this.dataMapper.formatAppointmentTime(appointment.startTime, timezone);
+
+    if (appointment.status === 'cancelled' && existing.appointmentStatus !== 'cancelled') {
+      return 'Appointment cancelled in the PMS';
+    }
+    if (existing.runSheetId !== runSheetId) {
+      return `Appointment moved to ${formatZonedDate(appointment.startTime, timezone)} ${time}`;
+    }
+    if (existing.appointmentTime !== time) {
+      return `Appointment time changed to ${time}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Mark PMS appointments on the given dates that weren't fetched as cancelled and removed
+   */
+  private async reconcileRemovedAppointments(
+    connectionId: string,
+    dates: string[],
+    fetchedIds: Set<string>
+  ): Promise<number> {
+    const onRunSheets = await db
+      .select({
+        id: runSheetAppointments.id,
+        pmsAppointmentId: runSheetAppointments.pmsAppointmentId,
+      })
+      .from(runSheetAppointments)
+      .innerJoin(runSheets, eq(runSheetAppointments.runSheetId, runSheets.id))
+      .where(
+        and(
+          eq(runSheetAppointments.pmsConnectionId, connectionId),
+          inArray(runSheets.date, dates),
+          isNull(runSheetAppointments.pmsRemovedAt)
+        )
+      );
+
+    const removedIds = onRunSheets
+      .filter(a => a.pmsAppointmentId && !fetchedIds.has(a.pmsAppointmentId))
+      .map(a => a.id);
+
+    await this.markAppointmentsRemoved(removedIds);
+
+    return removedIds.length;
+  }
+
+  /**
+   * Cancel run sheet appointments the PMS no longer has and stop their invites
+   */
+  private async markAppointmentsRemoved(appointmentIds: string[]): Promise<void> {
+    if (appointmentIds.length === 0) return;
+
+    const now = new Date();
+    await db
+      .update(runSheetAppointments)
+      .set({
+        appointmentStatus: 'cancelled',
+        pmsRemovedAt: now,
+        updatedAt: now,
+      })
+      .where(inArray(runSheetAppointments.id, appointmentIds));
+
+    await this.flagStaleInvites(appointmentIds, 'Appointment no longer in the PMS');
+  }
+
+  /**
+   * Stop queued invites for appointments that have changed under them
+   */
+  private async flagStaleInvites(appointmentIds: string[], reason: string): Promise<void> {
+    await db
+      .update(telehealthInvites)
+      .set({ status: 'stale', staleReason: reason })
+      .where(
+        and(
+          inArray(telehealthInvites.runSheetAppointmentId, appointmentIds),
+          eq(telehealthInvites.status, 'queued')
+        )
+      );
+  }
+
+  /**
+   * Today's YYYY-MM-DD date in the connection's practice timezone
+   */
+  private async getPracticeToday(connectionId: string): Promise<string> {
+    const [connection] = await db
+      .select({ timezone: pmsConnections.timezone })
+      .from(pmsConnections)
+      .where(eq(pmsConnections.id, connectionId))
+      .limit(1);
+
+    if (!connection) {
+      throw new Error(`Connection not found: ${connectionId}`);
+    }
+
+    return formatZonedDate(new Date(), connection.timezone);
+  }
+
+  /**
+   * Map a new PMS practitioner to a run sheet clinician.
+   * Links to an existing clinician when the names clearly match, otherwise creates one.
+   * Either way the mapping is flagged autoCreated for review in the clinician mapping admin.
    */
   private async autoCreateClinician(
     name: string,
     connectionId: string,
     pmsPractitionerId: string
   ): Promise<{ clinicianId: string }> {
-    // Create run sheet clinician
-    const [newClinician] = await db
-      .insert(runSheetClinicians)
-      .values({ name })
-      .returning({ id: runSheetClinicians.id });
+    const existingClinicians = await db
+      .select({ id: runSheetClinicians.id, name: runSheetClinicians.name })
+      .from(runSheetClinicians);
+
+    const [bestMatch] = suggestClinicianMatches(name, existingClinicians, {
+      minScore: CONFIDENT_MATCH_SCORE,
+      limit: 1,
+    });
+
+    let clinicianId = bestMatch?.clinicianId;
+
+    if (!clinicianId) {
+      // Create run sheet clinician
+      const [newClinician] = await db
+        .insert(runSheetClinicians)
+        .values({ name })
+        .returning({ id: runSheetClinicians.id });
+
+      clinicianId = newClinician.id;
+    }
 
     // Create mapping
     await db.insert(pmsClinicianMappings).values({
       pmsConnectionId: connectionId,
       pmsPractitionerId,
       pmsPractitionerName: name,
-      runSheetClinicianId: newClinician.id,
+      runSheetClinicianId: clinicianId,
       syncEnabled: true,
       autoCreated: true,
     });
 
-    return { clinicianId: newClinician.id };
+    return { clinicianId };
   }
 
   /**
-   * Get or create run sheet for date
+   * Get or create run sheet for a YYYY-MM-DD date
    */
-  private async getOrCreateRunSheet(date: Date): Promise<string> {
-    const dateStr = this.dataMapper.formatDate(date);
-
+  private async getOrCreateRunSheet(dateStr: string): Promise<string> {
     // Check if run sheet exists
     const existing = await db
       .select()
@@ -389,6 +980,10 @@ export class SyncOrchestrator {
         appointmentsCreated: result.appointmentsCreated,
         appointmentsUpdated: result.appointmentsUpdated,
         appointmentsSkipped: result.appointmentsSkipped,
+        appointmentsRemoved: result.appointmentsRemoved,
+        syncMode: result.syncMode,
+        syncCursor: result.syncCursor ?? null,
+        syncModeReason: result.syncModeReason ?? null,
         errorMessage: result.errors.length > 0 ? result.errors[0].message : null,
         errorDetails: result.errors.length > 0 ? result.errors : null,
       })
@@ -396,7 +991,7 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Get sync history for a connection
+   * Get sync history for a connection, most recent first
    */
   async getSyncHistory(
     connectionId: string,
@@ -404,6 +999,9 @@ export class SyncOrchestrator {
   ): Promise<Array<{
     id: string;
     syncType: string;
+    syncMode: string | null;
+    syncCursor: Date | null;
+    syncModeReason: string | null;
     startedAt: Date;
     completedAt: Date | null;
     status: string;
@@ -411,18 +1009,24 @@ export class SyncOrchestrator {
     appointmentsCreated: number;
     appointmentsUpdated: number;
     appointmentsSkipped: number;
+    appointmentsRemoved: number;
+    durationMs: number | null;
     errorMessage: string | null;
+    errorDetails: unknown;
   }>> {
     const entries = await db
       .select()
       .from(pmsSyncLog)
       .where(eq(pmsSyncLog.pmsConnectionId, connectionId))
-      .orderBy(pmsSyncLog.startedAt)
+      .orderBy(desc(pmsSyncLog.startedAt))
       .limit(limit);
 
     return entries.map(e => ({
       id: e.id,
       syncType: e.syncType,
+      syncMode: e.syncMode,
+      syncCursor: e.syncCursor,
+      syncModeReason: e.syncModeReason,
       startedAt: e.startedAt,
       completedAt: e.completedAt,
       status: e.status,
@@ -430,7 +1034,10 @@ export class SyncOrchestrator {
       appointmentsCreated: e.appointmentsCreated,
       appointmentsUpdated: e.appointmentsUpdated,
       appointmentsSkipped: e.appointmentsSkipped,
+      appointmentsRemoved: e.appointmentsRemoved,
+      durationMs: e.completedAt ? e.completedAt.getTime() - e.startedAt.getTime() : null,
       errorMessage: e.errorMessage,
+      errorDetails: e.errorDetails,
     }));
   }
 }
@@ -0,0 +1,253 @@
+import { eq, and, or, isNull, ne, lt } from 'drizzle-orm';
+import { db } from '@/db';
+import { pmsConnections, pmsSyncLog } from '@/db/schema';
+import type { PMSType, SyncResult, SyncType } from '../types';
+import { getAdapter } from '../adapters';
+import { SyncOrchestrator } from './sync-orchestrator';
+import { TokenManager } from './token-manager';
+import { circuitBreaker, describeCircuit } from './circuit-breaker';
+import { getConnectionRateLimitKey } from './rate-limiter';
+
+export interface ScheduledSyncOutcome {
+  connectionId: string;
+  displayName: string;
+  pmsType: PMSType;
+  status: 'synced' | 'failed' | 'skipped';
+  reason?: string;
+  result?: SyncResult;
+}
+
+export interface ScheduledSyncSummary {
+  startedAt: Date;
+  completedAt: Date;
+  connectionsChecked: number;
+  connectionsDue: number;
+  outcomes: ScheduledSyncOutcome[];
+}
+
+type ConnectionRow = typeof pmsConnections.$inferSelect;
+
+/**
+ * Runs syncs for connections whose syncFrequencyMinutes has elapsed since lastSyncAt.
+ *
+ * A connection is claimed by setting lastSyncStatus to 'running' with a
+ * conditional update, so overlapping runs (cron + worker, or two workers)
+ * never sync the same connection twice. Claims older than staleAfterMinutes
+ * are treated as abandoned by a crashed run and can be taken over.
+ */
+export class SyncScheduler {
+  private readonly staleAfterMs: number;
+  private readonly daysAhead: number;
+
+  constructor(
+    private orchestrator: SyncOrchestrator = new SyncOrchestrator(new TokenManager()),
+    options: { staleAfterMinutes?: number; daysAhead?: number } = {}
+  ) {
+    this.staleAfterMs = (options.staleAfterMinutes ?? 30) * 60 * 1000;
+    // Days of run sheets to keep in sync, starting today (PMS_SYNC_DAYS_AHEAD)
+    this.daysAhead = options.daysAhead ?? Number(process.env.PMS_SYNC_DAYS_AHEAD || 1);
+  }
+
+  /**
+   * Check whether a connection's sync interval has elapsed
+   */
+  isDue(connection: Pick<ConnectionRow, 'syncEnabled' | 'syncFrequencyMinutes' | 'lastSyncAt'>, now: Date = new Date()): boolean {
+    if (!connection.syncEnabled) return false;
+    if (!connection.lastSyncAt) return true;
+
+    const nextSyncAt = connection.lastSyncAt.getTime() + connection.syncFrequencyMinutes * 60 * 1000;
+    return now.getTime() >= nextSyncAt;
+  }
+
+  /**
+   * Get enabled connections that are due for a sync
+   */
+  async findDueConnections(now: Date = new Date()): Promise<{ checked: number; due: ConnectionRow[] }> {
+    const enabled = await db
+      .select()
+      .from(pmsConnections)
+      .where(eq(pmsConnections.syncEnabled, true));
+
+    return {
+      checked: enabled.length,
+      due: enabled.filter(connection => this.isDue(connection, now)),
+    };
+  }
+
+  /**
+   * Sync every due connection, one at a time
+   */
+  async runDueSyncs(now: Date = new Date()): Promise<ScheduledSyncSummary> {
+    const startedAt = new Date();
+    const { checked, due } = await this.findDueConnections(now);
+    const outcomes: ScheduledSyncOutcome[] = [];
+
+    for (const connection of due) {
+      outcomes.push(await this.runConnection(connection));
+    }
+
+    return {
+      startedAt,
+      completedAt: new Date(),
+      connectionsChecked: checked,
+      connectionsDue: due.length,
+      outcomes,
+    };
+  }
+
+  /**
+   * Sync one connection straight away (e.g. staff pressing "Sync now"),
+   * respecting any run already in progress. Returns null if it doesn't exist.
+   */
+  async runNow(connectionId: string, syncType: SyncType = 'manual'): Promise<ScheduledSyncOutcome | null> {
+    const [connection] = await db
+      .select()
+      .from(pmsConnections)
+      .where(eq(pmsConnections.id, connectionId))
+      .limit(1);
+
+    if (!connection) return null;
+
+    if (!connection.syncEnabled) {
+      return {
+        connectionId: connection.id,
+        displayName: connection.displayName,
+        pmsType: connection.pmsType,
+        status: 'skipped',
+        reason: 'Sync is disabled for this connection',
+      };
+    }
+
+    return this.runConnection(connection, syncType);
+  }
+
+  /**
+   * Claim and sync a single connection
+   */
+  private async runConnection(connection: ConnectionRow, syncType: SyncType = 'incremental'): Promise<ScheduledSyncOutcome> {
+    const outcome: ScheduledSyncOutcome = {
+      connectionId: connection.id,
+      displayName: connection.displayName,
+      pmsType: connection.pmsType,
+      status: 'skipped',
+    };
+
+    // Don't start a sync that would only fail fast against a PMS marked as down
+    const circuitKey = getConnectionRateLimitKey(connection);
+    if (await circuitBreaker.isOpen(circuitKey)) {
+      const circuit = await circuitBreaker.getStatus(circuitKey);
+      outcome.reason = `PMS unavailable: ${describeCircuit(circuit)}`;
+      await this.recordCircuitOpen(connection.id, outcome.reason);
+      return outcome;
+    }
+
+    const claimed = await this.claim(connection);
+    if (!claimed) {
+      outcome.reason = 'Sync already running';
+      return outcome;
+    }
+
+    try {
+      const adapter = getAdapter(connection.pmsType);
+
+      // Orchestrator writes the sync log and resets lastSyncStatus when done.
+      // Scheduled runs are incremental; the orchestrator falls back to a full
+      // fetch when the connection's cursor can't be used.
+      const result = this.daysAhead > 1
+        ? await this.orchestrator.syncUpcomingRunSheets(connection.id, adapter, this.daysAhead, syncType)
+        : await this.orchestrator.syncTodayRunSheet(connection.id, adapter, syncType);
+
+      outcome.status = result.success ? 'synced' : 'failed';
+      outcome.reason = result.errors[0]?.message;
+      outcome.result = result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      outcome.status = 'failed';
+      outcome.reason = errorMessage;
+
+      await this.recordFailure(connection.id, errorMessage, syncType);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Mark a connection as running unless another run holds a fresh claim.
+   * Also requires lastSyncAt to be unchanged, so a run that finished between
+   * our read and this update isn't repeated.
+   */
+  private async claim(connection: ConnectionRow): Promise<boolean> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - this.staleAfterMs);
+
+    const claimed = await db
+      .update(pmsConnections)
+      .set({
+        lastSyncStatus: 'running',
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(pmsConnections.id, connection.id),
+          eq(pmsConnections.syncEnabled, true),
+          connection.lastSyncAt
+            ? eq(pmsConnections.lastSyncAt, connection.lastSyncAt)
+            : isNull(pmsConnections.lastSyncAt),
+          or(
+            isNull(pmsConnections.lastSyncStatus),
+            ne(pmsConnections.lastSyncStatus, 'running'),
+            lt(pmsConnections.updatedAt, staleBefore)
+          )
+        )
+      )
+      .returning({ id: pmsConnections.id });
+
+    return claimed.length > 0;
+  }
+
+  /**
+   * Surface a skipped run on the connection without touching lastSyncAt,
+   * so it's picked up again as soon as the circuit allows
+   */
+  private async recordCircuitOpen(connectionId: string, reason: string): Promise<void> {
+    await db
+      .update(pmsConnections)
+      .set({
+        lastSyncError: reason,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(pmsConnections.id, connectionId),
+          or(isNull(pmsConnections.lastSyncStatus), ne(pmsConnections.lastSyncStatus, 'running'))
+        )
+      );
+  }
+
+  /**
+   * Release the claim and log a run that failed before the orchestrator could log it
+   */
+  private async recordFailure(connectionId: string, errorMessage: string, syncType: SyncType): Promise<void> {
+    const now = new Date();
+
+    await db
+      .update(pmsConnections)
+      .set({
+        lastSyncAt: now,
+        lastSyncStatus: 'failed',
+        lastSyncError: errorMessage,
+        updatedAt: now,
+      })
+      .where(eq(pmsConnections.id, connectionId));
+
+    await db.insert(pmsSyncLog).values({
+      pmsConnectionId: connectionId,
+      syncType,
+      startedAt: now,
+      completedAt: now,
+      status: 'failed',
+      errorMessage,
+      errorDetails: [{ message: errorMessage }],
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import type { PMSAppointmentType } from '../types';
+
+// Words in a type name that suggest the appointment isn't in person
+export const TELEHEALTH_KEYWORDS = [
+  'telehealth',
+  'video',
+  'phone',
+  'remote',
+  'virtual',
+  'online',
+  'telemedicine',
+];
+
+/**
+ * Check if an appointment type name suggests telehealth
+ */
+export function matchesTelehealthKeywords(name: string): boolean {
+  const lowerName = name.toLowerCase();
+  return TELEHEALTH_KEYWORDS.some(keyword => lowerName.includes(keyword));
+}
+
+/**
+ * Suggested classification for a type: the PMS's own flag, else keyword rules
+ */
+export function suggestTelehealth(type: PMSAppointmentType): boolean {
+  return Boolean(type.isTelehealthAutoDetected) || matchesTelehealthKeywords(type.name);
+}
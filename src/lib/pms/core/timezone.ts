@@ -0,0 +1,114 @@
+/**
+ * Practice-timezone date handling.
+ *
+ * Run sheets are per practice-local day and show practice-local times, so
+ * none of this can use the server's own timezone. Calendar dates are passed
+ * around as YYYY-MM-DD strings; instants as Dates.
+ */
+
+export const DEFAULT_PRACTICE_TIMEZONE = 'Australia/Melbourne';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether an IANA timezone name is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a local "YYYY-MM-DDThh:mm" string in the timezone to an absolute Date
+ */
+export function zonedDateTimeToUtc(localDateTime: string, timezone: string): Date {
+  const naiveUtc = new Date(`${localDateTime}:00Z`);
+  const offset = getTimezoneOffsetMs(naiveUtc, timezone);
+  const candidate = new Date(naiveUtc.getTime() - offset);
+
+  // Re-check the offset at the candidate instant in case we crossed a DST boundary
+  const correctedOffset = getTimezoneOffsetMs(candidate, timezone);
+  return correctedOffset === offset
+    ? candidate
+    : new Date(naiveUtc.getTime() - correctedOffset);
+}
+
+/**
+ * Format an absolute Date as local "YYYY-MM-DDThh:mm" in the timezone
+ */
+export function formatZonedDateTime(date: Date, timezone: string): string {
+  const local = new Date(date.getTime() + getTimezoneOffsetMs(date, timezone));
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in the timezone
+ */
+export function formatZonedDate(date: Date, timezone: string): string {
+  return formatZonedDateTime(date, timezone).slice(0, 10);
+}
+
+/**
+ * Local time (HH:MM) of an instant in the timezone
+ */
+export function formatZonedTime(date: Date, timezone: string): string {
+  return formatZonedDateTime(date, timezone).slice(11, 16);
+}
+
+/**
+ * First instant of a local calendar date
+ */
+export function startOfZonedDay(date: string, timezone: string): Date {
+  return zonedDateTimeToUtc(`${date}T00:00`, timezone);
+}
+
+/**
+ * Last instant of a local calendar date (days can be 23 or 25 hours around DST)
+ */
+export function endOfZonedDay(date: string, timezone: string): Date {
+  return new Date(startOfZonedDay(addDays(date, 1), timezone).getTime() - 1);
+}
+
+/**
+ * Calendar arithmetic on a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Every YYYY-MM-DD date from dateFrom to dateTo (inclusive)
+ */
+export function datesBetween(dateFrom: string, dateTo: string): string[] {
+  const dates: string[] = [];
+  for (let date = dateFrom; date <= dateTo; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
@@ -0,0 +1,139 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for PMS OAuth tokens stored in pms_connections.
+ *
+ * Each value gets its own random data key (AES-256-GCM), and the data key
+ * is wrapped with a key-encryption key from PMS_TOKEN_KEYS. Stored values
+ * look like `enc:<keyVersion>:<base64 payload>` so rows written under an
+ * older key can still be read after rotation.
+ *
+ * PMS_TOKEN_KEYS is a comma-separated list of `<version>:<base64 32-byte key>`.
+ * The highest version encrypts; every listed version can decrypt. Generate a
+ * key with `openssl rand -base64 32`. To rotate, append a new version and run
+ * `npm run pms:encrypt-tokens`.
+ */
+
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+interface KeyRing {
+  currentVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+let cachedKeyRing: { source: string; ring: KeyRing } | null = null;
+
+function loadKeyRing(): KeyRing {
+  const source = process.env.PMS_TOKEN_KEYS || '';
+  if (cachedKeyRing?.source === source) {
+    return cachedKeyRing.ring;
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const entry of source.split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const version = Number(entry.slice(0, separator));
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (separator < 1 || !Number.isInteger(version) || version < 1) {
+      throw new Error('PMS_TOKEN_KEYS entries must look like <version>:<base64 key>');
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`PMS_TOKEN_KEYS key version ${version} must be ${KEY_LENGTH} bytes`);
+    }
+
+    keys.set(version, key);
+  }
+
+  const ring = { currentVersion: Math.max(0, ...keys.keys()), keys };
+  cachedKeyRing = { source, ring };
+  return ring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Check whether a stored value is an encrypted token (vs legacy plain text)
+ */
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/**
+ * Key version a stored value was encrypted with, or null for plain text
+ */
+export function getTokenKeyVersion(value: string): number | null {
+  if (!isEncryptedToken(value)) return null;
+  return Number(value.split(':')[1]);
+}
+
+/**
+ * Version new values are encrypted with
+ */
+export function getCurrentTokenKeyVersion(): number {
+  return loadKeyRing().currentVersion;
+}
+
+/**
+ * Encrypt a token for storage
+ */
+export function encryptToken(plaintext: string): string {
+  const { currentVersion, keys } = loadKeyRing();
+  const keyEncryptionKey = keys.get(currentVersion);
+  if (!keyEncryptionKey) {
+    throw new Error('PMS_TOKEN_KEYS is not configured - refusing to store PMS tokens unencrypted');
+  }
+
+  const dataKey = randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(keyEncryptionKey, dataKey);
+  const payload = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return `${PREFIX}:${currentVersion}:${Buffer.concat([wrappedKey, payload]).toString('base64')}`;
+}
+
+/**
+ * Decrypt a stored token. Plain-text values written before encryption
+ * was introduced are returned unchanged until they're re-encrypted.
+ */
+export function decryptToken(stored: string): string {
+  if (!isEncryptedToken(stored)) {
+    return stored;
+  }
+
+  const [, versionPart, payloadPart] = stored.split(':');
+  const version = Number(versionPart);
+  const keyEncryptionKey = loadKeyRing().keys.get(version);
+  if (!keyEncryptionKey) {
+    throw new Error(`No PMS token key for version ${version} - check PMS_TOKEN_KEYS`);
+  }
+
+  const data = Buffer.from(payloadPart, 'base64');
+  const wrappedKeyLength = IV_LENGTH + TAG_LENGTH + KEY_LENGTH;
+  const dataKey = open(keyEncryptionKey, data.subarray(0, wrappedKeyLength));
+
+  return open(dataKey, data.subarray(wrappedKeyLength)).toString('utf8');
+}
+
+/**
+ * Decrypt a nullable column value
+ */
+export function decryptOptionalToken(stored: string | null | undefined): string | undefined {
+  return stored ? decryptToken(stored) : undefined;
+}
@@ -2,17 +2,20 @@ import { eq } from 'drizzle-orm';
 import { db } from '@/db';
 import { pmsConnections } from '@/db/schema';
 import type { PMSConnection, PMSAdapter } from '../types';
+import { toPMSConnection } from '../connections';
+import { encryptToken } from './token-crypto';
 
 /**
  * Token manager for PMS OAuth tokens
- * Handles storage, retrieval, and automatic refresh of tokens
+ * Handles storage, retrieval, and automatic refresh of tokens.
+ * Tokens are encrypted at rest (see token-crypto) and decrypted on read.
  */
 export class TokenManager {
   // Buffer time before token expiry to trigger refresh (5 minutes)
   private readonly TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
 
   /**
-   * Store tokens in the database
+   * Encrypt and store tokens in the database
    */
   async storeTokens(
     connectionId: string,
@@ -25,8 +28,8 @@ export class TokenManager {
     await db
       .update(pmsConnections)
       .set({
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
+        accessToken: encryptToken(tokens.accessToken),
+        refreshToken: tokens.refreshToken ? encryptToken(tokens.refreshToken) : undefined,
         tokenExpiresAt: tokens.expiresAt,
         updatedAt: new Date(),
       })
@@ -48,23 +51,23 @@ export class TokenManager {
       .where(eq(pmsConnections.id, connectionId))
       .limit(1);
 
-    const connection = connections[0];
-    if (!connection) {
+    if (!connections[0]) {
       throw new Error(`Connection not found: ${connectionId}`);
     }
 
+    const connection = toPMSConnection(connections[0]);
     if (!connection.accessToken) {
       throw new Error(`No access token for connection: ${connectionId}`);
     }
 
     // Check if token is expired or about to expire
-    if (this.isTokenExpired(connection as PMSConnection)) {
+    if (this.isTokenExpired(connection)) {
       if (!adapter) {
         throw new Error(`Token expired and no adapter provided for refresh: ${connectionId}`);
       }
 
       // Refresh the token
-      await this.refreshIfNeeded(connection as PMSConnection, adapter);
+      await this.refreshIfNeeded(connection, adapter);
 
       // Re-fetch to get new token
       const refreshedConnections = await db
@@ -73,7 +76,9 @@ export class TokenManager {
         .where(eq(pmsConnections.id, connectionId))
         .limit(1);
 
-      const refreshedConnection = refreshedConnections[0];
+      const refreshedConnection = refreshedConnections[0]
+        ? toPMSConnection(refreshedConnections[0])
+        : null;
       if (!refreshedConnection?.accessToken) {
         throw new Error(`Failed to refresh token for connection: ${connectionId}`);
       }
@@ -154,9 +159,11 @@ export class TokenManager {
       .from(pmsConnections)
       .where(eq(pmsConnections.syncEnabled, true));
 
-    return connections.filter(conn => {
-      if (!conn.tokenExpiresAt) return false;
-      return new Date(conn.tokenExpiresAt) <= bufferTime;
-    }) as PMSConnection[];
+    return connections
+      .filter(conn => {
+        if (!conn.tokenExpiresAt) return false;
+        return new Date(conn.tokenExpiresAt) <= bufferTime;
+      })
+      .map(toPMSConnection);
   }
 }
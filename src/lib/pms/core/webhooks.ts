@@ -0,0 +1,173 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { and, eq, lt, or } from 'drizzle-orm';
+import { db } from '@/db';
+import { pmsConnections, pmsWebhookEvents } from '@/db/schema';
+import type { PMSAdapter, PMSType, PMSWebhookEvent } from '../types';
+import { decryptOptionalToken, encryptToken } from './token-crypto';
+import { SyncOrchestrator } from './sync-orchestrator';
+import { TokenManager } from './token-manager';
+
+/**
+ * PMS webhooks are signed with a per-connection secret:
+ * `X-PMS-Signature: sha256=<hex HMAC-SHA256 of the raw body>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-pms-signature';
+
+// A claim this old belongs to a handler that died mid-event
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+type ConnectionRow = typeof pmsConnections.$inferSelect;
+
+export type WebhookOutcome =
+  | { status: 'duplicate' }
+  | { status: 'processed'; result: 'created' | 'updated' | 'skipped' | 'removed' };
+
+/**
+ * Signature header value for a body
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Check a signature header against the connection's secret
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string | null
+): boolean {
+  if (!signature) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body));
+  const received = Buffer.from(signature.trim());
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Generate and store a new webhook secret. The plain value is only
+ * returned here - it's stored encrypted.
+ */
+export async function rotateWebhookSecret(connectionId: string): Promise<string> {
+  const secret = randomBytes(32).toString('base64url');
+
+  await db
+    .update(pmsConnections)
+    .set({
+      webhookSecret: encryptToken(secret),
+      updatedAt: new Date(),
+    })
+    .where(eq(pmsConnections.id, connectionId));
+
+  return secret;
+}
+
+/**
+ * Find the connection an event belongs to, by the PMS's own tenant identifier
+ */
+export async function findWebhookConnection(
+  pmsType: PMSType,
+  scopeId: string
+): Promise<ConnectionRow | null> {
+  const [connection] = await db
+    .select()
+    .from(pmsConnections)
+    .where(
+      and(
+        eq(pmsConnections.pmsType, pmsType),
+        or(
+          eq(pmsConnections.tenantId, scopeId),
+          eq(pmsConnections.practiceId, scopeId),
+          eq(pmsConnections.organizationId, scopeId)
+        )
+      )
+    )
+    .limit(1);
+
+  return connection ?? null;
+}
+
+/**
+ * Decrypted webhook secret for a connection, if one has been issued
+ */
+export function getWebhookSecret(connection: ConnectionRow): string | undefined {
+  return decryptOptionalToken(connection.webhookSecret);
+}
+
+/**
+ * Record the event, or report it as a replay. Events that failed (or whose
+ * handler crashed) can be claimed again when the PMS redelivers them.
+ */
+async function claimWebhookEvent(connectionId: string, event: PMSWebhookEvent): Promise<boolean> {
+  const now = new Date();
+
+  const claimed = await db
+    .insert(pmsWebhookEvents)
+    .values({
+      pmsConnectionId: connectionId,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      pmsAppointmentId: event.appointmentId,
+      receivedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [pmsWebhookEvents.pmsConnectionId, pmsWebhookEvents.eventId],
+      set: {
+        status: 'processing',
+        error: null,
+        receivedAt: now,
+      },
+      setWhere: or(
+        eq(pmsWebhookEvents.status, 'failed'),
+        and(
+          eq(pmsWebhookEvents.status, 'processing'),
+          lt(pmsWebhookEvents.receivedAt, new Date(now.getTime() - STALE_CLAIM_MS))
+        )
+      ),
+    })
+    .returning({ id: pmsWebhookEvents.id });
+
+  return claimed.length > 0;
+}
+
+/**
+ * Apply an appointment change event once, however many times it's delivered
+ */
+export async function handleWebhookEvent(
+  connectionId: string,
+  adapter: PMSAdapter,
+  event: PMSWebhookEvent,
+  orchestrator: SyncOrchestrator = new SyncOrchestrator(new TokenManager())
+): Promise<WebhookOutcome> {
+  if (!(await claimWebhookEvent(connectionId, event))) {
+    return { status: 'duplicate' };
+  }
+
+  const eventRow = and(
+    eq(pmsWebhookEvents.pmsConnectionId, connectionId),
+    eq(pmsWebhookEvents.eventId, event.eventId)
+  );
+
+  try {
+    const result = await orchestrator.applyWebhookEvent(connectionId, adapter, event);
+
+    await db
+      .update(pmsWebhookEvents)
+      .set({ status: 'processed', result, processedAt: new Date() })
+      .where(eventRow);
+
+    return { status: 'processed', result };
+  } catch (error) {
+    await db
+      .update(pmsWebhookEvents)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        processedAt: new Date(),
+      })
+      .where(eventRow);
+
+    throw error;
+  }
+}
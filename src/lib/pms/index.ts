@@ -3,27 +3,108 @@ export type {
   PMSType,
   SyncStatus,
   SyncType,
+  SyncMode,
   AppointmentStatus,
   PMSConnection,
   UnifiedAppointment,
+  UnifiedPatient,
   PMSPractitioner,
   PMSAppointmentType,
   FetchOptions,
   AuthResult,
   HealthCheckResult,
+  CircuitState,
+  CircuitStatus,
   SyncResult,
   PMSAdapter,
+  PMSWebhookEvent,
 } from './types';
 
 // Adapters
-export { getAdapter, GentuAdapter, isAdapterAvailable, getAvailablePmsTypes } from './adapters';
+export { getAdapter, GentuAdapter, MedirecordsAdapter, HalaxyAdapter, isAdapterAvailable, getAvailablePmsTypes } from './adapters';
+
+// Connections
+export { connectionSummaryFields, toPMSConnection, getConnection } from './connections';
+export { getPractitionerMappings, upsertPractitionerMapping, mergeClinicians } from './clinician-mappings';
+export type { PractitionerMappingRow } from './clinician-mappings';
+export {
+  syncAppointmentTypeCatalogue,
+  getAppointmentTypeCatalogue,
+  classifyAppointmentType,
+  confirmAllAppointmentTypes,
+} from './core/appointment-type-catalogue';
 
 // Core services
 export { TokenManager } from './core/token-manager';
-export { RateLimiter, rateLimiter } from './core/rate-limiter';
+export {
+  encryptToken,
+  decryptToken,
+  isEncryptedToken,
+  getTokenKeyVersion,
+  getCurrentTokenKeyVersion,
+} from './core/token-crypto';
+export {
+  RateLimiter,
+  rateLimiter,
+  createRateLimitStore,
+  getRateLimitKey,
+  getConnectionRateLimitKey,
+} from './core/rate-limiter';
+export { InMemoryRateLimitStore, PostgresRateLimitStore } from './core/rate-limit-store';
+export type { RateLimitStore, RateLimitConfig, RateLimitUsage } from './core/rate-limit-store';
+export {
+  CircuitBreaker,
+  CircuitOpenError,
+  circuitBreaker,
+  createCircuitBreakerStore,
+  describeCircuit,
+  InMemoryCircuitBreakerStore,
+  PostgresCircuitBreakerStore,
+} from './core/circuit-breaker';
+export type { CircuitBreakerOptions, CircuitBreakerStore, CircuitRecord } from './core/circuit-breaker';
+export {
+  runWithRequestJournal,
+  isRequestJournalEnabled,
+  recordPMSRequest,
+  getRequestJournal,
+} from './core/request-journal';
+export type { RequestJournalContext, PMSRequestRecord } from './core/request-journal';
+export { redactPHI, redactText, redactUrl, REDACTED } from './core/phi-redaction';
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  rotateWebhookSecret,
+  findWebhookConnection,
+  getWebhookSecret,
+  handleWebhookEvent,
+} from './core/webhooks';
+export type { WebhookOutcome } from './core/webhooks';
+export { writeBackAppointmentStatus } from './core/status-write-back';
+export type { StatusWriteBackOutcome } from './core/status-write-back';
+export {
+  DEFAULT_PRACTICE_TIMEZONE,
+  isValidTimezone,
+  zonedDateTimeToUtc,
+  formatZonedDate,
+  formatZonedTime,
+  startOfZonedDay,
+  endOfZonedDay,
+} from './core/timezone';
 export { withRetry, defaultRetryOptions, RetryableError } from './core/retry-handler';
 export type { RetryOptions } from './core/retry-handler';
 export { SyncOrchestrator } from './core/sync-orchestrator';
+export { SyncScheduler } from './core/sync-scheduler';
+export type { ScheduledSyncSummary, ScheduledSyncOutcome } from './core/sync-scheduler';
 export { DataMapper } from './core/data-mapper';
+export {
+  parseClinicianName,
+  normalizeClinicianName,
+  scoreNameMatch,
+  suggestClinicianMatches,
+  CONFIDENT_MATCH_SCORE,
+} from './core/clinician-matcher';
+export type { ClinicianMatch } from './core/clinician-matcher';
+export { TELEHEALTH_KEYWORDS, matchesTelehealthKeywords, suggestTelehealth } from './core/telehealth-classifier';
 export { PMSHttpClient } from './core/http-client';
 export type { HttpClientOptions, RequestOptions } from './core/http-client';
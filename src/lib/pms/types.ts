@@ -4,6 +4,10 @@ export type PMSType = 'gentu' | 'medirecords' | 'halaxy';
 // Sync status
 export type SyncStatus = 'success' | 'partial' | 'failed' | 'running';
 export type SyncType = 'full' | 'incremental' | 'manual';
+export type SyncMode = 'full' | 'incremental'; // How a run actually fetched
+
+// Circuit breaker state for a connection's PMS calls
+export type CircuitState = 'closed' | 'open' | 'half_open';
 
 // Appointment status (unified across PMS)
 export type AppointmentStatus =
@@ -32,6 +36,8 @@ export interface PMSConnection {
   lastSyncStatus?: SyncStatus;
   lastSyncError?: string;
   syncTelehealthOnly: boolean;
+  journalRequests: boolean;
+  timezone: string;  // Practice timezone (IANA)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -56,15 +62,7 @@ export interface UnifiedAppointment {
   status: AppointmentStatus | null;
 
   // Patient
-  patient: {
-    pmsPatientId: string;
-    fullName: string;
-    firstName?: string;
-    lastName?: string;
-    phone?: string;
-    email?: string;
-    dateOfBirth?: Date;
-  };
+  patient: UnifiedPatient;
 
   // Practitioner
   practitioner: {
@@ -80,6 +78,17 @@ export interface UnifiedAppointment {
   rawData: Record<string, unknown>;
 }
 
+// Patient demographics (unified across PMS)
+export interface UnifiedPatient {
+  pmsPatientId: string;
+  fullName: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  email?: string;
+  dateOfBirth?: Date;
+}
+
 // Practitioner from PMS
 export interface PMSPractitioner {
   id: string;
@@ -116,6 +125,21 @@ export interface FetchOptions {
   includePractitioners?: boolean;
   includeReferrals?: boolean;
   limit?: number;
+  // Type IDs staff have classified as telehealth; replaces the adapter's own type-based detection
+  telehealthTypeIds?: string[];
+  // Only appointments created or changed after this time (adapters with supportsIncrementalSync)
+  updatedSince?: Date;
+}
+
+// Appointment change notification pushed by a PMS
+export interface PMSWebhookEvent {
+  eventId: string;      // Unique per event - replays carry the same ID
+  eventType: string;    // PMS event name, e.g. appointment.updated
+  scopeId: string;      // Tenant/practice/organisation the event belongs to
+  appointmentId: string;
+  deleted: boolean;     // Appointment removed from the PMS, nothing to map
+  occurredAt?: Date;
+  payload: unknown;
 }
 
 // Auth result
@@ -128,11 +152,21 @@ export interface AuthResult {
   error?: string;
 }
 
+// Circuit breaker snapshot
+export interface CircuitStatus {
+  state: CircuitState;
+  failureCount: number;
+  stateChangedAt?: Date;
+  retryAt?: Date; // When an open circuit next allows a trial request
+  lastError?: string;
+}
+
 // Health check result
 export interface HealthCheckResult {
   healthy: boolean;
   message: string;
   latencyMs?: number;
+  circuit?: CircuitStatus;
 }
 
 // Sync result
@@ -143,14 +177,22 @@ export interface SyncResult {
   appointmentsCreated: number;
   appointmentsUpdated: number;
   appointmentsSkipped: number;
+  appointmentsRemoved: number; // No longer in the PMS for the synced dates
   errors: Array<{ message: string; details?: unknown }>;
   durationMs: number;
+  runSheetDates?: string[]; // YYYY-MM-DD run sheets that received appointments
+  syncMode: SyncMode;
+  syncCursor?: Date;        // updatedSince used by an incremental run
+  syncModeReason?: string;  // Why an incremental run fell back to a full fetch
 }
 
 // Adapter interface - all PMS adapters implement this
 export interface PMSAdapter {
   readonly pmsType: PMSType;
 
+  // Whether fetchAppointments honours FetchOptions.updatedSince
+  readonly supportsIncrementalSync?: boolean;
+
   // Authentication
   authenticate(connection: PMSConnection): Promise<AuthResult>;
   refreshToken(connection: PMSConnection): Promise<AuthResult>;
@@ -166,8 +208,26 @@ export interface PMSAdapter {
 
   fetchAppointmentTypes(connection: PMSConnection): Promise<PMSAppointmentType[]>;
 
-  // Optional
-  fetchPatient?(connection: PMSConnection, patientId: string): Promise<unknown>;
+  // Optional - looks up contact details an appointment didn't carry.
+  // Returns null for unknown patients.
+  fetchPatient?(connection: PMSConnection, patientId: string): Promise<UnifiedPatient | null>;
+
+  // Write-back (optional) - set an appointment's status in the PMS.
+  // Throws when the PMS rejects the change.
+  updateAppointmentStatus?(
+    connection: PMSConnection,
+    appointmentId: string,
+    status: AppointmentStatus
+  ): Promise<void>;
+
+  // Webhooks (optional) - identify a pushed event, then map its appointment.
+  // parseWebhookEvent returns null for payloads that aren't appointment changes.
+  parseWebhookEvent?(payload: unknown): PMSWebhookEvent | null;
+  mapWebhookAppointment?(
+    connection: PMSConnection,
+    event: PMSWebhookEvent,
+    options: Pick<FetchOptions, 'telehealthTypeIds'>
+  ): Promise<UnifiedAppointment | null>;
 
   // Health check
   healthCheck(connection: PMSConnection): Promise<HealthCheckResult>;
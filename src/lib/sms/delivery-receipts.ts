@@ -0,0 +1,61 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { telehealthInvites } from '@/db/schema';
+import type { SmsDeliveryReceipt } from './types';
+
+export type DeliveryReceiptOutcome =
+  | { status: 'applied'; inviteId: string }
+  | { status: 'duplicate'; inviteId: string }
+  | { status: 'unmatched' };
+
+/**
+ * Record a carrier receipt against the invite sent as that provider message.
+ *
+ * Only a sent invite moves to delivered or undeliverable. A receipt for an
+ * invite that has since been resent won't match - the resend has a new
+ * providerMessageId - and repeats of a receipt already applied are
+ * acknowledged as duplicates.
+ */
+export async function applyDeliveryReceipt(
+  providerName: string,
+  receipt: SmsDeliveryReceipt
+): Promise<DeliveryReceiptOutcome> {
+  const [invite] = await db
+    .select({ id: telehealthInvites.id, status: telehealthInvites.status })
+    .from(telehealthInvites)
+    .where(
+      and(
+        eq(telehealthInvites.smsProvider, providerName),
+        eq(telehealthInvites.providerMessageId, receipt.providerMessageId)
+      )
+    )
+    .limit(1);
+
+  if (!invite) {
+    return { status: 'unmatched' };
+  }
+
+  const [updated] = await db
+    .update(telehealthInvites)
+    .set(
+      receipt.status === 'delivered'
+        ? { status: 'delivered', deliveredAt: receipt.occurredAt }
+        : {
+            status: 'undeliverable',
+            failedAt: receipt.occurredAt,
+            failureReason: receipt.reason ?? 'Carrier could not deliver the message',
+          }
+    )
+    .where(
+      and(
+        eq(telehealthInvites.id, invite.id),
+        eq(telehealthInvites.status, 'sent'),
+        eq(telehealthInvites.providerMessageId, receipt.providerMessageId)
+      )
+    )
+    .returning({ id: telehealthInvites.id });
+
+  return updated
+    ? { status: 'applied', inviteId: invite.id }
+    : { status: 'duplicate', inviteId: invite.id };
+}
@@ -0,0 +1,226 @@
+import { and, desc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { runSheetAppointments, smsMessages, telehealthInvites } from '@/db/schema';
+import { DataMapper, writeBackAppointmentStatus, type AppointmentStatus } from '@/lib/pms';
+import type { SmsInboundMessage } from './types';
+import { parseReplyKeyword, type ReplyKeyword } from './reply-keywords';
+
+export type InboundReplyOutcome =
+  | { status: 'duplicate' }
+  | { status: 'unmatched'; messageId: string }
+  | {
+      status: 'matched';
+      messageId: string;
+      inviteId: string;
+      keyword: ReplyKeyword | null;
+      action: string | null;
+      actionResult: string | null;
+    };
+
+interface ReplyActionResult {
+  action: string | null;
+  result: string;
+}
+
+const dataMapper = new DataMapper();
+
+// Held in replyActionResult while a reply's action is being applied
+const REPLY_ACTION_PENDING = 'Applying reply action';
+
+const describe = (status: AppointmentStatus) => status.replace('_', ' ');
+
+/**
+ * Record a patient's reply and act on its keyword.
+ *
+ * The reply is matched to the most recent invite sent to that number.
+ * YES confirms the appointment, CANCEL cancels it (both pushed back to the
+ * PMS) and LATE flags it as running late on the run sheet. Replies with no
+ * keyword, or that don't match an invite, are still kept for the thread.
+ * Redeliveries of the same provider message are acknowledged as duplicates,
+ * unless the first delivery failed before its action was recorded, in which
+ * case the action is applied now.
+ */
+export async function handleInboundReply(
+  providerName: string,
+  message: SmsInboundMessage
+): Promise<InboundReplyOutcome> {
+  const from = dataMapper.normalizePhone(message.from) ?? message.from;
+  const invite = await findLatestInvite(from);
+  const keyword = parseReplyKeyword(message.body);
+
+  const [stored] = await db
+    .insert(smsMessages)
+    .values({
+      direction: 'inbound',
+      telehealthInviteId: invite?.id ?? null,
+      runSheetAppointmentId: invite?.runSheetAppointmentId ?? null,
+      phoneNumber: from,
+      body: message.body,
+      smsProvider: providerName,
+      providerMessageId: message.providerMessageId,
+      createdAt: message.receivedAt,
+    })
+    .onConflictDoNothing({ target: [smsMessages.smsProvider, smsMessages.providerMessageId] })
+    .returning({ id: smsMessages.id });
+
+  if (!stored) {
+    const [existing] = await db
+      .select({
+        id: smsMessages.id,
+        telehealthInviteId: smsMessages.telehealthInviteId,
+        runSheetAppointmentId: smsMessages.runSheetAppointmentId,
+        replyActionResult: smsMessages.replyActionResult,
+      })
+      .from(smsMessages)
+      .where(
+        and(
+          eq(smsMessages.smsProvider, providerName),
+          eq(smsMessages.providerMessageId, message.providerMessageId)
+        )
+      )
+      .limit(1);
+
+    // Act against the invite the reply was first matched to
+    if (
+      !keyword ||
+      !existing?.telehealthInviteId ||
+      !existing.runSheetAppointmentId ||
+      existing.replyActionResult !== null
+    ) {
+      return { status: 'duplicate' };
+    }
+    return actOnReply(existing.id, existing.telehealthInviteId, existing.runSheetAppointmentId, keyword);
+  }
+  if (!invite) {
+    return { status: 'unmatched', messageId: stored.id };
+  }
+  if (!keyword || !invite.runSheetAppointmentId) {
+    return { status: 'matched', messageId: stored.id, inviteId: invite.id, keyword, action: null, actionResult: null };
+  }
+
+  return actOnReply(stored.id, invite.id, invite.runSheetAppointmentId, keyword);
+}
+
+/**
+ * Apply a reply's keyword once. The message is claimed first, so concurrent
+ * redeliveries of it can't both act; a failed action releases the claim for
+ * the provider's next redelivery.
+ */
+async function actOnReply(
+  messageId: string,
+  inviteId: string,
+  appointmentId: string,
+  keyword: ReplyKeyword
+): Promise<InboundReplyOutcome> {
+  const [claimed] = await db
+    .update(smsMessages)
+    .set({ replyActionResult: REPLY_ACTION_PENDING })
+    .where(and(eq(smsMessages.id, messageId), isNull(smsMessages.replyActionResult)))
+    .returning({ id: smsMessages.id });
+
+  if (!claimed) {
+    return { status: 'duplicate' };
+  }
+
+  let outcome: ReplyActionResult;
+  try {
+    outcome = await applyReplyKeyword(appointmentId, keyword);
+  } catch (error) {
+    await db
+      .update(smsMessages)
+      .set({ replyActionResult: null })
+      .where(and(eq(smsMessages.id, messageId), eq(smsMessages.replyActionResult, REPLY_ACTION_PENDING)));
+    throw error;
+  }
+
+  await db
+    .update(smsMessages)
+    .set({ replyAction: outcome.action, replyActionResult: outcome.result })
+    .where(eq(smsMessages.id, messageId));
+
+  return { status: 'matched', messageId, inviteId, keyword, action: outcome.action, actionResult: outcome.result };
+}
+
+/**
+ * Most recent invite that actually went out to this number. Invites keep the
+ * number as entered, so candidates are narrowed on trailing digits and then
+ * compared normalised.
+ */
+async function findLatestInvite(from: string) {
+  const trailingDigits = from.replace(/\D/g, '').slice(-8);
+  if (trailingDigits.length < 8) return null;
+
+  const candidates = await db
+    .select({
+      id: telehealthInvites.id,
+      phoneNumber: telehealthInvites.phoneNumber,
+      runSheetAppointmentId: telehealthInvites.runSheetAppointmentId,
+    })
+    .from(telehealthInvites)
+    .where(
+      and(
+        inArray(telehealthInvites.status, ['sent', 'delivered']),
+        sql`right(regexp_replace(${telehealthInvites.phoneNumber}, '[^0-9]', '', 'g'), 8) = ${trailingDigits}`
+      )
+    )
+    .orderBy(desc(telehealthInvites.sentAt))
+    .limit(20);
+
+  return candidates.find(c => dataMapper.normalizePhone(c.phoneNumber) === from) ?? null;
+}
+
+async function applyReplyKeyword(appointmentId: string, keyword: ReplyKeyword): Promise<ReplyActionResult> {
+  const appointment = await db.query.runSheetAppointments.findFirst({
+    where: eq(runSheetAppointments.id, appointmentId),
+    columns: { appointmentStatus: true, pmsRemovedAt: true },
+  });
+
+  if (!appointment || appointment.pmsRemovedAt) {
+    return { action: null, result: 'Appointment is no longer on the run sheet' };
+  }
+
+  const current = appointment.appointmentStatus ?? 'booked';
+
+  switch (keyword) {
+    case 'yes':
+      if (current !== 'booked') {
+        return { action: null, result: `Appointment is already ${describe(current)}` };
+      }
+      return updateStatus(appointmentId, 'confirmed', 'Appointment confirmed');
+
+    case 'cancel':
+      if (current !== 'booked' && current !== 'confirmed') {
+        return { action: null, result: `Appointment is ${describe(current)}, not cancelled` };
+      }
+      return updateStatus(appointmentId, 'cancelled', 'Appointment cancelled');
+
+    case 'late': {
+      if (['cancelled', 'completed', 'no_show'].includes(current)) {
+        return { action: null, result: `Appointment is already ${describe(current)}` };
+      }
+      await db
+        .update(runSheetAppointments)
+        .set({ runningLateAt: new Date(), updatedAt: new Date() })
+        .where(eq(runSheetAppointments.id, appointmentId));
+      return { action: 'running_late', result: 'Marked as running late' };
+    }
+  }
+}
+
+async function updateStatus(
+  appointmentId: string,
+  status: AppointmentStatus,
+  result: string
+): Promise<ReplyActionResult> {
+  await db
+    .update(runSheetAppointments)
+    .set({ appointmentStatus: status, updatedAt: new Date() })
+    .where(eq(runSheetAppointments.id, appointmentId));
+
+  const writeBack = await writeBackAppointmentStatus(appointmentId, status);
+
+  return {
+    action: status,
+    result: writeBack.status === 'failed' ? `${result}, but the PMS could not be updated: ${writeBack.error}` : result,
+  };
+}
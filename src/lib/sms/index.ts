@@ -0,0 +1,47 @@
+// Public types
+export type { SmsMessage, SmsSendResult, SmsDeliveryReceipt, SmsInboundMessage, SmsProvider } from './types';
+export type { SmsProviderName } from './providers';
+export type { InviteMessageValues } from './invite-message';
+export type { SmsSegmentInfo } from './segments';
+export type { InviteDispatchOutcome, InviteDispatchSummary } from './invite-dispatcher';
+export type { InviteLink } from './invite-links';
+export type { InviteRetryPolicy } from './retry-policy';
+export type { DeliveryReceiptOutcome } from './delivery-receipts';
+export type { ReplyKeyword } from './reply-keywords';
+export type { InboundReplyOutcome } from './inbound-replies';
+
+// Providers
+export {
+  getSmsProvider,
+  isSmsProviderName,
+  ConsoleSmsProvider,
+  HttpSmsProvider,
+  SMS_WEBHOOK_SIGNATURE_HEADER,
+  signSmsWebhookPayload,
+} from './providers';
+
+// Invite delivery
+export {
+  INVITE_MESSAGE_TEMPLATE,
+  INVITE_PLACEHOLDERS,
+  findUnknownPlaceholders,
+  formatInviteTime,
+  renderInviteMessage,
+} from './invite-message';
+export { getInviteTemplate } from './message-templates';
+export { getSmsSegmentInfo } from './segments';
+export { InviteDispatcher } from './invite-dispatcher';
+export { DEFAULT_INVITE_RETRY_POLICY, getInviteRetryPolicy, getNextAttemptAt } from './retry-policy';
+export { applyDeliveryReceipt } from './delivery-receipts';
+
+// Patient replies
+export { parseReplyKeyword } from './reply-keywords';
+export { handleInboundReply } from './inbound-replies';
+export {
+  INVITE_LINK_OPENS_BEFORE_MINUTES,
+  INVITE_LINK_EXPIRES_AFTER_MINUTES,
+  createInviteRoomUrl,
+  getInviteLinkUrl,
+  getInviteLinkWindow,
+  issueInviteLink,
+} from './invite-links';
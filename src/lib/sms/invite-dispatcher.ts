@@ -0,0 +1,300 @@
+import { and, asc, eq, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { runSheetAppointments, smsMessages, telehealthInvites } from '@/db/schema';
+import { DataMapper } from '@/lib/pms';
+import type { SmsProvider } from './types';
+import { getSmsProvider } from './providers';
+import { renderInviteMessage } from './invite-message';
+import { getInviteTemplate } from './message-templates';
+import { issueInviteLink } from './invite-links';
+import { getInviteRetryPolicy, getNextAttemptAt, type InviteRetryPolicy } from './retry-policy';
+
+export interface InviteDispatchOutcome {
+  inviteId: string;
+  status: 'sent' | 'retrying' | 'failed' | 'skipped';
+  reason?: string;
+  providerMessageId?: string;
+  nextAttemptAt?: Date;
+}
+
+export interface InviteDispatchSummary {
+  startedAt: Date;
+  completedAt: Date;
+  invitesDue: number;
+  outcomes: InviteDispatchOutcome[];
+}
+
+type InviteRow = typeof telehealthInvites.$inferSelect;
+
+/**
+ * Sends queued telehealth invites once their scheduledFor time has passed
+ * (null means straight away), recording sent or failed on each invite.
+ *
+ * An invite is claimed by setting claimedAt with a conditional update, so
+ * overlapping runs (cron + worker, or "Send now" during a run) never send
+ * the same invite twice. Claims older than staleAfterMinutes are treated as
+ * abandoned by a crashed run and can be taken over.
+ *
+ * Transient failures (a RetryableError from the provider) put the invite
+ * back on the queue with nextAttemptAt set by the retry policy; anything
+ * else, or running out of attempts, marks it failed.
+ */
+export class InviteDispatcher {
+  private readonly staleAfterMs: number;
+  private readonly batchSize: number;
+  private readonly retryPolicy: InviteRetryPolicy;
+  private readonly dataMapper = new DataMapper();
+
+  constructor(
+    private provider: SmsProvider = getSmsProvider(),
+    options: { staleAfterMinutes?: number; batchSize?: number; retryPolicy?: InviteRetryPolicy } = {}
+  ) {
+    this.staleAfterMs = (options.staleAfterMinutes ?? 10) * 60 * 1000;
+    this.batchSize = options.batchSize ?? 50;
+    this.retryPolicy = options.retryPolicy ?? getInviteRetryPolicy();
+  }
+
+  /**
+   * Queued invites whose send time (and any retry backoff) has come, oldest first
+   */
+  async findDueInvites(now: Date = new Date()): Promise<InviteRow[]> {
+    const staleBefore = new Date(now.getTime() - this.staleAfterMs);
+
+    return db
+      .select()
+      .from(telehealthInvites)
+      .where(
+        and(
+          eq(telehealthInvites.status, 'queued'),
+          or(isNull(telehealthInvites.scheduledFor), lte(telehealthInvites.scheduledFor, now)),
+          or(isNull(telehealthInvites.nextAttemptAt), lte(telehealthInvites.nextAttemptAt, now)),
+          or(isNull(telehealthInvites.claimedAt), lt(telehealthInvites.claimedAt, staleBefore))
+        )
+      )
+      .orderBy(asc(sql`coalesce(${telehealthInvites.scheduledFor}, ${telehealthInvites.queuedAt})`))
+      .limit(this.batchSize);
+  }
+
+  /**
+   * Send every due invite, one at a time
+   */
+  async dispatchDueInvites(now: Date = new Date()): Promise<InviteDispatchSummary> {
+    const startedAt = new Date();
+    const due = await this.findDueInvites(now);
+    const outcomes: InviteDispatchOutcome[] = [];
+
+    for (const invite of due) {
+      outcomes.push(await this.dispatch(invite));
+    }
+
+    return {
+      startedAt,
+      completedAt: new Date(),
+      invitesDue: due.length,
+      outcomes,
+    };
+  }
+
+  /**
+   * Send one queued invite straight away, ignoring scheduledFor and any
+   * retry backoff (staff pressing "Send now"). Returns null if it doesn't exist.
+   */
+  async dispatchInvite(inviteId: string): Promise<InviteDispatchOutcome | null> {
+    const [invite] = await db
+      .select()
+      .from(telehealthInvites)
+      .where(eq(telehealthInvites.id, inviteId))
+      .limit(1);
+
+    if (!invite) return null;
+
+    if (invite.status !== 'queued') {
+      return { inviteId, status: 'skipped', reason: `Invite is ${invite.status}, not queued` };
+    }
+
+    return this.dispatch(invite);
+  }
+
+  /**
+   * Claim, render and send a single invite
+   */
+  private async dispatch(invite: InviteRow): Promise<InviteDispatchOutcome> {
+    const claimedAt = await this.claim(invite);
+    if (!claimedAt) {
+      return { inviteId: invite.id, status: 'skipped', reason: 'Invite is already being sent' };
+    }
+
+    const attemptCount = invite.attemptCount + 1;
+
+    // Updates only land while the invite is still queued under our claim, so a
+    // sync flagging it stale mid-send isn't overwritten
+    const stillClaimed = and(
+      eq(telehealthInvites.id, invite.id),
+      eq(telehealthInvites.status, 'queued'),
+      eq(telehealthInvites.claimedAt, claimedAt)
+    );
+
+    try {
+      const to = this.dataMapper.normalizePhone(invite.phoneNumber);
+      if (!to || !this.dataMapper.isAustralianMobile(to)) {
+        throw new Error(`${invite.phoneNumber} is not a mobile number`);
+      }
+
+      const body = await this.renderMessage(invite);
+
+      const holdReason = await this.getHoldReason(invite.id, claimedAt);
+      if (holdReason) {
+        await db.update(telehealthInvites).set({ claimedAt: null }).where(stillClaimed);
+        return { inviteId: invite.id, status: 'skipped', reason: holdReason };
+      }
+
+      const { providerMessageId } = await this.provider.send({ to, body, reference: invite.id });
+
+      const [sent] = await db
+        .update(telehealthInvites)
+        .set({
+          status: 'sent',
+          sentAt: new Date(),
+          failedAt: null,
+          failureReason: null,
+          claimedAt: null,
+          attemptCount,
+          nextAttemptAt: null,
+          deliveredAt: null,
+          smsProvider: this.provider.name,
+          providerMessageId,
+        })
+        .where(stillClaimed)
+        .returning({ id: telehealthInvites.id });
+
+      if (!sent) {
+        // Changed while the provider had it - keep the new status, but record what went out
+        await db
+          .update(telehealthInvites)
+          .set({
+            sentAt: new Date(),
+            claimedAt: null,
+            attemptCount,
+            smsProvider: this.provider.name,
+            providerMessageId,
+          })
+          .where(eq(telehealthInvites.id, invite.id));
+      }
+
+      // Start of the conversation thread replies are shown under
+      await db.insert(smsMessages).values({
+        direction: 'outbound',
+        telehealthInviteId: invite.id,
+        runSheetAppointmentId: invite.runSheetAppointmentId,
+        phoneNumber: to,
+        body,
+        smsProvider: this.provider.name,
+        providerMessageId,
+      });
+
+      return { inviteId: invite.id, status: 'sent', providerMessageId };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const nextAttemptAt = getNextAttemptAt(this.retryPolicy, attemptCount, error);
+
+      if (nextAttemptAt) {
+        // Stays queued; the reason shows why it's waiting
+        await db
+          .update(telehealthInvites)
+          .set({
+            failureReason: reason,
+            claimedAt: null,
+            attemptCount,
+            nextAttemptAt,
+            smsProvider: this.provider.name,
+          })
+          .where(stillClaimed);
+
+        return { inviteId: invite.id, status: 'retrying', reason, nextAttemptAt };
+      }
+
+      await db
+        .update(telehealthInvites)
+        .set({
+          status: 'failed',
+          failedAt: new Date(),
+          failureReason: reason,
+          claimedAt: null,
+          attemptCount,
+          nextAttemptAt: null,
+          smsProvider: this.provider.name,
+        })
+        .where(stillClaimed);
+
+      return { inviteId: invite.id, status: 'failed', reason };
+    }
+  }
+
+  /**
+   * Invite text, from the clinician's template, with the patient, clinician,
+   * time and the invite's own link filled in
+   */
+  private async renderMessage(invite: InviteRow): Promise<string> {
+    const link = await issueInviteLink(invite.id);
+    const template = await getInviteTemplate(invite.clinicianId);
+
+    const details = await db.query.telehealthInvites.findFirst({
+      where: eq(telehealthInvites.id, invite.id),
+      with: { appointment: true, clinician: true },
+    });
+
+    return renderInviteMessage(template, {
+      patientName: invite.patientName ?? details?.appointment?.patientName ?? null,
+      clinicianName: details?.clinician?.name ?? null,
+      appointmentTime: invite.appointmentTime,
+      link: link.url,
+    });
+  }
+
+  /**
+   * Why an invite claimed earlier must not go out now: a sync has flagged it
+   * stale, another run has taken it over, or its appointment is off
+   */
+  private async getHoldReason(inviteId: string, claimedAt: Date): Promise<string | null> {
+    const [current] = await db
+      .select({
+        status: telehealthInvites.status,
+        claimedAt: telehealthInvites.claimedAt,
+        appointmentStatus: runSheetAppointments.appointmentStatus,
+        pmsRemovedAt: runSheetAppointments.pmsRemovedAt,
+      })
+      .from(telehealthInvites)
+      .leftJoin(runSheetAppointments, eq(telehealthInvites.runSheetAppointmentId, runSheetAppointments.id))
+      .where(eq(telehealthInvites.id, inviteId))
+      .limit(1);
+
+    if (!current) return 'Invite was deleted';
+    if (current.status !== 'queued') return `Invite is ${current.status}, not queued`;
+    if (current.claimedAt?.getTime() !== claimedAt.getTime()) return 'Invite is already being sent';
+    if (current.appointmentStatus === 'cancelled' || current.pmsRemovedAt) return 'Appointment has been cancelled';
+    return null;
+  }
+
+  /**
+   * Mark an invite as being sent unless another run holds a fresh claim.
+   * Returns the claim time, which later updates are conditional on.
+   */
+  private async claim(invite: InviteRow): Promise<Date | null> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - this.staleAfterMs);
+
+    const claimed = await db
+      .update(telehealthInvites)
+      .set({ claimedAt: now })
+      .where(
+        and(
+          eq(telehealthInvites.id, invite.id),
+          eq(telehealthInvites.status, 'queued'),
+          or(isNull(telehealthInvites.claimedAt), lt(telehealthInvites.claimedAt, staleBefore))
+        )
+      )
+      .returning({ id: telehealthInvites.id });
+
+    return claimed.length > 0 ? now : null;
+  }
+}
@@ -0,0 +1,96 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { pmsConnections, runSheetAppointments, telehealthInvites } from '@/db/schema';
+import { generateSecureToken } from '@/lib/utils/token';
+import { DEFAULT_PRACTICE_TIMEZONE, zonedDateTimeToUtc } from '@/lib/pms';
+
+// A link can be opened from an hour before the appointment until two hours after it
+export const INVITE_LINK_OPENS_BEFORE_MINUTES = 60;
+export const INVITE_LINK_EXPIRES_AFTER_MINUTES = 120;
+
+export interface InviteLink {
+  token: string;
+  url: string;
+  roomUrl: string | null;
+  validFrom: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Public landing page URL for a link token
+ */
+export function getInviteLinkUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  return `${baseUrl}/join/${token}`;
+}
+
+/**
+ * New video room for an invite under TELEHEALTH_ROOM_URL, so each patient
+ * joins their own session. Null when no room service is configured.
+ */
+export function createInviteRoomUrl(): string | null {
+  const baseUrl = process.env.TELEHEALTH_ROOM_URL;
+  if (!baseUrl) return null;
+  return `${baseUrl.replace(/\/$/, '')}/${generateSecureToken(16)}`;
+}
+
+/**
+ * Window a link works in, around the appointment's start
+ */
+export function getInviteLinkWindow(appointmentStart: Date): { validFrom: Date; expiresAt: Date } {
+  return {
+    validFrom: new Date(appointmentStart.getTime() - INVITE_LINK_OPENS_BEFORE_MINUTES * 60 * 1000),
+    expiresAt: new Date(appointmentStart.getTime() + INVITE_LINK_EXPIRES_AFTER_MINUTES * 60 * 1000),
+  };
+}
+
+/**
+ * Give an invite its session link, or move an existing link's window to
+ * the appointment's current time. The token and room are kept, so a resent
+ * invite carries the same link as the first.
+ */
+export async function issueInviteLink(inviteId: string): Promise<InviteLink> {
+  const [invite] = await db
+    .select({
+      linkToken: telehealthInvites.linkToken,
+      roomUrl: telehealthInvites.roomUrl,
+      appointmentDate: telehealthInvites.appointmentDate,
+      appointmentTime: telehealthInvites.appointmentTime,
+      appointmentStartAt: runSheetAppointments.appointmentStartAt,
+      timezone: pmsConnections.timezone,
+    })
+    .from(telehealthInvites)
+    .leftJoin(runSheetAppointments, eq(telehealthInvites.runSheetAppointmentId, runSheetAppointments.id))
+    .leftJoin(pmsConnections, eq(runSheetAppointments.pmsConnectionId, pmsConnections.id))
+    .where(eq(telehealthInvites.id, inviteId))
+    .limit(1);
+
+  if (!invite) {
+    throw new Error(`Telehealth invite ${inviteId} not found`);
+  }
+  if (!invite.appointmentStartAt && !/^\d{1,2}:\d{2}$/.test(invite.appointmentTime)) {
+    throw new Error(`Invite has no usable appointment time (${invite.appointmentTime || 'blank'})`);
+  }
+
+  // Manual entries only have a local date and time
+  const appointmentStart = invite.appointmentStartAt ?? zonedDateTimeToUtc(
+    `${invite.appointmentDate}T${invite.appointmentTime.padStart(5, '0')}`,
+    invite.timezone ?? DEFAULT_PRACTICE_TIMEZONE
+  );
+
+  const token = invite.linkToken ?? generateSecureToken();
+  const roomUrl = invite.roomUrl ?? createInviteRoomUrl();
+  const { validFrom, expiresAt } = getInviteLinkWindow(appointmentStart);
+
+  await db
+    .update(telehealthInvites)
+    .set({
+      linkToken: token,
+      roomUrl,
+      linkValidFrom: validFrom,
+      linkExpiresAt: expiresAt,
+    })
+    .where(eq(telehealthInvites.id, inviteId));
+
+  return { token, url: getInviteLinkUrl(token), roomUrl, validFrom, expiresAt };
+}
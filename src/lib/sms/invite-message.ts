@@ -0,0 +1,51 @@
+/**
+ * Telehealth invite text. Kept free of server imports so the invite modal
+ * can preview the same template the dispatcher sends.
+ */
+
+export const INVITE_MESSAGE_TEMPLATE =
+  'Hi [patient name], for your appointment with [clinician] at [time], please click on this link: [link]';
+
+// Every placeholder a template may use; [link] is required
+export const INVITE_PLACEHOLDERS = ['[patient name]', '[clinician]', '[time]', '[link]'] as const;
+
+export interface InviteMessageValues {
+  patientName: string | null;
+  clinicianName: string | null;
+  appointmentTime: string;  // HH:MM, practice-local
+  link: string;
+}
+
+/**
+ * 24-hour HH:MM as patients read it, e.g. 14:30 -> 2:30pm
+ */
+export function formatInviteTime(time: string): string {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return time;
+
+  const hour = Number(match[1]);
+  return `${hour % 12 || 12}:${match[2]}${hour < 12 ? 'am' : 'pm'}`;
+}
+
+/**
+ * Bracketed tokens in a template that aren't placeholders we can fill, e.g. [date]
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  const tokens = template.match(/\[[^\]]*\]/g) ?? [];
+  const known: readonly string[] = INVITE_PLACEHOLDERS;
+  return [...new Set(tokens.filter(token => !known.includes(token)))];
+}
+
+/**
+ * Fill in a template's placeholders for one invite
+ */
+export function renderInviteMessage(template: string, values: InviteMessageValues): string {
+  const replacements: Record<string, string> = {
+    '[patient name]': values.patientName?.trim() || 'there',
+    '[clinician]': values.clinicianName?.trim() || 'your clinician',
+    '[time]': formatInviteTime(values.appointmentTime),
+    '[link]': values.link,
+  };
+
+  return template.replace(/\[(patient name|clinician|time|link)\]/g, placeholder => replacements[placeholder]);
+}
@@ -0,0 +1,24 @@
+import { eq, isNull, or } from 'drizzle-orm';
+import { db } from '@/db';
+import { messageTemplates } from '@/db/schema';
+import { INVITE_MESSAGE_TEMPLATE } from './invite-message';
+
+/**
+ * Template an invite for this clinician goes out with: their own override,
+ * else the clinic default, else the built-in text
+ */
+export async function getInviteTemplate(clinicianId: string | null): Promise<string> {
+  const templates = await db
+    .select({ clinicianId: messageTemplates.clinicianId, body: messageTemplates.body })
+    .from(messageTemplates)
+    .where(
+      clinicianId
+        ? or(eq(messageTemplates.clinicianId, clinicianId), isNull(messageTemplates.clinicianId))
+        : isNull(messageTemplates.clinicianId)
+    );
+
+  const override = clinicianId ? templates.find(t => t.clinicianId === clinicianId) : undefined;
+  const clinicDefault = templates.find(t => t.clinicianId === null);
+
+  return override?.body ?? clinicDefault?.body ?? INVITE_MESSAGE_TEMPLATE;
+}
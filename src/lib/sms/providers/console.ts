@@ -0,0 +1,27 @@
+import { randomUUID } from 'crypto';
+import { appendFile } from 'fs/promises';
+import type { SmsMessage, SmsProvider, SmsSendResult } from '../types';
+
+/**
+ * Logs messages instead of sending them, for local development.
+ * When an outbox file is set (SMS_OUTBOX_FILE), each message is also
+ * appended to it as a line of JSON.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  constructor(private readonly outboxFile: string | undefined = process.env.SMS_OUTBOX_FILE) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const providerMessageId = `console-${randomUUID()}`;
+
+    console.log(`[sms] To ${message.to}: ${message.body}`);
+
+    if (this.outboxFile) {
+      const line = JSON.stringify({ id: providerMessageId, ...message, sentAt: new Date().toISOString() });
+      await appendFile(this.outboxFile, `${line}\n`);
+    }
+
+    return { providerMessageId };
+  }
+}
@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { RetryableError } from '@/lib/pms/core/retry-handler';
+import type { SmsDeliveryReceipt, SmsInboundMessage, SmsMessage, SmsProvider, SmsSendResult } from '../types';
+
+/**
+ * Delivery receipts and replies are signed with the shared webhook secret:
+ * `X-SMS-Signature: sha256=<hex HMAC-SHA256 of the raw body>`
+ */
+export const SMS_WEBHOOK_SIGNATURE_HEADER = 'x-sms-signature';
+
+// Statuses the gateway answers with that are worth sending again later
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+export interface HttpSmsProviderOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  senderId?: string;
+  webhookSecret?: string;
+}
+
+interface HttpSmsResponse {
+  id: string;
+  status: string;
+}
+
+interface HttpSmsReceiptPayload {
+  id?: unknown;
+  status?: unknown;
+  error?: unknown;
+  timestamp?: unknown;
+}
+
+interface HttpSmsInboundPayload {
+  id?: unknown;
+  from?: unknown;
+  body?: unknown;
+  timestamp?: unknown;
+}
+
+function parseTimestamp(value: unknown): Date {
+  const date = typeof value === 'string' ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Signature header value for a receipt body
+ */
+export function signSmsWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Generic JSON SMS gateway: POST {baseUrl}/messages with a bearer API key,
+ * answered with the accepted message's ID. Delivery receipts are POSTed
+ * back to /api/sms/http/delivery-receipts and replies to
+ * /api/sms/http/inbound. Runs against the local stub
+ * (scripts/sms-stub-server.ts) until a carrier is chosen.
+ */
+export class HttpSmsProvider implements SmsProvider {
+  readonly name = 'http';
+
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly senderId?: string;
+  private readonly webhookSecret?: string;
+
+  constructor(options: HttpSmsProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? process.env.SMS_HTTP_BASE_URL ?? 'http://127.0.0.1:4020/v1').replace(/\/$/, '');
+    this.apiKey = options.apiKey ?? process.env.SMS_HTTP_API_KEY;
+    this.senderId = options.senderId ?? process.env.SMS_SENDER_ID;
+    this.webhookSecret = options.webhookSecret ?? process.env.SMS_WEBHOOK_SECRET;
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    if (!this.apiKey) {
+      throw new Error('SMS_HTTP_API_KEY must be set');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          to: message.to,
+          from: this.senderId,
+          body: message.body,
+          reference: message.reference,
+        }),
+      });
+    } catch (error) {
+      // Gateway unreachable - nothing was accepted, so it's safe to try again
+      throw new RetryableError(`SMS provider unreachable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => 'Unknown error');
+      const errorMessage = `SMS provider rejected message: ${response.status} - ${errorBody}`;
+
+      if (RETRYABLE_STATUS_CODES.includes(response.status)) {
+        const retryAfter = Number(response.headers.get('retry-after')) || undefined;
+        throw new RetryableError(errorMessage, response.status, retryAfter);
+      }
+      throw new Error(errorMessage);
+    }
+
+    const result = (await response.json()) as HttpSmsResponse;
+    return { providerMessageId: result.id };
+  }
+
+  verifyWebhook(rawBody: string, headers: Headers): boolean {
+    const signature = headers.get(SMS_WEBHOOK_SIGNATURE_HEADER);
+    if (!this.webhookSecret || !signature) return false;
+
+    const expected = Buffer.from(signSmsWebhookPayload(this.webhookSecret, rawBody));
+    const received = Buffer.from(signature.trim());
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  parseDeliveryReceipt(payload: unknown): SmsDeliveryReceipt | null {
+    const receipt = payload as HttpSmsReceiptPayload | null;
+    if (!receipt || typeof receipt.id !== 'string') return null;
+
+    // accepted/enroute are interim; expired and rejected are final failures
+    let status: SmsDeliveryReceipt['status'];
+    if (receipt.status === 'delivered') {
+      status = 'delivered';
+    } else if (['undeliverable', 'expired', 'rejected'].includes(String(receipt.status))) {
+      status = 'undeliverable';
+    } else {
+      return null;
+    }
+
+    return {
+      providerMessageId: receipt.id,
+      status,
+      reason: typeof receipt.error === 'string' ? receipt.error : undefined,
+      occurredAt: parseTimestamp(receipt.timestamp),
+    };
+  }
+
+  parseInboundMessage(payload: unknown): SmsInboundMessage | null {
+    const message = payload as HttpSmsInboundPayload | null;
+    if (!message || typeof message.id !== 'string' || typeof message.from !== 'string') return null;
+
+    return {
+      providerMessageId: message.id,
+      from: message.from,
+      body: typeof message.body === 'string' ? message.body : '',
+      receivedAt: parseTimestamp(message.timestamp),
+    };
+  }
+}
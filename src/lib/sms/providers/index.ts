@@ -0,0 +1,28 @@
+import type { SmsProvider } from '../types';
+import { ConsoleSmsProvider } from './console';
+import { HttpSmsProvider, SMS_WEBHOOK_SIGNATURE_HEADER, signSmsWebhookPayload } from './http';
+
+export type SmsProviderName = 'console' | 'http';
+
+const providers: Record<SmsProviderName, () => SmsProvider> = {
+  console: () => new ConsoleSmsProvider(),
+  http: () => new HttpSmsProvider(),
+};
+
+export function isSmsProviderName(name: string): name is SmsProviderName {
+  return Object.keys(providers).includes(name);
+}
+
+/**
+ * Get an SMS provider by name, defaulting to SMS_PROVIDER (or the console provider)
+ */
+export function getSmsProvider(name: string = process.env.SMS_PROVIDER || 'console'): SmsProvider {
+  const factory = providers[name as SmsProviderName];
+  if (!factory) {
+    throw new Error(`Unknown SMS provider: ${name}`);
+  }
+  return factory();
+}
+
+// Re-export providers
+export { ConsoleSmsProvider, HttpSmsProvider, SMS_WEBHOOK_SIGNATURE_HEADER, signSmsWebhookPayload };
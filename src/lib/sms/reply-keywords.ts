@@ -0,0 +1,21 @@
+/**
+ * Keywords patients can reply to an invite with. YES and CANCEL must lead
+ * the reply ("Yes see you then", "Cancel please"); LATE counts anywhere,
+ * since patients write "running late" or "I'll be 10 min late".
+ */
+
+export type ReplyKeyword = 'yes' | 'cancel' | 'late';
+
+const YES_WORDS = ['yes', 'y', 'yep', 'yeah', 'ok', 'okay', 'confirm', 'confirmed'];
+const CANCEL_WORDS = ['cancel', 'cancelled', 'canceled'];
+
+export function parseReplyKeyword(body: string): ReplyKeyword | null {
+  const words = body.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+
+  if (YES_WORDS.includes(words[0])) return 'yes';
+  if (CANCEL_WORDS.includes(words[0]) || (words[0] === 'please' && CANCEL_WORDS.includes(words[1]))) return 'cancel';
+  if (words.includes('late')) return 'late';
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import { RetryableError } from '@/lib/pms/core/retry-handler';
+
+/**
+ * How a transient send failure (gateway down, rate limited, 5xx) is
+ * retried. The invite goes back on the queue with nextAttemptAt pushed out
+ * by an exponential backoff, until maxAttempts sends have been tried.
+ */
+export interface InviteRetryPolicy {
+  maxAttempts: number;        // Total sends, including the first
+  baseDelaySeconds: number;   // Wait before the first retry; doubles after each
+  maxDelaySeconds: number;
+}
+
+export const DEFAULT_INVITE_RETRY_POLICY: InviteRetryPolicy = {
+  maxAttempts: 4,
+  baseDelaySeconds: 60,
+  maxDelaySeconds: 30 * 60,
+};
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Policy from INVITE_RETRY_MAX_ATTEMPTS, INVITE_RETRY_BASE_DELAY_SECONDS and
+ * INVITE_RETRY_MAX_DELAY_SECONDS, falling back to the defaults
+ */
+export function getInviteRetryPolicy(env: Record<string, string | undefined> = process.env): InviteRetryPolicy {
+  return {
+    maxAttempts: positiveInt(env.INVITE_RETRY_MAX_ATTEMPTS, DEFAULT_INVITE_RETRY_POLICY.maxAttempts),
+    baseDelaySeconds: positiveInt(env.INVITE_RETRY_BASE_DELAY_SECONDS, DEFAULT_INVITE_RETRY_POLICY.baseDelaySeconds),
+    maxDelaySeconds: positiveInt(env.INVITE_RETRY_MAX_DELAY_SECONDS, DEFAULT_INVITE_RETRY_POLICY.maxDelaySeconds),
+  };
+}
+
+/**
+ * When to try again after a failed attempt, or null to give up.
+ * attempt is the number of sends made so far (1 after the first failure).
+ */
+export function getNextAttemptAt(
+  policy: InviteRetryPolicy,
+  attempt: number,
+  error: unknown,
+  now: Date = new Date()
+): Date | null {
+  if (!(error instanceof RetryableError) || attempt >= policy.maxAttempts) {
+    return null;
+  }
+
+  const exponentialDelay = policy.baseDelaySeconds * 1000 * Math.pow(2, attempt - 1);
+  const cappedDelay = Math.min(exponentialDelay, policy.maxDelaySeconds * 1000);
+
+  // ±25% jitter so invites that failed together don't retry together
+  let delay = Math.floor(cappedDelay + cappedDelay * 0.25 * (Math.random() * 2 - 1));
+
+  // Never sooner than the gateway asked for
+  if (error.retryAfter) {
+    delay = Math.max(delay, error.retryAfter * 1000);
+  }
+
+  return new Date(now.getTime() + delay);
+}
@@ -0,0 +1,46 @@
+/**
+ * SMS length accounting. Messages that fit the GSM 03.38 alphabet go out
+ * as GSM-7 (160 characters, or 153 per part once split); a single
+ * character outside it switches the whole message to UCS-2 (70, or 67 per
+ * part). Kept free of server imports for the template editor.
+ */
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+// Sent as an escape plus the character, so each counts twice
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+export interface SmsSegmentInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;              // In encoding units, not JS string length
+  segments: number;
+  nonGsmCharacters: string[];  // Characters forcing UCS-2, in order of first use
+}
+
+export function getSmsSegmentInfo(text: string): SmsSegmentInfo {
+  const characters = Array.from(text);
+  const nonGsmCharacters = [...new Set(
+    characters.filter(char => !GSM_BASIC.includes(char) && !GSM_EXTENDED.includes(char))
+  )];
+
+  if (nonGsmCharacters.length > 0) {
+    // UCS-2 counts UTF-16 code units, so emoji take two
+    const length = text.length;
+    return {
+      encoding: 'UCS-2',
+      length,
+      segments: length <= 70 ? 1 : Math.ceil(length / 67),
+      nonGsmCharacters,
+    };
+  }
+
+  const length = characters.reduce((total, char) => total + (GSM_EXTENDED.includes(char) ? 2 : 1), 0);
+  return {
+    encoding: 'GSM-7',
+    length,
+    segments: length === 0 ? 0 : length <= 160 ? 1 : Math.ceil(length / 153),
+    nonGsmCharacters: [],
+  };
+}
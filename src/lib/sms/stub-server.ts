@@ -0,0 +1,247 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { signSmsWebhookPayload } from './providers/http';
+
+/**
+ * Local stand-in for an SMS gateway, speaking the API HttpSmsProvider
+ * expects. Accepted messages are kept in memory and can be listed with
+ * GET /v1/messages; nothing is sent.
+ *
+ * With a receiptUrl, each accepted message gets a signed delivery receipt
+ * POSTed there shortly afterwards - delivered, or undeliverable for the
+ * undeliverableNumbers. With an inboundUrl, POST /v1/inbound {from, body}
+ * (or receive()) forwards a signed patient reply there.
+ */
+
+export interface SmsStubOptions {
+  port?: number;
+  apiKey?: string;
+  rejectedNumbers?: string[];  // Destinations answered with 400, to exercise failures
+  undeliverableNumbers?: string[];  // Accepted, then reported undeliverable
+  unavailableSends?: number;  // Answer this many sends with 503 before accepting, to exercise retries
+  receiptUrl?: string | null;
+  inboundUrl?: string | null;
+  webhookSecret?: string;
+  receiptDelayMs?: number;
+}
+
+export interface SmsStubReceipt {
+  id: string;
+  status: 'delivered' | 'undeliverable';
+  responseStatus: number | null;  // What the receipt endpoint answered; null if unreachable
+}
+
+export interface SmsStubMessage {
+  id: string;
+  to: string;
+  from: string | null;
+  body: string;
+  reference: string | null;
+  acceptedAt: string;
+}
+
+export interface SmsStubServer {
+  baseUrl: string;
+  options: Required<SmsStubOptions>;
+  messages: SmsStubMessage[];
+  receipts: SmsStubReceipt[];
+  receive: (from: string, body: string) => Promise<{ id: string; responseStatus: number }>;
+  close: () => Promise<void>;
+}
+
+export const SMS_STUB_DEFAULTS: Required<SmsStubOptions> = {
+  port: 4020,
+  apiKey: 'stub-sms-api-key',
+  rejectedNumbers: [],
+  undeliverableNumbers: [],
+  unavailableSends: 0,
+  receiptUrl: null,
+  inboundUrl: null,
+  webhookSecret: 'stub-sms-webhook-secret',
+  receiptDelayMs: 200,
+};
+
+class StubHttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export async function startSmsStubServer(
+  overrides: SmsStubOptions = {}
+): Promise<SmsStubServer> {
+  const options = { ...SMS_STUB_DEFAULTS, ...overrides };
+  const messages: SmsStubMessage[] = [];
+  const receipts: SmsStubReceipt[] = [];
+  const pendingReceipts = new Set<Promise<void>>();
+  let unavailableSends = options.unavailableSends;
+
+  const sendReceipt = async (message: SmsStubMessage) => {
+    if (!options.receiptUrl) return;
+
+    const undeliverable = options.undeliverableNumbers.includes(message.to);
+    const receipt: SmsStubReceipt = {
+      id: message.id,
+      status: undeliverable ? 'undeliverable' : 'delivered',
+      responseStatus: null,
+    };
+    const body = JSON.stringify({
+      id: message.id,
+      reference: message.reference,
+      status: receipt.status,
+      error: undeliverable ? 'Handset unreachable' : undefined,
+      timestamp: new Date().toISOString(),
+    });
+
+    await new Promise(resolve => setTimeout(resolve, options.receiptDelayMs));
+    try {
+      const response = await fetch(options.receiptUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-SMS-Signature': signSmsWebhookPayload(options.webhookSecret, body),
+        },
+        body,
+      });
+      receipt.responseStatus = response.status;
+    } catch {
+      // Receipt endpoint down; the message stays sent
+    }
+    receipts.push(receipt);
+  };
+
+  // Forward a patient reply as the gateway would
+  const receive = async (from: string, text: string) => {
+    if (!options.inboundUrl) {
+      throw new StubHttpError(400, 'No inboundUrl configured');
+    }
+
+    const id = randomUUID();
+    const body = JSON.stringify({ id, from, body: text, timestamp: new Date().toISOString() });
+    const response = await fetch(options.inboundUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-SMS-Signature': signSmsWebhookPayload(options.webhookSecret, body),
+      },
+      body,
+    });
+
+    return { id, responseStatus: response.status };
+  };
+
+  const handle = async (req: IncomingMessage): Promise<[number, unknown]> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/v1/, '');
+    const method = req.method || 'GET';
+
+    if (req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      throw new StubHttpError(401, 'Invalid API key');
+    }
+
+    if (path === '/inbound' && method === 'POST') {
+      let body: { from?: unknown; body?: unknown };
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        throw new StubHttpError(400, 'Body must be JSON');
+      }
+      if (typeof body.from !== 'string' || typeof body.body !== 'string') {
+        throw new StubHttpError(400, 'from and body are required');
+      }
+      return [202, await receive(body.from, body.body)];
+    }
+
+    if (path !== '/messages') {
+      throw new StubHttpError(404, `No route for ${method} ${path}`);
+    }
+    if (method === 'GET') {
+      return [200, messages];
+    }
+    if (method !== 'POST') {
+      throw new StubHttpError(404, `No route for ${method} ${path}`);
+    }
+
+    let body: { to?: unknown; from?: unknown; body?: unknown; reference?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      throw new StubHttpError(400, 'Body must be JSON');
+    }
+
+    if (typeof body.to !== 'string' || !/^\+\d{8,15}$/.test(body.to)) {
+      throw new StubHttpError(400, `Invalid destination ${String(body.to)}`);
+    }
+    if (typeof body.body !== 'string' || body.body.length === 0) {
+      throw new StubHttpError(400, 'Message body is required');
+    }
+    if (options.rejectedNumbers.includes(body.to)) {
+      throw new StubHttpError(400, `Destination ${body.to} is unreachable`);
+    }
+    if (unavailableSends > 0) {
+      unavailableSends--;
+      throw new StubHttpError(503, 'Gateway temporarily unavailable');
+    }
+
+    const message: SmsStubMessage = {
+      id: randomUUID(),
+      to: body.to,
+      from: typeof body.from === 'string' ? body.from : null,
+      body: body.body,
+      reference: typeof body.reference === 'string' ? body.reference : null,
+      acceptedAt: new Date().toISOString(),
+    };
+    messages.push(message);
+
+    const pending = sendReceipt(message);
+    pendingReceipts.add(pending);
+    pending.finally(() => pendingReceipts.delete(pending));
+
+    return [201, { id: message.id, status: 'accepted' }];
+  };
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    handle(req)
+      .then(([status, body]) => sendJson(res, status, body))
+      .catch(error => {
+        const status = error instanceof StubHttpError ? error.status : 500;
+        sendJson(res, status, { message: error instanceof Error ? error.message : String(error) });
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, '127.0.0.1', () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    options: { ...options, port },
+    messages,
+    receipts,
+    receive,
+    close: async () => {
+      await Promise.all(pendingReceipts);
+      await new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
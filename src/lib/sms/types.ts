@@ -0,0 +1,49 @@
+// Outbound SMS, ready to hand to a provider
+export interface SmsMessage {
+  to: string;          // E.164, e.g. +61412345678
+  body: string;
+  reference?: string;  // Our ID for the message (e.g. the invite ID)
+}
+
+// Provider's acknowledgement that it accepted a message
+export interface SmsSendResult {
+  providerMessageId: string;
+}
+
+// Carrier's final word on a message, pushed back by the provider
+export interface SmsDeliveryReceipt {
+  providerMessageId: string;
+  status: 'delivered' | 'undeliverable';
+  reason?: string;
+  occurredAt: Date;
+}
+
+// Message a patient sent to our number
+export interface SmsInboundMessage {
+  providerMessageId: string;
+  from: string;
+  body: string;
+  receivedAt: Date;
+}
+
+/**
+ * SMS gateway. send resolves once the provider has accepted the message
+ * and rejects if it was refused or couldn't be handed over - with a
+ * RetryableError when trying again later might succeed.
+ *
+ * Providers that push delivery receipts or replies implement verifyWebhook
+ * and the matching parse method.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+
+  // Check a delivery receipt request really came from the provider
+  verifyWebhook?(rawBody: string, headers: Headers): boolean;
+
+  // Final delivery receipt from a webhook payload; null for interim updates
+  parseDeliveryReceipt?(payload: unknown): SmsDeliveryReceipt | null;
+
+  // Patient reply from a webhook payload; null if it isn't one
+  parseInboundMessage?(payload: unknown): SmsInboundMessage | null;
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { findUnknownPlaceholders } from '@/lib/sms/invite-message';
+import { isValidTimezone } from '@/lib/pms/core/timezone';
 
 export const appointmentRequestSchema = z.object({
   firstName: z
@@ -81,5 +83,118 @@ export const updateRequestSchema = z.object({
   notes: z.string().optional(),
 });
 
+export const pmsConnectionSchema = z.object({
+  pmsType: z.enum(['gentu', 'medirecords', 'halaxy']),
+
+  displayName: z
+    .string()
+    .min(1, 'Display name is required')
+    .max(255, 'Display name must be less than 255 characters'),
+
+  tenantId: z.string().max(255).nullable().optional(),
+  practiceId: z.string().max(255).nullable().optional(),
+  organizationId: z.string().max(255).nullable().optional(),
+
+  syncEnabled: z.boolean().optional(),
+
+  syncFrequencyMinutes: z
+    .number()
+    .int()
+    .min(5, 'Sync frequency must be at least 5 minutes')
+    .max(1440, 'Sync frequency must be at most 24 hours')
+    .optional(),
+
+  syncTelehealthOnly: z.boolean().optional(),
+
+  journalRequests: z.boolean().optional(),
+
+  timezone: z
+    .string()
+    .refine(isValidTimezone, 'Unknown timezone')
+    .optional(),
+});
+
+// PMS type can't change once a connection exists
+export const updatePmsConnectionSchema = pmsConnectionSchema
+  .omit({ pmsType: true })
+  .partial();
+
+export const pmsPairingSchema = z.object({
+  pairingCode: z
+    .string()
+    .trim()
+    .min(1, 'Pairing code is required')
+    .max(64, 'Pairing code is too long'),
+});
+
+export const clinicianMappingSchema = z.object({
+  pmsPractitionerName: z.string().min(1).max(255).optional(),
+  runSheetClinicianId: z.string().uuid('Invalid clinician').nullable().optional(),
+  createClinician: z.boolean().optional(),
+  syncEnabled: z.boolean().optional(),
+}).refine(
+  (data) => !(data.createClinician && data.runSheetClinicianId),
+  'Choose an existing clinician or create a new one, not both'
+);
+
+export const mergeCliniciansSchema = z.object({
+  sourceClinicianId: z.string().uuid('Invalid source clinician'),
+  targetClinicianId: z.string().uuid('Invalid target clinician'),
+}).refine(
+  (data) => data.sourceClinicianId !== data.targetClinicianId,
+  'Cannot merge a clinician into itself'
+);
+
+export const appointmentTypeClassificationSchema = z.object({
+  isTelehealth: z.boolean().optional(),
+  syncEnabled: z.boolean().optional(),
+}).refine(
+  (data) => data.isTelehealth !== undefined || data.syncEnabled !== undefined,
+  'Nothing to update'
+);
+
+const messageTemplateBodySchema = z.string()
+  .trim()
+  .min(1, 'Message is required')
+  .max(1000, 'Message is too long')
+  .superRefine((body, ctx) => {
+    const unknown = findUnknownPlaceholders(body);
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: 'custom', message: `Unknown placeholder ${unknown.join(', ')}` });
+    }
+    if (!body.includes('[link]')) {
+      ctx.addIssue({ code: 'custom', message: 'Message must include the [link] placeholder' });
+    }
+  });
+
+export const messageTemplateSchema = z.object({
+  clinicianId: z.string().uuid('Invalid clinician').nullable().optional(),
+  body: messageTemplateBodySchema,
+});
+
+export const updateMessageTemplateSchema = z.object({
+  body: messageTemplateBodySchema,
+});
+
+export const messageTemplatePreviewSchema = z.object({
+  body: messageTemplateBodySchema,
+  appointmentId: z.string().uuid('Invalid appointment'),
+});
+
+export const runSheetAppointmentStatusSchema = z.object({
+  appointmentStatus: z.enum([
+    'booked',
+    'confirmed',
+    'arrived',
+    'in_progress',
+    'completed',
+    'cancelled',
+    'no_show'
+  ]),
+});
+
 export type AppointmentRequestInput = z.infer<typeof appointmentRequestSchema>;
 export type UpdateRequestInput = z.infer<typeof updateRequestSchema>;
+export type PmsConnectionInput = z.infer<typeof pmsConnectionSchema>;
+export type UpdatePmsConnectionInput = z.infer<typeof updatePmsConnectionSchema>;
+export type MessageTemplateInput = z.infer<typeof messageTemplateSchema>;